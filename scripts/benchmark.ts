@@ -0,0 +1,49 @@
+/**
+ * Time the solver on generated timelines.
+ *
+ *   npm run benchmark -- [nodes] [relationships] [contradiction rate] [disjunction rate]
+ *
+ * Each size is solved once from scratch and then re-solved a few times with
+ * a different relationship left out each time, the way editing a timeline
+ * does.
+ */
+import { generateRandomTimeline } from '../src/data/randomTimeline';
+import { IncrementalSTN } from '../src/solver/incremental';
+import { solve } from '../src/solver/solver';
+import { SOLVER_PHASES, SOLVER_PHASE_LABELS, type SolverResult } from '../src/types';
+
+const RESOLVES = 3;
+
+function report(label: string, result: SolverResult): void {
+  console.log(
+    `  ${label}: ${result.solveTimeMs.toFixed(0)}ms, ${result.status}, ` +
+      `${String(result.violations.length)} relaxed, ${String(result.components.length)} components`
+  );
+  for (const phase of SOLVER_PHASES) {
+    const time = result.phaseTimesMs[phase];
+    if (time !== undefined) console.log(`    ${SOLVER_PHASE_LABELS[phase]}: ${time.toFixed(0)}ms`);
+  }
+}
+
+const [nodeArg, relationshipArg, contradictionArg, disjunctionArg] = process.argv.slice(2);
+const nodeCounts = nodeArg ? [Number(nodeArg)] : [500, 2000, 5000];
+const contradictionRate = contradictionArg ? Number(contradictionArg) : 0.01;
+const disjunctionRate = disjunctionArg ? Number(disjunctionArg) : 0;
+
+for (const nodeCount of nodeCounts) {
+  const relationshipCount = relationshipArg ? Number(relationshipArg) : nodeCount * 4;
+  const { nodes, relationships } = generateRandomTimeline({
+    nodeCount,
+    relationshipCount,
+    contradictionRate,
+    disjunctionRate,
+  });
+  console.log(`${String(nodeCount)} events, ${String(relationshipCount)} relationships`);
+
+  const engine = new IncrementalSTN();
+  report('first solve', solve({ nodes, relationships }, engine));
+  for (let i = 0; i < RESOLVES; i++) {
+    const edited = relationships.filter((_, index) => index !== i);
+    report(`re-solve ${String(i + 1)}`, solve({ nodes, relationships: edited }, engine));
+  }
+}
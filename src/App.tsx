@@ -6,6 +6,7 @@ import { TimelineTrack } from './components/timeline/TimelineTrack';
 import { NodeEditorModal } from './components/modals/NodeEditorModal';
 import { RelationshipModal } from './components/modals/RelationshipModal';
 import { HelpModal } from './components/modals/HelpModal';
+import { ConflictWizardModal } from './components/modals/ConflictWizardModal';
 import { useKeyboardShortcuts } from './hooks/useKeyboardShortcuts';
 import type { NodeId, RelationshipId, ModalType, DurationType } from './types';
 import './App.css';
@@ -49,6 +50,10 @@ function AppContent() {
     setActiveModal('help');
   }, []);
 
+  const handleResolveConflicts = useCallback(() => {
+    setActiveModal('conflict-wizard');
+  }, []);
+
   const handlePanToNode = useCallback((_nodeId: string, position: number) => {
     // Pan viewport to center the node position
     // position is in timeline coordinates (0-1 range typically)
@@ -78,6 +83,7 @@ function AppContent() {
         onOpenHelp={handleOpenHelp}
         onPanToNode={handlePanToNode}
         onEditRelationship={handleEditRelationship}
+        onResolveConflicts={handleResolveConflicts}
       >
         <TimelineCanvas>
           <TimelineTrack onEditNode={handleEditNode} />
@@ -101,6 +107,11 @@ function AppContent() {
         isOpen={activeModal === 'help'}
         onClose={closeAllModals}
       />
+
+      <ConflictWizardModal
+        isOpen={activeModal === 'conflict-wizard'}
+        onClose={closeAllModals}
+      />
     </>
   );
 }
@@ -11,9 +11,10 @@ interface AppLayoutProps {
   onOpenHelp: () => void;
   onPanToNode?: (nodeId: string, position: number) => void;
   onEditRelationship?: (relationshipId: string) => void;
+  onResolveConflicts?: () => void;
 }
 
-export function AppLayout({ children, onAddEvent, onAddEra, onAddRelationship, onOpenHelp, onPanToNode, onEditRelationship }: AppLayoutProps) {
+export function AppLayout({ children, onAddEvent, onAddEra, onAddRelationship, onOpenHelp, onPanToNode, onEditRelationship, onResolveConflicts }: AppLayoutProps) {
   const { canUndo, canRedo, undo, redo, state } = useTimeline();
   const hasEnoughNodes = state.nodeOrder.length >= 2;
 
@@ -80,6 +81,7 @@ export function AppLayout({ children, onAddEvent, onAddEra, onAddRelationship, o
         <Sidebar
           onPanToNode={onPanToNode}
           onEditRelationship={onEditRelationship}
+          onResolveConflicts={onResolveConflicts}
         />
       </main>
     </div>
@@ -0,0 +1,62 @@
+import { TIME_UNITS, TIME_UNIT_LABELS, type TimeUnit } from '../../types';
+import { getBoundsError, type BoundsDraft } from './boundsDraft';
+
+interface BoundsInputProps {
+  id: string;
+  label: string;
+  hint: string;
+  value: BoundsDraft;
+  onChange: (value: BoundsDraft) => void;
+}
+
+/**
+ * Min / max / unit fields for an optional numeric range
+ */
+export function BoundsInput({ id, label, hint, value, onChange }: BoundsInputProps) {
+  const error = getBoundsError(value);
+
+  return (
+    <div className="form-group">
+      <span className="form-label">{label}</span>
+      <div className="bounds-input">
+        <input
+          id={`${id}-min`}
+          type="number"
+          min={0}
+          className="form-input"
+          value={value.min}
+          onChange={(e) => { onChange({ ...value, min: e.target.value }); }}
+          placeholder="Min"
+          aria-label={`${label} minimum`}
+        />
+        <span className="bounds-input-separator">to</span>
+        <input
+          id={`${id}-max`}
+          type="number"
+          min={0}
+          className="form-input"
+          value={value.max}
+          onChange={(e) => { onChange({ ...value, max: e.target.value }); }}
+          placeholder="Max"
+          aria-label={`${label} maximum`}
+        />
+        <select
+          id={`${id}-unit`}
+          className="form-select"
+          value={value.unit}
+          onChange={(e) => { onChange({ ...value, unit: e.target.value as TimeUnit }); }}
+          aria-label={`${label} unit`}
+        >
+          {TIME_UNITS.map((unit) => (
+            <option key={unit} value={unit}>
+              {TIME_UNIT_LABELS[unit]}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className={`form-hint ${error ? 'form-hint-error' : ''}`}>
+        {error ?? hint}
+      </div>
+    </div>
+  );
+}
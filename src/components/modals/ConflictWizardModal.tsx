@@ -0,0 +1,356 @@
+import { useEffect, useState } from 'react';
+import { Modal } from './Modal';
+import { useTimeline } from '../../context/TimelineContext';
+import {
+  ALLEN_RELATIONS,
+  ALLEN_RELATION_LABELS,
+  CONFIDENCE_LEVELS,
+  CONFIDENCE_LABELS,
+  formatRelations,
+  isHardRelationship,
+  type AllenRelation,
+  type ConfidenceLevel,
+  type ConflictSet,
+  type NodeId,
+  type RelationshipId,
+  type TemporalRelationship,
+  type TimelineNode,
+} from '../../types';
+import './ConflictWizardModal.css';
+
+interface ConflictWizardModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+/**
+ * The part of the timeline a step is about: its relationships as they now
+ * are, and the nodes they join, keeping only the step's own pins
+ */
+function stepTimeline(
+  step: ConflictSet,
+  nodes: Record<NodeId, TimelineNode>,
+  relationships: Record<RelationshipId, TemporalRelationship>
+): { nodes: TimelineNode[]; relationships: TemporalRelationship[] } {
+  const pinnedIds = new Set(step.pins.map((pin) => pin.nodeId));
+  const stepRelationships = step.relationshipIds.flatMap((id) => {
+    const rel = relationships[id];
+    return rel?.enabled && nodes[rel.sourceId]?.enabled && nodes[rel.targetId]?.enabled
+      ? [rel]
+      : [];
+  });
+
+  const ids = new Set([
+    ...stepRelationships.flatMap((rel) => [rel.sourceId, rel.targetId]),
+    ...step.nodeConstraints.map((constraint) => constraint.nodeId),
+    ...pinnedIds,
+  ]);
+  // A pin measured from another node needs that node to measure from
+  for (const id of pinnedIds) {
+    const relativeTo = nodes[id]?.pin?.relativeTo;
+    if (relativeTo !== undefined) ids.add(relativeTo);
+  }
+
+  const stepNodes = [...ids].flatMap((id) => {
+    const node = nodes[id];
+    if (!node?.enabled) return [];
+    if (pinnedIds.has(id)) return [node];
+    const unpinned = { ...node };
+    delete unpinned.pin;
+    return [unpinned];
+  });
+  return { nodes: stepNodes, relationships: stepRelationships };
+}
+
+interface ConflictWizardProps {
+  onDiscard: () => void;
+  onDone: () => void;
+}
+
+// Mounts fresh each time the modal opens, taking the conflicts of that moment
+// as its steps and grouping every edit until close into one history entry
+function ConflictWizard({ onDiscard, onDone }: ConflictWizardProps) {
+  const {
+    state,
+    solverResult,
+    solveSettled,
+    askSolver,
+    updateRelationship,
+    toggleRelationship,
+    beginTransaction,
+    commitTransaction,
+  } = useTimeline();
+  const [steps] = useState<ConflictSet[]>(() => solverResult?.conflicts ?? []);
+  const [stepIndex, setStepIndex] = useState(0);
+  const [acceptedSteps, setAcceptedSteps] = useState<Set<number>>(() => new Set());
+
+  useEffect(() => {
+    beginTransaction();
+    return commitTransaction;
+  }, [beginTransaction, commitTransaction]);
+
+  // The solve's contradictions are capped and lag behind edits, so after
+  // each edit every step is checked again on its own in the worker
+  const { nodes, relationships } = state;
+  const [checked, setChecked] = useState<{
+    nodes: Record<NodeId, TimelineNode>;
+    relationships: Record<RelationshipId, TemporalRelationship>;
+    /** Whether each step still contradicts itself */
+    conflicting: boolean[];
+    /** Why the check failed, if it did */
+    error: string | null;
+  } | null>(null);
+  useEffect(() => {
+    const controller = new AbortController();
+    Promise.all(
+      steps.map((s) =>
+        askSolver('validate', stepTimeline(s, nodes, relationships), { signal: controller.signal })
+      )
+    ).then(
+      (results) => {
+        setChecked({ nodes, relationships, conflicting: results.map((r) => !r.valid), error: null });
+      },
+      (reason: unknown) => {
+        if (controller.signal.aborted) return;
+        setChecked({
+          nodes,
+          relationships,
+          conflicting: [],
+          error: reason instanceof Error ? reason.message : String(reason),
+        });
+      }
+    );
+    return () => { controller.abort(); };
+  }, [steps, nodes, relationships, askSolver]);
+
+  const step = steps[stepIndex];
+  if (!step) {
+    return (
+      <>
+        <div className="conflict-empty">There are no contradictions to resolve.</div>
+        <div className="modal-actions">
+          <button className="modal-btn modal-btn-primary" onClick={onDone}>
+            Done
+          </button>
+        </div>
+      </>
+    );
+  }
+
+  const getNodeName = (nodeId: string): string => state.nodes[nodeId]?.name ?? 'Unknown';
+  const relaxedIds = new Set(solverResult?.violations.map((v) => v.relationshipId));
+  // Until both the check and the solve for the latest edit are in, what is
+  // shown may be for the timeline before it
+  const isCurrent = checked?.nodes === nodes && checked.relationships === relationships;
+  const isResolving = !isCurrent || !solveSettled;
+  // A step that couldn't be checked is taken to still contradict itself
+  const isConflicting = (index: number): boolean => checked?.conflicting[index] ?? true;
+  const conflicting = isConflicting(stepIndex);
+  const isLast = stepIndex === steps.length - 1;
+  // Hard relationships and pins are never relaxed, so there may be nothing to accept
+  const canRelax =
+    solverResult?.status !== 'unsatisfiable' &&
+    step.relationshipIds.some((id) => {
+      const rel = state.relationships[id];
+      return rel !== undefined && !isHardRelationship(rel, state.settings);
+    });
+
+  const goTo = (index: number) => {
+    setStepIndex(Math.max(0, Math.min(steps.length - 1, index)));
+  };
+
+  const acceptRelaxation = () => {
+    setAcceptedSteps((current) => new Set(current).add(stepIndex));
+    if (isLast) onDone();
+    else goTo(stepIndex + 1);
+  };
+
+  let status: string;
+  if (isResolving) {
+    status = 'Re-solving...';
+  } else if (checked.error !== null) {
+    status = `Couldn't check this contradiction again: ${checked.error}`;
+  } else if (!conflicting) {
+    status = 'Resolved: these constraints no longer contradict each other.';
+  } else if (acceptedSteps.has(stepIndex)) {
+    status = 'Accepted: the solver keeps relaxing a constraint here.';
+  } else {
+    status = 'Still contradictory.';
+  }
+
+  return (
+    <div className="conflict-wizard">
+      <div className="conflict-wizard-progress">
+        <span className="conflict-wizard-step-label">
+          Contradiction {stepIndex + 1} of {steps.length}
+        </span>
+        <div className="conflict-wizard-dots">
+          {steps.map((s, index) => {
+            const dotClass = isConflicting(index)
+              ? acceptedSteps.has(index) ? 'accepted' : ''
+              : 'resolved';
+            return (
+              <button
+                key={`${s.relationshipIds.join('|')}/${s.pins.map((pin) => pin.nodeId).join('|')}`}
+                className={`conflict-wizard-dot ${dotClass} ${index === stepIndex ? 'current' : ''}`}
+                onClick={() => { goTo(index); }}
+                aria-label={`Contradiction ${String(index + 1)}`}
+              />
+            );
+          })}
+        </div>
+      </div>
+
+      <p className="conflict-wizard-description">{step.description}</p>
+
+      <div className="conflict-wizard-items">
+        {step.relationshipIds.map((id) => {
+          const rel = state.relationships[id];
+          if (!rel) return null;
+          const repairs = (solverResult?.repairs ?? []).filter((r) => r.relationshipId === id);
+          const hard = isHardRelationship(rel, state.settings);
+
+          return (
+            <div
+              key={id}
+              className={`conflict-wizard-item ${rel.enabled ? '' : 'disabled'}`}
+            >
+              <div className="conflict-wizard-item-header">
+                <span className="conflict-item-relation">
+                  {getNodeName(rel.sourceId)} {formatRelations(rel.relations)}{' '}
+                  {getNodeName(rel.targetId)}
+                </span>
+                {hard && <span className="conflict-wizard-tag">Hard</span>}
+                {relaxedIds.has(id) && (
+                  <span className="conflict-wizard-tag conflict-wizard-tag--relaxed">Relaxed</span>
+                )}
+                {!rel.enabled && <span className="conflict-wizard-tag">Disabled</span>}
+              </div>
+              <div className="conflict-wizard-reasoning">
+                {rel.reasoning ?? 'No reasoning recorded.'}
+              </div>
+
+              <div className="conflict-wizard-controls">
+                <button
+                  className="panel-header-action"
+                  onClick={() => { toggleRelationship(id); }}
+                >
+                  {rel.enabled ? 'Disable' : 'Enable'}
+                </button>
+                <select
+                  className="conflict-wizard-select"
+                  value={rel.confidence}
+                  onChange={(e) => {
+                    updateRelationship(id, { confidence: e.target.value as ConfidenceLevel });
+                  }}
+                  aria-label="Confidence"
+                >
+                  {CONFIDENCE_LEVELS.map((level) => (
+                    <option key={level} value={level}>
+                      {CONFIDENCE_LABELS[level]}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  className="conflict-wizard-select"
+                  value={rel.relations.length === 1 ? rel.relations[0] : ''}
+                  onChange={(e) => {
+                    updateRelationship(id, { relations: [e.target.value as AllenRelation] });
+                  }}
+                  aria-label="Relation"
+                >
+                  {rel.relations.length !== 1 && (
+                    <option value="" disabled>
+                      {formatRelations(rel.relations)}
+                    </option>
+                  )}
+                  {ALLEN_RELATIONS.map((relation) => (
+                    <option key={relation} value={relation}>
+                      {ALLEN_RELATION_LABELS[relation]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {repairs.length > 0 && (
+                <div className="conflict-repairs">
+                  <span className="conflict-item-suggestion">Nearest relations that resolve it:</span>
+                  {repairs.map((repair) => (
+                    <button
+                      key={formatRelations(repair.relations)}
+                      className="panel-header-action"
+                      onClick={() => { updateRelationship(id, { relations: repair.relations }); }}
+                    >
+                      {formatRelations(repair.relations)}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+
+        {step.nodeConstraints.map((constraint) => (
+          <div key={constraint.nodeId} className="conflict-wizard-item conflict-wizard-item--fixed">
+            {constraint.message}
+          </div>
+        ))}
+        {step.pins.map((pin) => (
+          <div key={pin.nodeId} className="conflict-wizard-item conflict-wizard-item--pin">
+            {pin.message}
+          </div>
+        ))}
+      </div>
+
+      <div
+        className={`conflict-wizard-status ${!isResolving && !conflicting ? 'resolved' : ''}`}
+        role="status"
+      >
+        {status}
+      </div>
+
+      <div className="modal-actions">
+        <button className="modal-btn modal-btn-secondary conflict-wizard-discard" onClick={onDiscard}>
+          Discard changes
+        </button>
+        <button
+          className="modal-btn modal-btn-secondary"
+          onClick={() => { goTo(stepIndex - 1); }}
+          disabled={stepIndex === 0}
+        >
+          Back
+        </button>
+        {conflicting && canRelax && (
+          <button className="modal-btn modal-btn-secondary" onClick={acceptRelaxation}>
+            Accept relaxation
+          </button>
+        )}
+        <button
+          className="modal-btn modal-btn-primary"
+          onClick={isLast ? onDone : () => { goTo(stepIndex + 1); }}
+        >
+          {isLast ? 'Done' : 'Next'}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Walk through the contradictions one at a time, re-solving after each
+ * change. The whole session is undone as a single step.
+ */
+export function ConflictWizardModal({ isOpen, onClose }: ConflictWizardModalProps) {
+  const { rollbackTransaction } = useTimeline();
+
+  const handleDiscard = () => {
+    rollbackTransaction();
+    onClose();
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Resolve Contradictions" width={600}>
+      {isOpen && <ConflictWizard onDiscard={handleDiscard} onDone={onClose} />}
+    </Modal>
+  );
+}
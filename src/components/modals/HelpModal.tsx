@@ -67,6 +67,10 @@ export function HelpModal({ isOpen, onClose }: HelpModalProps) {
               </dl>
             </div>
           </div>
+          <p>
+            When the evidence only narrows things down (say, "before or meets"), tick every
+            relation it allows. The solver picks whichever one fits the rest of the timeline.
+          </p>
         </section>
 
         <section className="help-section">
@@ -77,6 +81,44 @@ export function HelpModal({ isOpen, onClose }: HelpModalProps) {
             <li><strong>Inferred</strong> — Reasonable inference from evidence.</li>
             <li><strong>Speculation</strong> — Uncertain theory. Lowest priority, relaxed first if conflicts arise.</li>
           </ul>
+          <p>
+            Mark a relationship <strong>hard</strong>, or make every explicit one hard in Solver
+            Settings, and the solver never relaxes it. If hard constraints contradict each other,
+            the timeline is reported as unsatisfiable instead.
+          </p>
+          <p>
+            Rather than dropping a conflicting relationship, the Status tab offers the nearest
+            relations that would resolve the conflict, such as "meets" instead of "before". Click
+            one to change the relationship. With several contradictions, "Resolve step by step"
+            walks through them one at a time; everything changed there is undone as one step.
+          </p>
+          <p>
+            An event can also be pinned: its start fixed at a date counted from year zero, or a set
+            time after another event starts. Pins are never relaxed, and contradictions that involve
+            one say so.
+          </p>
+          <p>
+            Groups of events that no relationship or pin connects are solved separately and laid
+            out side by side, each labelled on the timeline. A contradiction in one group never
+            relaxes anything in another, and the Status tab lists relaxed constraints by group.
+          </p>
+          <p>
+            The Status tab shows how long the last solve took; open "Where the time went" for each
+            step. On timelines of more than 100 events, the solver skips entailed relations,
+            undetermined pairs, redundancy and repairs, and lists only a few contradictions, to
+            stay quick. Impacts take a solve per relationship, so
+            they are only measured when you sort the Relations tab by impact, and suggested
+            relationships are only scored when you ask for them in the Open tab.
+          </p>
+          <p>
+            While a long solve runs, the Status tab shows how far it has got. Cancel stops it
+            and keeps the last finished result; so does any edit, which starts a new solve. A
+            solve that runs for more than a minute is stopped.
+          </p>
+          <p>
+            While you create or edit a relationship, the dialog warns if it would contradict
+            relationships already on the timeline, and names them.
+          </p>
         </section>
 
         <section className="help-section">
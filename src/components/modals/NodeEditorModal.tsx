@@ -1,7 +1,11 @@
 import { useState } from 'react';
 import { Modal } from './Modal';
+import { BoundsInput } from './BoundsInput';
+import { PinInput } from './PinInput';
+import { fromBoundsDraft, getBoundsError, toBoundsDraft } from './boundsDraft';
+import { fromPinDraft, getPinError, toPinDraft } from './pinDraft';
 import { useTimeline } from '../../context/TimelineContext';
-import type { NodeId, DurationType, TimelineNode } from '../../types';
+import type { NodeId, NodePin, DurationType, NumericBounds, TimelineNode } from '../../types';
 
 interface NodeEditorModalProps {
   nodeId: NodeId | null;
@@ -13,10 +17,14 @@ interface NodeEditorModalProps {
 
 interface NodeFormProps {
   node: TimelineNode;
+  /** Nodes the pin can be measured from */
+  anchors: TimelineNode[];
   onSave: (data: {
     name: string;
     description: string;
     durationType: DurationType;
+    duration?: NumericBounds;
+    pin?: NodePin;
     category?: string;
     enabled: boolean;
   }) => void;
@@ -36,21 +44,29 @@ const CATEGORIES = [
 ];
 
 // Separate form component that mounts fresh when modal opens
-function NodeForm({ node, onSave, onDelete, onCancel, isCreateMode }: NodeFormProps) {
+function NodeForm({ node, anchors, onSave, onDelete, onCancel, isCreateMode }: NodeFormProps) {
   // Initialize state from props - runs once on mount
   const [name, setName] = useState(node.name);
   const [description, setDescription] = useState(node.description);
   const [durationType, setDurationType] = useState<DurationType>(node.durationType);
+  const [duration, setDuration] = useState(() => toBoundsDraft(node.duration));
+  const [pin, setPin] = useState(() => toPinDraft(node.pin));
   const [category, setCategory] = useState(node.category ?? '');
   const [enabled, setEnabled] = useState(node.enabled);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
 
+  const durationError = durationType === 'interval' ? getBoundsError(duration) : null;
+  const pinError = getPinError(pin);
+  const canSave = name.trim() !== '' && !durationError && !pinError;
+
   const handleSave = () => {
-    if (!name.trim()) return;
+    if (!canSave) return;
     onSave({
       name: name.trim(),
       description: description.trim(),
       durationType,
+      duration: durationType === 'interval' ? fromBoundsDraft(duration) : undefined,
+      pin: fromPinDraft(pin),
       category: category || undefined,
       enabled,
     });
@@ -117,6 +133,18 @@ function NodeForm({ node, onSave, onDelete, onCancel, isCreateMode }: NodeFormPr
         </div>
       </div>
 
+      {durationType === 'interval' && (
+        <BoundsInput
+          id="node-duration"
+          label="Duration"
+          hint="Optional. Leave blank if the lore doesn't say how long it lasted."
+          value={duration}
+          onChange={setDuration}
+        />
+      )}
+
+      <PinInput id="node-pin" value={pin} onChange={setPin} anchors={anchors} />
+
       <div className="form-group">
         <label className="form-label" htmlFor="node-category">Category</label>
         <select
@@ -167,7 +195,7 @@ function NodeForm({ node, onSave, onDelete, onCancel, isCreateMode }: NodeFormPr
         <button
           className="modal-btn modal-btn-primary"
           onClick={handleSave}
-          disabled={!name.trim()}
+          disabled={!canSave}
         >
           {isCreateMode ? 'Create' : 'Save Changes'}
         </button>
@@ -194,10 +222,18 @@ export function NodeEditorModal({ nodeId, isOpen, onClose, initialDurationType =
 
   const node = existingNode ?? defaultNode;
 
+  // A node can't be pinned to itself
+  const anchors = state.nodeOrder
+    .filter((id) => id !== nodeId)
+    .map((id) => state.nodes[id])
+    .filter((other): other is TimelineNode => other !== undefined);
+
   const handleSave = (data: {
     name: string;
     description: string;
     durationType: DurationType;
+    duration?: NumericBounds;
+    pin?: NodePin;
     category?: string;
     enabled: boolean;
   }) => {
@@ -225,6 +261,7 @@ export function NodeEditorModal({ nodeId, isOpen, onClose, initialDurationType =
       {isOpen && (
         <NodeForm
           node={node}
+          anchors={anchors}
           onSave={handleSave}
           onDelete={isCreateMode ? undefined : handleDelete}
           onCancel={onClose}
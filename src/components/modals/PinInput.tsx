@@ -0,0 +1,80 @@
+import { TIME_UNITS, TIME_UNIT_LABELS, type TimeUnit, type TimelineNode } from '../../types';
+import { getPinError, type PinDraft } from './pinDraft';
+
+interface PinInputProps {
+  id: string;
+  value: PinDraft;
+  onChange: (value: PinDraft) => void;
+  /** Nodes the pin can be measured from */
+  anchors: TimelineNode[];
+}
+
+/**
+ * Toggle and position / unit / reference fields for pinning a node's start
+ */
+export function PinInput({ id, value, onChange, anchors }: PinInputProps) {
+  const error = getPinError(value);
+
+  return (
+    <div className="form-group">
+      <div className="form-toggle">
+        <span className="form-toggle-label">Pinned</span>
+        <label className="toggle-switch">
+          <input
+            id={`${id}-pinned`}
+            type="checkbox"
+            checked={value.pinned}
+            onChange={(e) => { onChange({ ...value, pinned: e.target.checked }); }}
+          />
+          <span className="toggle-slider" />
+        </label>
+      </div>
+
+      {value.pinned && (
+        <>
+          <div className="bounds-input">
+            <input
+              id={`${id}-position`}
+              type="number"
+              className="form-input"
+              value={value.position}
+              onChange={(e) => { onChange({ ...value, position: e.target.value }); }}
+              aria-label="Pin position"
+            />
+            <select
+              id={`${id}-unit`}
+              className="form-select"
+              value={value.unit}
+              onChange={(e) => { onChange({ ...value, unit: e.target.value as TimeUnit }); }}
+              aria-label="Pin unit"
+            >
+              {TIME_UNITS.map((unit) => (
+                <option key={unit} value={unit}>
+                  {TIME_UNIT_LABELS[unit]}
+                </option>
+              ))}
+            </select>
+            <span className="bounds-input-separator">after</span>
+            <select
+              id={`${id}-relative-to`}
+              className="form-select"
+              value={value.relativeTo}
+              onChange={(e) => { onChange({ ...value, relativeTo: e.target.value }); }}
+              aria-label="Pin measured from"
+            >
+              <option value="">Year zero</option>
+              {anchors.map((anchor) => (
+                <option key={anchor.id} value={anchor.id}>
+                  {anchor.name} starts
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className={`form-hint ${error ? 'form-hint-error' : ''}`}>
+            {error ?? 'Fixes when this event starts. Negative values place it before. The solver never relaxes a pin.'}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,9 @@
-import { useState, useMemo } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { Modal } from './Modal';
+import { BoundsInput } from './BoundsInput';
+import { fromBoundsDraft, getBoundsError, toBoundsDraft } from './boundsDraft';
 import { useTimeline } from '../../context/TimelineContext';
+import type { AskSolver } from '../../hooks/useSolver';
 import {
   ALLEN_RELATIONS,
   ALLEN_RELATION_LABELS,
@@ -8,10 +11,13 @@ import {
   CONFIDENCE_LEVELS,
   CONFIDENCE_LABELS,
   CONFIDENCE_DESCRIPTIONS,
+  formatRelations,
   type RelationshipId,
   type NodeId,
   type AllenRelation,
   type ConfidenceLevel,
+  type ConflictSet,
+  type NumericBounds,
   type TemporalRelationship,
   type TimelineNode,
 } from '../../types';
@@ -30,11 +36,19 @@ interface RelationshipFormProps {
   nodeOrder: NodeId[];
   defaultSourceId?: NodeId;
   defaultTargetId?: NodeId;
+  /** Whether the settings already make every explicit relationship hard */
+  explicitIsHard: boolean;
+  /** Enabled nodes and the relationships the solver kept, to check the draft against */
+  activeNodes: TimelineNode[];
+  activeRelationships: TemporalRelationship[];
+  askSolver: AskSolver;
   onSave: (data: {
     sourceId: NodeId;
     targetId: NodeId;
-    relation: AllenRelation;
+    relations: AllenRelation[];
     confidence: ConfidenceLevel;
+    hard: boolean;
+    gap?: NumericBounds;
     reasoning?: string;
     enabled: boolean;
   }) => void;
@@ -42,6 +56,11 @@ interface RelationshipFormProps {
   onCancel: () => void;
 }
 
+// Pause after the last change before checking the draft for conflicts
+const CONFLICT_PREVIEW_DEBOUNCE_MS = 300;
+// Stands in for the id of a relationship not yet created
+const DRAFT_RELATIONSHIP_ID = 'draft-relationship';
+
 // Separate form component that mounts fresh when modal opens
 function RelationshipForm({
   relationship,
@@ -49,6 +68,10 @@ function RelationshipForm({
   nodeOrder,
   defaultSourceId,
   defaultTargetId,
+  explicitIsHard,
+  activeNodes,
+  activeRelationships,
+  askSolver,
   onSave,
   onDelete,
   onCancel,
@@ -62,12 +85,14 @@ function RelationshipForm({
   const [targetId, setTargetId] = useState<NodeId>(
     relationship?.targetId ?? defaultTargetId ?? ''
   );
-  const [relation, setRelation] = useState<AllenRelation>(
-    relationship?.relation ?? 'before'
+  const [relations, setRelations] = useState<AllenRelation[]>(
+    relationship?.relations ?? ['before']
   );
   const [confidence, setConfidence] = useState<ConfidenceLevel>(
     relationship?.confidence ?? 'explicit'
   );
+  const [hard, setHard] = useState(relationship?.hard ?? false);
+  const [gap, setGap] = useState(() => toBoundsDraft(relationship?.gap));
   const [reasoning, setReasoning] = useState(relationship?.reasoning ?? '');
   const [enabled, setEnabled] = useState(relationship?.enabled ?? true);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
@@ -81,17 +106,100 @@ function RelationshipForm({
 
   const sourceName = sourceId ? nodes[sourceId]?.name : 'Select source';
   const targetName = targetId ? nodes[targetId]?.name : 'Select target';
-  const relationLabel = ALLEN_RELATION_LABELS[relation];
+  const relationLabel = relations.length > 0 ? formatRelations(relations) : 'Select a relation';
+
+  // A gap only means something when the events are apart
+  const hasGap = relations.includes('before') || relations.includes('after');
+  const gapError = hasGap ? getBoundsError(gap) : null;
 
-  const canSave = sourceId && targetId && sourceId !== targetId;
+  const canSave =
+    sourceId && targetId && sourceId !== targetId && relations.length > 0 && !gapError;
+
+  // The relationship as it would be saved, to check for conflicts
+  const draft = useMemo((): TemporalRelationship | null => {
+    if (!canSave || !enabled) return null;
+    const draftGap = hasGap ? fromBoundsDraft(gap) : undefined;
+    // The solver has no use for timestamps
+    return {
+      id: relationship?.id ?? DRAFT_RELATIONSHIP_ID,
+      sourceId,
+      targetId,
+      relations,
+      confidence,
+      hard,
+      ...(draftGap && { gap: draftGap }),
+      enabled,
+      createdAt: relationship?.createdAt ?? 0,
+      updatedAt: relationship?.updatedAt ?? 0,
+    };
+  }, [canSave, enabled, relationship, sourceId, targetId, relations, confidence, hard, hasGap, gap]);
+
+  // Checked in the worker once editing pauses, so typing stays responsive
+  const [preview, setPreview] = useState<{
+    draft: TemporalRelationship;
+    conflict: ConflictSet | null;
+    /** Why the check failed, if it did */
+    error: string | null;
+  } | null>(null);
+  useEffect(() => {
+    if (!draft) return;
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      askSolver(
+        'wouldCauseConflict',
+        { nodes: activeNodes, relationships: activeRelationships, relationship: draft },
+        { signal: controller.signal }
+      ).then(
+        (conflict) => { setPreview({ draft, conflict, error: null }); },
+        (reason: unknown) => {
+          if (controller.signal.aborted) return;
+          setPreview({
+            draft,
+            conflict: null,
+            error: reason instanceof Error ? reason.message : String(reason),
+          });
+        }
+      );
+    }, CONFLICT_PREVIEW_DEBOUNCE_MS);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [draft, activeNodes, activeRelationships, askSolver]);
+
+  // Only a contradiction this relationship takes part in is its concern
+  const conflict =
+    draft && preview?.draft === draft && preview.conflict?.relationshipIds.includes(draft.id)
+      ? preview.conflict
+      : null;
+  const previewError = draft && preview?.draft === draft ? preview.error : null;
+  const conflictingNames = (conflict?.relationshipIds ?? [])
+    .filter((id) => id !== draft?.id)
+    .map((id) => activeRelationships.find((rel) => rel.id === id))
+    .filter((rel): rel is TemporalRelationship => rel !== undefined)
+    .map(
+      (rel) =>
+        `${nodes[rel.sourceId]?.name ?? 'Unknown'} ${formatRelations(rel.relations)} ${nodes[rel.targetId]?.name ?? 'Unknown'}`
+    );
+
+  // Keep the selection in canonical order so labels read consistently
+  const toggleRelation = (toggled: AllenRelation) => {
+    setRelations(
+      ALLEN_RELATIONS.filter((rel) =>
+        rel === toggled ? !relations.includes(rel) : relations.includes(rel)
+      )
+    );
+  };
 
   const handleSave = () => {
     if (!canSave) return;
     onSave({
       sourceId,
       targetId,
-      relation,
+      relations,
       confidence,
+      hard,
+      gap: hasGap ? fromBoundsDraft(gap) : undefined,
       reasoning: reasoning.trim() || undefined,
       enabled,
     });
@@ -138,21 +246,30 @@ function RelationshipForm({
         </select>
       </div>
 
-      {/* Relation Type */}
+      {/* Relation Types */}
       <div className="form-group">
-        <label className="form-label" htmlFor="rel-type">Relation</label>
-        <select
-          id="rel-type"
-          className="form-select"
-          value={relation}
-          onChange={(e) => { setRelation(e.target.value as AllenRelation); }}
-        >
+        <span className="form-label">Relation</span>
+        <div className="relation-picker">
           {ALLEN_RELATIONS.map((rel) => (
-            <option key={rel} value={rel}>
-              {ALLEN_RELATION_LABELS[rel]} — {ALLEN_RELATION_DESCRIPTIONS[rel]}
-            </option>
+            <label
+              key={rel}
+              className={`relation-picker-option ${relations.includes(rel) ? 'selected' : ''}`}
+              title={ALLEN_RELATION_DESCRIPTIONS[rel]}
+            >
+              <input
+                type="checkbox"
+                checked={relations.includes(rel)}
+                onChange={() => { toggleRelation(rel); }}
+              />
+              {ALLEN_RELATION_LABELS[rel]}
+            </label>
           ))}
-        </select>
+        </div>
+        <div className="form-hint">
+          {relations.length === 1 && relations[0]
+            ? ALLEN_RELATION_DESCRIPTIONS[relations[0]]
+            : 'Select every relation the evidence allows; the solver will pick one that fits.'}
+        </div>
       </div>
 
       {/* Target Node */}
@@ -173,6 +290,17 @@ function RelationshipForm({
         </select>
       </div>
 
+      {/* Gap */}
+      {hasGap && (
+        <BoundsInput
+          id="rel-gap"
+          label="Gap"
+          hint="Optional. Time between the end of the earlier event and the start of the later one."
+          value={gap}
+          onChange={setGap}
+        />
+      )}
+
       {/* Confidence Level */}
       <div className="form-group">
         <label className="form-label" htmlFor="rel-confidence">Confidence Level</label>
@@ -190,6 +318,27 @@ function RelationshipForm({
         </select>
       </div>
 
+      {/* Hard constraint */}
+      <div className="form-group">
+        <div className="form-toggle">
+          <span className="form-toggle-label">Hard constraint</span>
+          <label className="toggle-switch">
+            <input
+              id="rel-hard"
+              type="checkbox"
+              checked={hard}
+              onChange={(e) => { setHard(e.target.checked); }}
+            />
+            <span className="toggle-slider" />
+          </label>
+        </div>
+        <div className="form-hint">
+          {explicitIsHard && confidence === 'explicit'
+            ? 'Explicit relationships are already hard in Solver Settings.'
+            : 'The solver never relaxes a hard constraint; if hard constraints contradict each other, there is no timeline.'}
+        </div>
+      </div>
+
       {/* Reasoning */}
       <div className="form-group">
         <label className="form-label" htmlFor="rel-reasoning">Reasoning / Evidence</label>
@@ -227,6 +376,28 @@ function RelationshipForm({
         </div>
       )}
 
+      {/* Conflict preview */}
+      {conflict && (
+        <div className="conflict-warning">
+          <span className="conflict-warning-icon">⚠</span>
+          <span className="conflict-warning-text">
+            {conflictingNames.length > 0
+              ? `Conflicts with ${conflictingNames.join('; ')}${conflict.pins.length > 0 ? ' and the pinned events' : ''}. `
+              : ''}
+            {conflict.description}.
+          </span>
+        </div>
+      )}
+
+      {previewError && (
+        <div className="conflict-warning">
+          <span className="conflict-warning-icon">⚠</span>
+          <span className="conflict-warning-text">
+            Couldn't check this relationship for conflicts: {previewError}
+          </span>
+        </div>
+      )}
+
       {/* Delete section (only for editing) */}
       {isEditing && onDelete && (
         <div className="danger-zone">
@@ -268,19 +439,36 @@ export function RelationshipModal({
 }: RelationshipModalProps) {
   const {
     state,
+    solverResult,
     addRelationship,
     updateRelationship,
     deleteRelationship,
+    askSolver,
   } = useTimeline();
 
   const isEditing = relationshipId !== null;
   const relationship = relationshipId ? state.relationships[relationshipId] : null;
 
+  const activeNodes = useMemo(
+    () => Object.values(state.nodes).filter((node) => node.enabled),
+    [state.nodes]
+  );
+
+  // What the solver kept, less the relationship being edited
+  const activeRelationships = useMemo(() => {
+    const relaxedIds = new Set(solverResult?.violations.map((v) => v.relationshipId));
+    return Object.values(state.relationships).filter(
+      (rel) => rel.enabled && !relaxedIds.has(rel.id) && rel.id !== relationshipId
+    );
+  }, [state.relationships, solverResult, relationshipId]);
+
   const handleSave = (data: {
     sourceId: NodeId;
     targetId: NodeId;
-    relation: AllenRelation;
+    relations: AllenRelation[];
     confidence: ConfidenceLevel;
+    hard: boolean;
+    gap?: NumericBounds;
     reasoning?: string;
     enabled: boolean;
   }) => {
@@ -314,6 +502,10 @@ export function RelationshipModal({
           nodeOrder={state.nodeOrder}
           defaultSourceId={defaultSourceId}
           defaultTargetId={defaultTargetId}
+          explicitIsHard={state.settings.explicitIsHard}
+          activeNodes={activeNodes}
+          activeRelationships={activeRelationships}
+          askSolver={askSolver}
           onSave={handleSave}
           onDelete={isEditing ? handleDelete : undefined}
           onCancel={onClose}
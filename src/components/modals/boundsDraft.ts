@@ -0,0 +1,56 @@
+import type { NumericBounds, TimeUnit } from '../../types';
+
+/**
+ * Editable form state for numeric bounds. Values are kept as the raw input
+ * text so a field can be blank while the user types.
+ */
+export interface BoundsDraft {
+  min: string;
+  max: string;
+  unit: TimeUnit;
+}
+
+export function toBoundsDraft(bounds: NumericBounds | undefined): BoundsDraft {
+  return {
+    min: bounds?.min !== undefined ? String(bounds.min) : '',
+    max: bounds?.max !== undefined ? String(bounds.max) : '',
+    unit: bounds?.unit ?? 'years',
+  };
+}
+
+function parseBound(value: string): number | undefined {
+  if (!value.trim()) return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+}
+
+/**
+ * Convert a draft back to bounds, or undefined if both sides are blank
+ */
+export function fromBoundsDraft(draft: BoundsDraft): NumericBounds | undefined {
+  const min = parseBound(draft.min);
+  const max = parseBound(draft.max);
+  if (min === undefined && max === undefined) return undefined;
+
+  const bounds: NumericBounds = { unit: draft.unit };
+  if (min !== undefined) bounds.min = min;
+  if (max !== undefined) bounds.max = max;
+  return bounds;
+}
+
+/**
+ * Get a validation message for a draft, or null if it is usable
+ */
+export function getBoundsError(draft: BoundsDraft): string | null {
+  const invalid = [draft.min, draft.max].some(
+    (value) => value.trim() !== '' && parseBound(value) === undefined
+  );
+  if (invalid) return 'Bounds must be non-negative numbers.';
+
+  const min = parseBound(draft.min);
+  const max = parseBound(draft.max);
+  if (min !== undefined && max !== undefined && min > max) {
+    return 'The minimum cannot exceed the maximum.';
+  }
+  return null;
+}
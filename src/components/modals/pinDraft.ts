@@ -0,0 +1,49 @@
+import type { NodeId, NodePin, TimeUnit } from '../../types';
+
+/**
+ * Editable form state for a pin. The position is kept as the raw input text
+ * so the field can be blank while the user types.
+ */
+export interface PinDraft {
+  pinned: boolean;
+  position: string;
+  unit: TimeUnit;
+  /** Node the offset is measured from, or blank for year zero */
+  relativeTo: NodeId;
+}
+
+export function toPinDraft(pin: NodePin | undefined): PinDraft {
+  return {
+    pinned: pin !== undefined,
+    position: pin ? String(pin.position) : '0',
+    unit: pin?.unit ?? 'years',
+    relativeTo: pin?.relativeTo ?? '',
+  };
+}
+
+function parsePosition(value: string): number | undefined {
+  if (!value.trim()) return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * Convert a draft back to a pin, or undefined if the node isn't pinned
+ */
+export function fromPinDraft(draft: PinDraft): NodePin | undefined {
+  const position = parsePosition(draft.position);
+  if (!draft.pinned || position === undefined) return undefined;
+
+  const pin: NodePin = { position, unit: draft.unit };
+  if (draft.relativeTo) pin.relativeTo = draft.relativeTo;
+  return pin;
+}
+
+/**
+ * Get a validation message for a draft, or null if it is usable
+ */
+export function getPinError(draft: PinDraft): string | null {
+  if (!draft.pinned) return null;
+  if (parsePosition(draft.position) === undefined) return 'The position must be a number.';
+  return null;
+}
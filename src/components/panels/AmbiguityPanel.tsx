@@ -0,0 +1,195 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useTimeline } from '../../context/TimelineContext';
+import {
+  ORDER_CLASS_LABELS,
+  formatRelations,
+  type AnalysisProgress,
+  type RelationshipSuggestion,
+  type TemporalRelationship,
+  type TimelineNode,
+} from '../../types';
+import { AnalysisSection } from './AnalysisSection';
+
+/**
+ * Most undetermined pairs listed before the rest are summarised
+ */
+const MAX_LISTED_PAIRS = 50;
+
+interface SuggestionQuestion {
+  nodes: TimelineNode[];
+  relationships: TemporalRelationship[];
+}
+
+/**
+ * Where the timeline is still ambiguous, which evidence would help most, and
+ * how likely each open order is
+ */
+export function AmbiguityPanel() {
+  const { state, selectNode, solverResult, isSolving, askSolver } = useTimeline();
+
+  const pairs = solverResult?.undeterminedPairs ?? [];
+
+  // Suggestions are scored against the relationships the layout kept, the
+  // same ones the undetermined pairs come from
+  const question = useMemo((): SuggestionQuestion => {
+    const violatedIds = new Set(solverResult?.violations.map((v) => v.relationshipId));
+    return {
+      nodes: Object.values(state.nodes).filter((node) => node.enabled),
+      relationships: Object.values(state.relationships).filter(
+        (rel) => rel.enabled && !violatedIds.has(rel.id)
+      ),
+    };
+  }, [state.nodes, state.relationships, solverResult]);
+
+  // Scoring a candidate takes a closure, so suggestions are only found when
+  // asked for, and again after an edit only if asked again. Each ask is a new
+  // object, so that asking again after a failure retries.
+  const [asked, setAsked] = useState<{ question: SuggestionQuestion } | null>(null);
+  const [search, setSearch] = useState<{
+    question: SuggestionQuestion;
+    suggestions: RelationshipSuggestion[] | null;
+    progress: AnalysisProgress | null;
+    error: string | null;
+  } | null>(null);
+  useEffect(() => {
+    if (asked?.question !== question) return;
+    const controller = new AbortController();
+    const update = (changes: Partial<NonNullable<typeof search>>) => {
+      setSearch({ question, suggestions: null, progress: null, error: null, ...changes });
+    };
+    askSolver('suggest', question, {
+      signal: controller.signal,
+      onProgress: (progress) => { update({ progress }); },
+    }).then(
+      (suggestions) => { update({ suggestions }); },
+      (reason: unknown) => {
+        if (controller.signal.aborted) return;
+        update({ error: reason instanceof Error ? reason.message : String(reason) });
+      }
+    );
+    return () => { controller.abort(); };
+  }, [asked, question, askSolver]);
+
+  const current = search?.question === question ? search : null;
+  const searching = asked?.question === question && !current?.suggestions && !current?.error;
+  const suggestions = current?.suggestions;
+
+  const isUnsatisfiable = solverResult?.status === 'unsatisfiable';
+
+  const getNodeName = (nodeId: string): string => {
+    return state.nodes[nodeId]?.name ?? 'Unknown';
+  };
+
+  return (
+    <div className="panel ambiguity-panel">
+      <div className="panel-header">
+        <h3 className="panel-title">Open Questions</h3>
+      </div>
+
+      {isUnsatisfiable ? (
+        <div className="conflict-empty">
+          The constraints contradict each other. Resolve the contradiction to see
+          what is still undetermined.
+        </div>
+      ) : solverResult?.analysisSkipped ? (
+        <div className="conflict-empty">
+          This timeline is too large to check every pair of events.
+        </div>
+      ) : pairs.length === 0 && !isSolving ? (
+        <div className="conflict-empty">
+          Every pair of events is in a fixed order.
+        </div>
+      ) : (
+        <>
+          <div className="conflict-section">
+            <h4 className="conflict-section-title explain-claim">
+              Most Informative Next Relationships
+            </h4>
+            {searching ? (
+              <p className="conflict-section-desc">
+                Trying candidate relationships
+                {current?.progress &&
+                  ` (${String(current.progress.completed)}/${String(current.progress.total)})`}
+                …
+              </p>
+            ) : !suggestions ? (
+              <>
+                <button
+                  className="panel-header-action"
+                  onClick={() => { setAsked({ question }); }}
+                  disabled={isSolving || pairs.length === 0}
+                  title="Try relationships between undetermined pairs and rank them by how many orders they would settle"
+                >
+                  Find suggestions
+                </button>
+                {current?.error && (
+                  <div className="conflict-empty">
+                    Failed to find suggestions: {current.error}
+                  </div>
+                )}
+              </>
+            ) : suggestions.length === 0 ? (
+              <p className="conflict-section-desc">
+                None of the relationships tried would settle an open pair.
+              </p>
+            ) : (
+              <>
+                <p className="conflict-section-desc">
+                  Evidence for any of these would settle the order of the most pairs:
+                </p>
+                <div className="conflict-list">
+                  {suggestions.map((suggestion) => (
+                    <div
+                      key={`${suggestion.sourceId}|${suggestion.targetId}|${suggestion.relations.join(',')}`}
+                      className="explain-step"
+                      onClick={() => { selectNode(suggestion.sourceId); }}
+                    >
+                      <div className="conflict-item-header">
+                        <span className="conflict-item-relation">
+                          {getNodeName(suggestion.sourceId)} {formatRelations(suggestion.relations)}{' '}
+                          {getNodeName(suggestion.targetId)}
+                        </span>
+                        <span className="conflict-item-confidence">
+                          settles {suggestion.resolves}
+                        </span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+          </div>
+
+          <div className="conflict-section">
+            <h4 className="conflict-section-title solver-settings-title">
+              Undetermined Pairs ({pairs.length})
+            </h4>
+            <p className="conflict-section-desc">
+              The relationships don't yet fix the order of these events:
+            </p>
+            <div className="conflict-involved">
+              {pairs.slice(0, MAX_LISTED_PAIRS).map((pair) => (
+                <div
+                  key={`${pair.sourceId}|${pair.targetId}`}
+                  className="conflict-involved-item"
+                  onClick={() => { selectNode(pair.sourceId); }}
+                >
+                  {getNodeName(pair.sourceId)} is{' '}
+                  {pair.orders.map((order) => ORDER_CLASS_LABELS[order]).join(' or ')}{' '}
+                  {getNodeName(pair.targetId)}
+                </div>
+              ))}
+            </div>
+            {pairs.length > MAX_LISTED_PAIRS && (
+              <p className="conflict-section-desc">
+                …and {pairs.length - MAX_LISTED_PAIRS} more
+              </p>
+            )}
+          </div>
+        </>
+      )}
+
+      <AnalysisSection />
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+import { useTimeline } from '../../context/TimelineContext';
+import { CONFIDENCE_LABELS, CONFIDENCE_PROBABILITIES, type OrderProbability } from '../../types';
+
+/**
+ * Least certain orders listed when no event is selected
+ */
+const MAX_LISTED_ORDERS = 10;
+
+function formatProbability(p: number): string {
+  return p.toFixed(2);
+}
+
+/**
+ * Run Monte Carlo analysis and show how likely each order is, treating
+ * inferred relationships and speculation as only probably true
+ */
+export function AnalysisSection() {
+  const {
+    state,
+    selectNode,
+    analysis,
+    analysisProgress,
+    analysisError,
+    runAnalysis,
+    cancelAnalysis,
+  } = useTimeline();
+
+  const selectedId = state.selectedNodeId;
+  const selectedNode = selectedId ? state.nodes[selectedId] : undefined;
+
+  const getNodeName = (nodeId: string): string => {
+    return state.nodes[nodeId]?.name ?? 'Unknown';
+  };
+
+  // Orders some samples forced one way and some the other, closest to a coin
+  // flip first
+  const uncertainOrders = (analysis?.orderProbabilities ?? [])
+    .filter((order) => order.before > 0 && order.after > 0)
+    .sort((a, b) => Math.abs(a.before - a.after) - Math.abs(b.before - b.after));
+
+  // The selected event's orders, seen from the selected event
+  const selectedOrders = (analysis?.orderProbabilities ?? [])
+    .filter((order) => order.sourceId === selectedId || order.targetId === selectedId)
+    .map((order): OrderProbability =>
+      order.sourceId === selectedId
+        ? order
+        : {
+            sourceId: order.targetId,
+            targetId: order.sourceId,
+            before: order.after,
+            after: order.before,
+            undetermined: order.undetermined,
+          }
+    )
+    .sort((a, b) => b.before - a.before);
+
+  const distribution = analysis?.distributions.find((d) => d.nodeId === selectedId);
+  const ranks = (distribution?.ranks ?? [])
+    .map((p, rank) => ({ rank, p }))
+    .filter(({ p }) => p > 0);
+
+  const renderOrder = (order: OrderProbability) => (
+    <div
+      key={`${order.sourceId}|${order.targetId}`}
+      className="conflict-involved-item"
+      onClick={() => { selectNode(order.targetId); }}
+    >
+      P({getNodeName(order.sourceId)} starts before {getNodeName(order.targetId)}) ={' '}
+      {formatProbability(order.before)}
+      {order.undetermined > 0 && `, open in ${formatProbability(order.undetermined)}`}
+    </div>
+  );
+
+  return (
+    <div className="conflict-section">
+      <h4 className="conflict-section-title solver-settings-title">Probabilistic Analysis</h4>
+      <p className="conflict-section-desc">
+        Sample {state.settings.analysisSamples} timelines, keeping each{' '}
+        {CONFIDENCE_LABELS.inferred.toLowerCase()} relationship with probability{' '}
+        {formatProbability(CONFIDENCE_PROBABILITIES.inferred)} and each{' '}
+        {CONFIDENCE_LABELS.speculation.toLowerCase()} with probability{' '}
+        {formatProbability(CONFIDENCE_PROBABILITIES.speculation)}. Hard relationships are
+        always kept.
+      </p>
+
+      {analysisProgress ? (
+        <div className="analysis-run">
+          <div className="analysis-progress">
+            <div
+              className="analysis-progress-fill"
+              style={{ width: `${String((100 * analysisProgress.completed) / analysisProgress.total)}%` }}
+            />
+          </div>
+          <button className="panel-header-action" onClick={cancelAnalysis}>
+            Cancel
+          </button>
+        </div>
+      ) : (
+        <button className="panel-header-action" onClick={runAnalysis}>
+          {analysis ? 'Run again' : 'Run analysis'}
+        </button>
+      )}
+
+      {analysisError && <div className="conflict-empty">{analysisError}</div>}
+
+      {analysis && (
+        <>
+          <p className="conflict-section-desc">
+            {analysis.samples} timelines sampled
+            {analysis.rejectedSamples > 0 &&
+              `, ${String(analysis.rejectedSamples)} contradictory samples discarded`}
+            . Orders and ranks count only what each sample's relationships
+            force, not where its layout happened to put the events. Shaded
+            bands on the timeline show where each event started in the middle
+            90% of them.
+          </p>
+
+          {analysis.samples === 0 ? (
+            <div className="conflict-empty">
+              Every sample contradicted itself. Resolve the contradictions among
+              the explicit relationships first.
+            </div>
+          ) : selectedNode && distribution ? (
+            <>
+              <div className="explain-chain-label">Rank of "{selectedNode.name}"</div>
+              <div className="analysis-ranks">
+                {ranks.map(({ rank, p }) => (
+                  <div key={rank} className="analysis-rank">
+                    <span className="analysis-rank-label">#{rank + 1}</span>
+                    <div className="analysis-rank-bar">
+                      <div
+                        className="analysis-rank-fill"
+                        style={{ width: `${String(100 * p)}%` }}
+                      />
+                    </div>
+                    <span className="analysis-rank-value">{formatProbability(p)}</span>
+                  </div>
+                ))}
+              </div>
+              {distribution.undeterminedRank > 0 && (
+                <p className="conflict-section-desc">
+                  Rank left open in {formatProbability(distribution.undeterminedRank)} of
+                  samples.
+                </p>
+              )}
+              <div className="explain-chain-label">Orders</div>
+              <div className="conflict-involved">{selectedOrders.map(renderOrder)}</div>
+            </>
+          ) : uncertainOrders.length > 0 ? (
+            <>
+              <div className="explain-chain-label">Least certain orders</div>
+              <div className="conflict-involved">
+                {uncertainOrders.slice(0, MAX_LISTED_ORDERS).map(renderOrder)}
+              </div>
+              <p className="conflict-section-desc">Select an event to see its ranks.</p>
+            </>
+          ) : (
+            <div className="conflict-empty">
+              No two samples forced opposite orders on the same events.
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
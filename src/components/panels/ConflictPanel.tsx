@@ -1,7 +1,15 @@
 import { useMemo } from 'react';
 import { useTimeline } from '../../context/TimelineContext';
-import { ALLEN_RELATION_LABELS, CONFIDENCE_LABELS } from '../../types';
-import type { SolverStatus } from '../../types';
+import { SOLVE_TIMEOUT_MS } from '../../hooks/useSolver';
+import { SolverSettingsSection } from './SolverSettingsSection';
+import {
+  CONFIDENCE_LABELS,
+  SOLVER_PHASES,
+  SOLVER_PHASE_LABELS,
+  formatRelations,
+  isHardRelationship,
+} from '../../types';
+import type { RelationshipId, RelationshipRepair, SolveProgress, SolverStatus } from '../../types';
 
 const STATUS_LABELS: Record<SolverStatus, string> = {
   satisfiable: 'All constraints satisfied',
@@ -15,8 +23,33 @@ const STATUS_COLORS: Record<SolverStatus, string> = {
   unsatisfiable: '#ef4444',
 };
 
-export function ConflictPanel() {
-  const { state, selectNode, solverResult, isSolving } = useTimeline();
+/**
+ * Share of a solve done, counting each phase of each component as an equal
+ * part of it
+ */
+function progressFraction({ phase, completed, total }: SolveProgress): number {
+  if (total === 0) return 1;
+  const phaseFraction = (SOLVER_PHASES.indexOf(phase) + 1) / SOLVER_PHASES.length;
+  return Math.min(1, (completed + phaseFraction) / total);
+}
+
+interface ConflictPanelProps {
+  /** Open the step-by-step conflict resolution wizard */
+  onResolveConflicts?: (() => void) | undefined;
+}
+
+export function ConflictPanel({ onResolveConflicts }: ConflictPanelProps) {
+  const {
+    state,
+    selectNode,
+    updateRelationship,
+    solverResult,
+    isSolving,
+    solveProgress,
+    solveStopped,
+    triggerSolve,
+    cancelSolve,
+  } = useTimeline();
 
   const violations = useMemo(() => {
     if (!solverResult?.violations) return [];
@@ -50,12 +83,92 @@ export function ConflictPanel() {
     }));
   }, [solverResult, state.relationships, state.nodes]);
 
+  // Parts of the timeline solved apart that each had to relax something,
+  // listed separately once there is more than one
+  const relaxedGroups = useMemo(() => {
+    const groups = (solverResult?.components ?? [])
+      .map((component, index) => ({
+        label: `Group ${String(index + 1)}`,
+        relaxedIds: new Set(component.relaxedIds),
+        optimalRelaxation: component.optimalRelaxation,
+      }))
+      .filter((group) => group.relaxedIds.size > 0);
+    return groups.length > 1 ? groups : null;
+  }, [solverResult]);
+
+  const repairs = useMemo(() => {
+    const byRelationship = new Map<RelationshipId, RelationshipRepair[]>();
+    for (const repair of solverResult?.repairs ?? []) {
+      const list = byRelationship.get(repair.relationshipId) ?? [];
+      list.push(repair);
+      byRelationship.set(repair.relationshipId, list);
+    }
+    return byRelationship;
+  }, [solverResult]);
+
   const handleViolationClick = (sourceId: string) => {
     selectNode(sourceId);
   };
 
+  // One-click changes to the nearest relations that resolve the conflict
+  const renderRepairs = (relationshipId: RelationshipId, label: string) => {
+    const options = repairs.get(relationshipId);
+    if (!options) return null;
+    return (
+      <div className="conflict-repairs">
+        <span className="conflict-item-suggestion">{label}</span>
+        {options.map((repair) => (
+          <button
+            key={formatRelations(repair.relations)}
+            className="panel-header-action"
+            title={
+              repair.restoredIds.length > 0
+                ? `Lets the solver keep ${String(repair.restoredIds.length)} relaxed constraint${repair.restoredIds.length === 1 ? '' : 's'}`
+                : undefined
+            }
+            onClick={(e) => {
+              e.stopPropagation();
+              updateRelationship(relationshipId, { relations: repair.relations });
+            }}
+          >
+            {formatRelations(repair.relations)}
+          </button>
+        ))}
+      </div>
+    );
+  };
+
+  const renderViolation = (v: (typeof violations)[number]) => (
+    <div
+      key={v.relationshipId}
+      className="conflict-item"
+      onClick={() => {
+        if (v.relationship) handleViolationClick(v.relationship.sourceId);
+      }}
+    >
+      <div className="conflict-item-header">
+        <span className="conflict-item-relation">
+          {v.sourceName} {v.relationship && formatRelations(v.relationship.relations)} {v.targetName}
+        </span>
+        {v.relationship && (
+          <span className="conflict-item-confidence">
+            {CONFIDENCE_LABELS[v.relationship.confidence]}
+          </span>
+        )}
+      </div>
+      <div className="conflict-item-message">{v.message}</div>
+      {v.relationship && (
+        <div className="conflict-item-suggestion">
+          Try disabling this {CONFIDENCE_LABELS[v.relationship.confidence].toLowerCase()} constraint
+        </div>
+      )}
+      {renderRepairs(v.relationshipId, 'Or change it to:')}
+    </div>
+  );
+
   const status = solverResult?.status ?? 'satisfiable';
   const hasIssues = violations.length > 0 || conflicts.length > 0;
+  const undecidedCount = solverResult?.undecidedRelationshipIds.length ?? 0;
 
   return (
     <div className="panel conflict-panel">
@@ -72,11 +185,99 @@ export function ConflictPanel() {
         </span>
         {solverResult && (
           <span className="status-time">
-            ({solverResult.solveTimeMs}ms)
+            ({Math.round(solverResult.solveTimeMs)}ms)
           </span>
         )}
       </div>
 
+      {isSolving && (
+        <div className="solve-progress">
+          <div className="analysis-run">
+            <div className="analysis-progress">
+              <div
+                className="analysis-progress-fill"
+                style={{
+                  width: `${String(solveProgress ? 100 * progressFraction(solveProgress) : 0)}%`,
+                }}
+              />
+            </div>
+            <button className="panel-header-action" onClick={cancelSolve}>
+              Cancel
+            </button>
+          </div>
+          {solveProgress && (
+            <span className="solve-progress-phase">
+              {SOLVER_PHASE_LABELS[solveProgress.phase]}
+              {solveProgress.total > 1 &&
+                solveProgress.completed < solveProgress.total &&
+                ` · group ${String(solveProgress.completed + 1)} of ${String(solveProgress.total)}`}
+            </span>
+          )}
+        </div>
+      )}
+
+      {solveStopped && !isSolving && (
+        <div className="solve-stopped">
+          <p className="conflict-section-desc">
+            {solveStopped === 'timeout'
+              ? `Solving took longer than ${String(SOLVE_TIMEOUT_MS / 1000)} seconds and was stopped.`
+              : 'Solving was cancelled.'}{' '}
+            Everything shown is from the last finished solve, before the latest changes.
+          </p>
+          <button
+            className="panel-header-action"
+            onClick={() => {
+              triggerSolve();
+            }}
+          >
+            Solve again
+          </button>
+        </div>
+      )}
+
+      {solverResult && !isSolving && (
+        <details className="solve-phases">
+          <summary>Where the time went</summary>
+          <div className="solve-phase-list">
+            {SOLVER_PHASES.map((phase) => {
+              const time = solverResult.phaseTimesMs[phase];
+              if (time === undefined) return null;
+              return (
+                <div key={phase} className="solve-phase">
+                  <span>{SOLVER_PHASE_LABELS[phase]}</span>
+                  <span className="solve-phase-time">{Math.round(time)}ms</span>
+                </div>
+              );
+            })}
+          </div>
+        </details>
+      )}
+
+      {solverResult?.analysisSkipped && !isSolving && (
+        <p className="conflict-section-desc solve-analysis-note">
+          This timeline is too large for entailed relations, undetermined pairs, redundancy and
+          repairs, so the solver skipped them and looked for only a few contradictions to keep
+          solving fast.
+        </p>
+      )}
+
+      {undecidedCount > 0 && !isSolving && (
+        <p className="conflict-section-desc solve-analysis-note">
+          The solver ran out of checks before it could choose a relation for{' '}
+          {undecidedCount === 1
+            ? 'the relationship with several allowed relations, or show that none fits. It is'
+            : `the ${String(undecidedCount)} relationships with several allowed relations, or show that none fits. They are`}{' '}
+          left out of the layout rather than relaxed.
+        </p>
+      )}
+
+      {status === 'unsatisfiable' && !isSolving && (
+        <p className="conflict-section-desc">
+          No timeline fits the constraints the solver can't relax: hard relationships, pins and
+          event durations. Change or disable one of them in a contradiction below.
+        </p>
+      )}
+
       {!hasIssues && !isSolving && (
         <div className="conflict-empty">
           No conflicts detected. All temporal relationships are consistent.
@@ -89,35 +290,24 @@ export function ConflictPanel() {
             Relaxed Constraints ({violations.length})
           </h4>
           <p className="conflict-section-desc">
-            These constraints were relaxed to find a valid timeline:
+            {solverResult?.optimalRelaxation
+              ? 'These constraints were relaxed to find a valid timeline, losing the least total confidence possible:'
+              : 'These constraints were relaxed to find a valid timeline (chosen greedily; a cheaper choice may exist):'}
           </p>
           <div className="conflict-list">
-            {violations.map((v) => (
-              <div
-                key={v.relationshipId}
-                className="conflict-item"
-                onClick={() => {
-                  if (v.relationship) handleViolationClick(v.relationship.sourceId);
-                }}
-              >
-                <div className="conflict-item-header">
-                  <span className="conflict-item-relation">
-                    {v.sourceName} {v.relationship && ALLEN_RELATION_LABELS[v.relationship.relation]} {v.targetName}
-                  </span>
-                  {v.relationship && (
-                    <span className="conflict-item-confidence">
-                      {CONFIDENCE_LABELS[v.relationship.confidence]}
-                    </span>
-                  )}
-                </div>
-                <div className="conflict-item-message">{v.message}</div>
-                {v.relationship && (
-                  <div className="conflict-item-suggestion">
-                    Try disabling this {CONFIDENCE_LABELS[v.relationship.confidence].toLowerCase()} constraint
+            {relaxedGroups
+              ? relaxedGroups.map((group) => (
+                  <div key={group.label} className="conflict-group">
+                    <h5 className="conflict-group-title">
+                      {group.label} ({group.relaxedIds.size}
+                      {group.optimalRelaxation ? '' : ', chosen greedily'})
+                    </h5>
+                    {violations
+                      .filter((v) => group.relaxedIds.has(v.relationshipId))
+                      .map(renderViolation)}
                   </div>
-                )}
-              </div>
-            ))}
+                ))
+              : violations.map(renderViolation)}
           </div>
         </div>
       )}
@@ -125,11 +315,21 @@ export function ConflictPanel() {
       {conflicts.length > 0 && (
         <div className="conflict-section">
           <h4 className="conflict-section-title conflict-section-title--error">
-            Unresolvable Conflicts ({conflicts.length})
+            Contradictions ({conflicts.length}{solverResult?.conflictsComplete ? '' : '+'})
           </h4>
           <p className="conflict-section-desc">
-            These constraint groups cannot all be satisfied:
+            Each of these constraint groups cannot all be satisfied, though any smaller part of it can:
           </p>
+          {onResolveConflicts && (
+            <button className="panel-header-action" onClick={onResolveConflicts}>
+              Resolve step by step
+            </button>
+          )}
+          {!solverResult?.conflictsComplete && (
+            <p className="conflict-section-desc">
+              The search stopped at its limits, so there may be more. Raise them in Solver Settings to look further.
+            </p>
+          )}
           <div className="conflict-list">
             {conflicts.map((c, idx) => (
               <div key={idx} className="conflict-item conflict-item--error">
@@ -145,19 +345,50 @@ export function ConflictPanel() {
                           handleViolationClick(r.relationship.sourceId);
                         }}
                       >
-                        {r.sourceName} → {ALLEN_RELATION_LABELS[r.relationship.relation]} → {r.targetName}
+                        {r.sourceName} → {formatRelations(r.relationship.relations)} → {r.targetName}
+                        {isHardRelationship(r.relationship, state.settings) && ' (hard)'}
+                        {!violations.some((v) => v.relationshipId === r.id) &&
+                          renderRepairs(r.id, 'Resolve by changing it to:')}
                       </div>
                     ) : null
                   )}
+                  {c.nodeConstraints.map((constraint) => (
+                    <div
+                      key={constraint.nodeId}
+                      className="conflict-involved-item conflict-involved-item--node"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleViolationClick(constraint.nodeId);
+                      }}
+                    >
+                      {constraint.message}
+                    </div>
+                  ))}
+                  {c.pins.map((pin) => (
+                    <div
+                      key={pin.nodeId}
+                      className="conflict-involved-item conflict-involved-item--pin"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleViolationClick(pin.nodeId);
+                      }}
+                    >
+                      {pin.message}
+                    </div>
+                  ))}
                 </div>
                 <div className="conflict-item-suggestion">
-                  Disable one of the above constraints to resolve this conflict
+                  {c.relationshipIds.length === 0
+                    ? 'Move or unpin one of the above events to resolve this conflict'
+                    : 'Disable or change one of the above constraints to resolve this conflict'}
                 </div>
               </div>
             ))}
           </div>
         </div>
       )}
+
+      <SolverSettingsSection />
     </div>
   );
 }
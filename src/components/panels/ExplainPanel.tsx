@@ -0,0 +1,255 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useTimeline } from '../../context/TimelineContext';
+import { describeOrder } from '../../solver/explain';
+import { getNodeConstraintDescription, getPinDescription } from '../../solver/constraints';
+import {
+  CONFIDENCE_LABELS,
+  formatRelations,
+  type OrderExplanation,
+  type ReasoningStep,
+  type TemporalRelationship,
+  type TimelineNode,
+} from '../../types';
+
+/**
+ * Pick two events and see the chain of constraints that orders them, and see
+ * what put the selected event where it is
+ */
+export function ExplainPanel() {
+  const { state, selectNode, solverResult, highlightRelationships, askSolver } = useTimeline();
+  const [firstId, setFirstId] = useState<string>(state.selectedNodeId ?? '');
+  const [secondId, setSecondId] = useState<string>('');
+
+  const nodes = useMemo(() => {
+    return state.nodeOrder
+      .map((id) => state.nodes[id])
+      .filter((node): node is TimelineNode => node?.enabled === true);
+  }, [state.nodes, state.nodeOrder]);
+
+  // Reason only from what the solver kept: enabled and not relaxed
+  const activeRelationships = useMemo(() => {
+    const violatedIds = new Set(solverResult?.violations.map((v) => v.relationshipId));
+    return Object.values(state.relationships).filter(
+      (rel) => rel.enabled && !violatedIds.has(rel.id)
+    );
+  }, [state.relationships, solverResult]);
+
+  const first = state.nodes[firstId];
+  const second = state.nodes[secondId];
+  const isUnsatisfiable = solverResult?.status === 'unsatisfiable';
+
+  const question = useMemo(() => {
+    if (!first || !second || first.id === second.id || isUnsatisfiable) return null;
+    return { nodes, relationships: activeRelationships, firstId: first.id, secondId: second.id };
+  }, [nodes, activeRelationships, first, second, isUnsatisfiable]);
+
+  // Asked of the worker, so a search over a large timeline never holds up
+  // the panel
+  const [answer, setAnswer] = useState<{
+    question: NonNullable<typeof question>;
+    explanation: OrderExplanation | null;
+  } | null>(null);
+  useEffect(() => {
+    if (!question) return;
+    const controller = new AbortController();
+    askSolver('explain', question, { signal: controller.signal }).then(
+      (explanation) => { setAnswer({ question, explanation }); },
+      (reason: unknown) => {
+        if (!controller.signal.aborted) console.error('Failed to explain order:', reason);
+      }
+    );
+    return () => { controller.abort(); };
+  }, [question, askSolver]);
+
+  // Until the new answer arrives, keep showing the last one for the same pair
+  const answered =
+    answer?.question.firstId === question?.firstId &&
+    answer?.question.secondId === question?.secondId;
+  const explanation = answered ? (answer?.explanation ?? null) : null;
+
+  const selectedNode = state.selectedNodeId ? state.nodes[state.selectedNodeId] : undefined;
+  const positionExplanation = solverResult?.positionExplanations.find(
+    (entry) => entry.nodeId === selectedNode?.id
+  );
+
+  // Draw every relationship in the chains shown here on the timeline
+  useEffect(() => {
+    const steps = [
+      ...(explanation?.steps ?? []),
+      ...(positionExplanation?.start ?? []),
+      ...(positionExplanation?.end ?? []),
+    ];
+    highlightRelationships(
+      steps.filter((step) => step.kind === 'relationship').map((step) => step.id)
+    );
+    return () => { highlightRelationships([]); };
+  }, [explanation, positionExplanation, highlightRelationships]);
+
+  const getNodeName = (nodeId: string): string => {
+    return state.nodes[nodeId]?.name ?? 'Unknown';
+  };
+
+  // Steps of the selected event's own chain don't change the selection
+  const renderStep = (step: ReasoningStep, selectable = true) => {
+    if (step.kind === 'duration') {
+      const node = state.nodes[step.id];
+      if (!node) return null;
+      return (
+        <div
+          className="explain-step explain-step--node"
+          onClick={() => { if (selectable) selectNode(node.id); }}
+        >
+          {getNodeConstraintDescription(node)}
+        </div>
+      );
+    }
+
+    if (step.kind === 'pin') {
+      const node = state.nodes[step.id];
+      if (!node) return null;
+      const relativeTo = node.pin?.relativeTo;
+      return (
+        <div
+          className="explain-step explain-step--node explain-step--pin"
+          onClick={() => { if (selectable) selectNode(node.id); }}
+        >
+          {getPinDescription(node, relativeTo !== undefined ? getNodeName(relativeTo) : undefined)}
+        </div>
+      );
+    }
+
+    const rel: TemporalRelationship | undefined = state.relationships[step.id];
+    if (!rel) return null;
+    return (
+      <div
+        className="explain-step"
+        onClick={() => { if (selectable) selectNode(rel.sourceId); }}
+      >
+        <div className="conflict-item-header">
+          <span className="conflict-item-relation">
+            {getNodeName(rel.sourceId)} {formatRelations(rel.relations)} {getNodeName(rel.targetId)}
+          </span>
+          <span className="conflict-item-confidence">
+            {CONFIDENCE_LABELS[rel.confidence]}
+          </span>
+        </div>
+        {rel.reasoning && <div className="panel-item-desc">{rel.reasoning}</div>}
+      </div>
+    );
+  };
+
+  const renderChain = (steps: ReasoningStep[], selectable = true) => (
+    <div className="explain-chain">
+      {steps.map((step, idx) => (
+        <div key={`${step.kind}|${step.id}`}>
+          {idx > 0 && <div className="explain-step-arrow">↓</div>}
+          {renderStep(step, selectable)}
+        </div>
+      ))}
+    </div>
+  );
+
+  const renderPositionChain = (label: string, steps: ReasoningStep[]) => (
+    <>
+      {label && <div className="explain-chain-label">{label}</div>}
+      {steps.length > 0 ? (
+        renderChain(steps, false)
+      ) : (
+        <p className="conflict-section-desc">
+          Nothing pushes this earlier, so it sits as late as the timeline allows.
+        </p>
+      )}
+    </>
+  );
+
+  const renderNodeSelect = (value: string, onChange: (id: string) => void) => (
+    <select
+      className="solver-setting-select explain-select"
+      value={value}
+      onChange={(e) => { onChange(e.target.value); }}
+    >
+      <option value="">Choose an event…</option>
+      {nodes.map((node) => (
+        <option key={node.id} value={node.id}>
+          {node.name}
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="panel explain-panel">
+      <div className="panel-header">
+        <h3 className="panel-title">Explain Order</h3>
+      </div>
+      <div className="conflict-section">
+        <p className="conflict-section-desc">
+          Why does one event come before another? Pick two to see the chain of
+          relationships that forces their order.
+        </p>
+        <div className="explain-pickers">
+          {renderNodeSelect(firstId, setFirstId)}
+          <span className="explain-pickers-separator">and</span>
+          {renderNodeSelect(secondId, setSecondId)}
+        </div>
+      </div>
+
+      {first && second && first.id !== second.id && (
+        <div className="conflict-section">
+          {isUnsatisfiable ? (
+            <div className="conflict-empty">
+              The constraints contradict each other, so nothing can be explained
+              until the contradiction is resolved.
+            </div>
+          ) : !answered ? (
+            <div className="conflict-empty">Tracing the constraints between them…</div>
+          ) : explanation ? (
+            <>
+              <h4 className="conflict-section-title explain-claim">
+                {describeOrder(
+                  explanation,
+                  explanation.earlierId === first.id ? first : second,
+                  explanation.laterId === first.id ? first : second
+                )}
+              </h4>
+              {renderChain(explanation.steps)}
+            </>
+          ) : (
+            <div className="conflict-empty">
+              Neither event is forced before the other. Their order on the
+              timeline is a choice the solver made, not a consequence of the
+              relationships.
+            </div>
+          )}
+        </div>
+      )}
+
+      {selectedNode?.enabled && (
+        <div className="conflict-section">
+          <h4 className="conflict-section-title explain-claim">
+            Why is "{selectedNode.name}" here?
+          </h4>
+          {positionExplanation ? (
+            <>
+              <p className="conflict-section-desc">
+                Each constraint below pushes the next event earlier, ending at this one.
+              </p>
+              {selectedNode.durationType === 'interval' ? (
+                <>
+                  {renderPositionChain('Start', positionExplanation.start)}
+                  {renderPositionChain('End', positionExplanation.end)}
+                </>
+              ) : (
+                renderPositionChain('', positionExplanation.start)
+              )}
+            </>
+          ) : (
+            <div className="conflict-empty">
+              No position to explain until the solver finds a valid timeline.
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
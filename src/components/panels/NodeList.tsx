@@ -1,6 +1,7 @@
 import { useState, useMemo } from 'react';
 import { useTimeline } from '../../context/TimelineContext';
-import type { TimelineNode } from '../../types';
+import { formatBounds, type TimelineNode } from '../../types';
+import { placeComponents } from '../../solver/positioning';
 
 interface NodeListProps {
   onPanToNode?: (nodeId: string, position: number) => void;
@@ -26,11 +27,14 @@ export function NodeList({ onPanToNode }: NodeListProps) {
     );
   }, [nodes, searchTerm]);
 
+  // Centre of each node on the track, which places each component after the
+  // one before it
   const positionMap = useMemo(() => {
     const map = new Map<string, number>();
     if (solverResult?.positions) {
+      const { offsets } = placeComponents(solverResult.components, solverResult.positions);
       for (const pos of solverResult.positions) {
-        map.set(pos.nodeId, (pos.start + pos.end) / 2);
+        map.set(pos.nodeId, (pos.start + pos.end) / 2 + (offsets.get(pos.nodeId) ?? 0));
       }
     }
     return map;
@@ -92,7 +96,12 @@ export function NodeList({ onPanToNode }: NodeListProps) {
                 )}
               </div>
               <div className="panel-item-content">
-                <div className="panel-item-name">{node.name}</div>
+                <div className="panel-item-name">
+                  {node.name}
+                  {node.duration && (
+                    <span className="panel-item-duration">{formatBounds(node.duration)}</span>
+                  )}
+                </div>
                 {node.description && (
                   <div className="panel-item-desc">{node.description}</div>
                 )}
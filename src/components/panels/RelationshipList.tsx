@@ -1,11 +1,16 @@
-import { useMemo } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { useTimeline } from '../../context/TimelineContext';
 import {
-  ALLEN_RELATION_LABELS,
   CONFIDENCE_LABELS,
+  formatBounds,
+  formatRelations,
+  isHardRelationship,
+  type AnalysisProgress,
   type TemporalRelationship,
   type ConfidenceLevel,
+  type RelationshipImpact,
 } from '../../types';
+import type { SolverInput } from '../../solver/solver';
 
 interface RelationshipListProps {
   onEditRelationship?: (relationshipId: string) => void;
@@ -17,14 +22,114 @@ const CONFIDENCE_COLORS: Record<ConfidenceLevel, string> = {
   speculation: '#f97316',
 };
 
+type SortOrder = 'list' | 'impact';
+
+/**
+ * Order impacts by how much removing the relationship would change, most first
+ */
+function compareImpacts(a: RelationshipImpact, b: RelationshipImpact): number {
+  const relaxationChanges = (impact: RelationshipImpact) =>
+    impact.newlyRelaxedIds.length + impact.restoredIds.length;
+  return (
+    b.orderChanges - a.orderChanges ||
+    relaxationChanges(b) - relaxationChanges(a) ||
+    b.maxShift - a.maxShift
+  );
+}
+
+/**
+ * Whether removing a relationship would change nothing at all
+ */
+function isInert(impact: RelationshipImpact): boolean {
+  return (
+    impact.orderChanges === 0 &&
+    impact.maxShift === 0 &&
+    impact.newlyRelaxedIds.length === 0 &&
+    impact.restoredIds.length === 0
+  );
+}
+
+/**
+ * Describe what removing a relationship would change
+ */
+function describeImpact(impact: RelationshipImpact): string {
+  const changes = [
+    `${String(impact.orderChanges)} ${impact.orderChanges === 1 ? 'order' : 'orders'} would change`,
+    `events would move up to ${String(Math.round(impact.maxShift))} units`,
+  ];
+  if (impact.newlyRelaxedIds.length > 0) {
+    changes.push(`${String(impact.newlyRelaxedIds.length)} more would be relaxed`);
+  }
+  if (impact.restoredIds.length > 0) {
+    changes.push(`${String(impact.restoredIds.length)} relaxed could be kept`);
+  }
+  return `Without this relationship: ${changes.join(', ')}`;
+}
+
 export function RelationshipList({ onEditRelationship }: RelationshipListProps) {
-  const { state, selectNode, toggleRelationship, solverResult } = useTimeline();
+  const { state, selectNode, toggleRelationship, deleteRelationships, solverResult, askSolver } =
+    useTimeline();
+
+  const [sortOrder, setSortOrder] = useState<SortOrder>('list');
 
+  // Impacts take a solve per relationship, so they are only measured while
+  // the list is sorted by them
+  const question = useMemo((): SolverInput | null => {
+    if (sortOrder !== 'impact') return null;
+    return {
+      nodes: Object.values(state.nodes).filter((node) => node.enabled),
+      relationships: Object.values(state.relationships).filter((rel) => rel.enabled),
+      settings: state.settings,
+    };
+  }, [sortOrder, state.nodes, state.relationships, state.settings]);
+
+  const [measurement, setMeasurement] = useState<{
+    question: SolverInput;
+    impacts: RelationshipImpact[] | null;
+    progress: AnalysisProgress | null;
+    error: string | null;
+  } | null>(null);
+  useEffect(() => {
+    if (!question) return;
+    const controller = new AbortController();
+    const update = (changes: Partial<NonNullable<typeof measurement>>) => {
+      setMeasurement({ question, impacts: null, progress: null, error: null, ...changes });
+    };
+    askSolver('impacts', question, {
+      signal: controller.signal,
+      onProgress: (progress) => { update({ progress }); },
+    }).then(
+      (impacts) => { update({ impacts }); },
+      (reason: unknown) => {
+        if (controller.signal.aborted) return;
+        update({ error: reason instanceof Error ? reason.message : String(reason) });
+      }
+    );
+    return () => { controller.abort(); };
+  }, [question, askSolver]);
+
+  const current = measurement?.question === question ? measurement : null;
+  const impacts = useMemo(
+    () => new Map(current?.impacts?.map((impact) => [impact.relationshipId, impact])),
+    [current]
+  );
+  const measuring = question !== null && !current?.impacts && !current?.error;
+
+  // Relationships without an impact (disabled, or no valid layout) sort last
   const relationships = useMemo(() => {
-    return state.relationshipOrder
+    const listed = state.relationshipOrder
       .map((id) => state.relationships[id])
       .filter((rel): rel is TemporalRelationship => rel !== undefined);
-  }, [state.relationships, state.relationshipOrder]);
+    if (sortOrder === 'list') return listed;
+
+    return listed
+      .map((rel) => ({ rel, impact: impacts.get(rel.id) }))
+      .sort((a, b) => {
+        if (!a.impact || !b.impact) return Number(!a.impact) - Number(!b.impact);
+        return compareImpacts(a.impact, b.impact);
+      })
+      .map(({ rel }) => rel);
+  }, [state.relationships, state.relationshipOrder, sortOrder, impacts]);
 
   const violatedIds = useMemo(() => {
     const ids = new Set<string>();
@@ -36,6 +141,14 @@ export function RelationshipList({ onEditRelationship }: RelationshipListProps)
     return ids;
   }, [solverResult]);
 
+  const redundantIds = useMemo(
+    () => new Set(solverResult?.redundantRelationshipIds),
+    [solverResult]
+  );
+  const prunableIds = solverResult?.prunableRelationshipIds ?? [];
+
+  const entailedRelations = solverResult?.entailedRelations ?? [];
+
   const getNodeName = (nodeId: string): string => {
     return state.nodes[nodeId]?.name ?? 'Unknown';
   };
@@ -55,15 +168,53 @@ export function RelationshipList({ onEditRelationship }: RelationshipListProps)
 
   return (
     <div className="panel">
-      <div className="panel-header">
+      <div className="panel-header panel-header--with-action">
         <h3 className="panel-title">Relationships ({relationships.length})</h3>
+        {prunableIds.length > 0 && (
+          <button
+            className="panel-header-action"
+            onClick={() => { deleteRelationships(prunableIds); }}
+            title="Delete relationships that the others already imply (can be undone)"
+          >
+            Prune redundant ({prunableIds.length})
+          </button>
+        )}
       </div>
+      {relationships.length > 0 && (
+        <div className="relationship-columns">
+          <span>Relationship</span>
+          <button
+            className={`relationship-sort ${sortOrder === 'impact' ? 'active' : ''}`}
+            onClick={() => { setSortOrder(sortOrder === 'impact' ? 'list' : 'impact'); }}
+            title={
+              sortOrder === 'impact'
+                ? 'Back to list order'
+                : 'Measure how much removing each relationship would change the timeline, and sort by it'
+            }
+          >
+            Impact {sortOrder === 'impact' ? '▼' : '↕'}
+          </button>
+        </div>
+      )}
+      {measuring && (
+        <div className="panel-subheader">
+          Measuring impacts
+          {current?.progress &&
+            ` (${String(current.progress.completed)}/${String(current.progress.total)})`}
+          …
+        </div>
+      )}
+      {current?.error && (
+        <div className="relationship-violation">Failed to measure impacts: {current.error}</div>
+      )}
       <div className="panel-list">
         {relationships.length === 0 ? (
           <div className="panel-empty">No relationships yet</div>
         ) : (
           relationships.map((rel) => {
             const isViolated = violatedIds.has(rel.id);
+            const isRedundant = redundantIds.has(rel.id);
+            const impact = impacts.get(rel.id);
             return (
               <div
                 key={rel.id}
@@ -80,10 +231,27 @@ export function RelationshipList({ onEditRelationship }: RelationshipListProps)
                     <span className="relationship-node">{getNodeName(rel.sourceId)}</span>
                     <span className="relationship-arrow">→</span>
                     <span className="relationship-relation">
-                      {ALLEN_RELATION_LABELS[rel.relation]}
+                      {formatRelations(rel.relations)}
+                      {rel.gap && ` (${formatBounds(rel.gap)})`}
                     </span>
                     <span className="relationship-arrow">→</span>
                     <span className="relationship-node">{getNodeName(rel.targetId)}</span>
+                    {isHardRelationship(rel, state.settings) && (
+                      <span
+                        className="relationship-hard-badge"
+                        title="Never relaxed by the solver"
+                      >
+                        Hard
+                      </span>
+                    )}
+                    {isRedundant && (
+                      <span
+                        className="relationship-redundant-badge"
+                        title="Already implied by the other relationships"
+                      >
+                        Redundant
+                      </span>
+                    )}
                   </div>
                   {rel.reasoning && (
                     <div className="panel-item-desc">{rel.reasoning}</div>
@@ -92,6 +260,18 @@ export function RelationshipList({ onEditRelationship }: RelationshipListProps)
                     <div className="relationship-violation">Constraint violated</div>
                   )}
                 </div>
+                <span
+                  className={`relationship-impact ${impact && isInert(impact) ? 'inert' : ''}`}
+                  title={
+                    impact
+                      ? describeImpact(impact)
+                      : sortOrder === 'impact'
+                        ? 'No impact while measuring, disabled or contradictory'
+                        : 'Sort by impact to measure it'
+                  }
+                >
+                  {impact ? impact.orderChanges : '–'}
+                </span>
                 <button
                   className={`panel-toggle ${rel.enabled ? 'enabled' : ''}`}
                   onClick={(e) => { handleToggle(e, rel.id); }}
@@ -103,6 +283,34 @@ export function RelationshipList({ onEditRelationship }: RelationshipListProps)
             );
           })
         )}
+        {entailedRelations.length > 0 && (
+          <>
+            <div className="panel-subheader">
+              Entailed ({entailedRelations.length})
+            </div>
+            {entailedRelations.map((entailed) => (
+              <div
+                key={`${entailed.sourceId}|${entailed.targetId}`}
+                className="panel-item relationship-item entailed"
+                onClick={() => { selectNode(entailed.sourceId); }}
+                title="Follows from the relationships above"
+              >
+                <div className="relationship-entailed-marker">∴</div>
+                <div className="panel-item-content">
+                  <div className="relationship-summary">
+                    <span className="relationship-node">{getNodeName(entailed.sourceId)}</span>
+                    <span className="relationship-arrow">→</span>
+                    <span className="relationship-relation">
+                      {formatRelations(entailed.relations)}
+                    </span>
+                    <span className="relationship-arrow">→</span>
+                    <span className="relationship-node">{getNodeName(entailed.targetId)}</span>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </>
+        )}
       </div>
     </div>
   );
@@ -3,16 +3,19 @@ import { useTimeline } from '../../context/TimelineContext';
 import { NodeList } from './NodeList';
 import { RelationshipList } from './RelationshipList';
 import { ConflictPanel } from './ConflictPanel';
+import { ExplainPanel } from './ExplainPanel';
+import { AmbiguityPanel } from './AmbiguityPanel';
 import './Panels.css';
 
-type TabId = 'events' | 'relationships' | 'conflicts';
+type TabId = 'events' | 'relationships' | 'conflicts' | 'open' | 'explain';
 
 interface SidebarProps {
   onPanToNode?: (nodeId: string, position: number) => void;
   onEditRelationship?: (relationshipId: string) => void;
+  onResolveConflicts?: () => void;
 }
 
-export function Sidebar({ onPanToNode, onEditRelationship }: SidebarProps) {
+export function Sidebar({ onPanToNode, onEditRelationship, onResolveConflicts }: SidebarProps) {
   const [activeTab, setActiveTab] = useState<TabId>('events');
   const [isCollapsed, setIsCollapsed] = useState(false);
   const { state, solverResult } = useTimeline();
@@ -20,6 +23,7 @@ export function Sidebar({ onPanToNode, onEditRelationship }: SidebarProps) {
   const nodeCount = state.nodeOrder.length;
   const relationshipCount = state.relationshipOrder.length;
   const conflictCount = (solverResult?.violations.length ?? 0) + (solverResult?.conflicts.length ?? 0);
+  const openCount = solverResult?.undeterminedPairs.length ?? 0;
 
   return (
     <aside className={`sidebar ${isCollapsed ? 'collapsed' : ''}`}>
@@ -60,6 +64,20 @@ export function Sidebar({ onPanToNode, onEditRelationship }: SidebarProps) {
                 <span className="sidebar-tab-badge warning">{conflictCount}</span>
               )}
             </button>
+            <button
+              className={`sidebar-tab ${activeTab === 'open' ? 'active' : ''}`}
+              onClick={() => { setActiveTab('open'); }}
+              title="Pairs of events whose order is still undetermined"
+            >
+              Open
+              {openCount > 0 && <span className="sidebar-tab-badge">{openCount}</span>}
+            </button>
+            <button
+              className={`sidebar-tab ${activeTab === 'explain' ? 'active' : ''}`}
+              onClick={() => { setActiveTab('explain'); }}
+            >
+              Explain
+            </button>
           </div>
 
           <div className="sidebar-content">
@@ -67,7 +85,9 @@ export function Sidebar({ onPanToNode, onEditRelationship }: SidebarProps) {
             {activeTab === 'relationships' && (
               <RelationshipList onEditRelationship={onEditRelationship} />
             )}
-            {activeTab === 'conflicts' && <ConflictPanel />}
+            {activeTab === 'conflicts' && <ConflictPanel onResolveConflicts={onResolveConflicts} />}
+            {activeTab === 'open' && <AmbiguityPanel />}
+            {activeTab === 'explain' && <ExplainPanel />}
           </div>
         </>
       )}
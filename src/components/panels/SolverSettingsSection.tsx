@@ -0,0 +1,135 @@
+import { useTimeline } from '../../context/TimelineContext';
+import {
+  LAYOUT_OBJECTIVES,
+  LAYOUT_OBJECTIVE_LABELS,
+  LAYOUT_OBJECTIVE_DESCRIPTIONS,
+  RELAXATION_STRATEGIES,
+  RELAXATION_STRATEGY_LABELS,
+  RELAXATION_STRATEGY_DESCRIPTIONS,
+  type LayoutObjective,
+  type RelaxationStrategy,
+} from '../../types';
+
+// Positive whole number, or null if the field holds anything else
+function parseLimit(value: string): number | null {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : null;
+}
+
+/**
+ * Solver options, saved with the timeline
+ */
+export function SolverSettingsSection() {
+  const { state, updateSettings, relayout } = useTimeline();
+  const { settings } = state;
+
+  return (
+    <div className="conflict-section solver-settings">
+      <h4 className="conflict-section-title solver-settings-title">Solver Settings</h4>
+      <label className="solver-setting">
+        <span className="solver-setting-label">Relaxation</span>
+        <select
+          className="solver-setting-select"
+          value={settings.relaxationStrategy}
+          onChange={(e) => {
+            updateSettings({ relaxationStrategy: e.target.value as RelaxationStrategy });
+          }}
+        >
+          {RELAXATION_STRATEGIES.map((strategy) => (
+            <option key={strategy} value={strategy}>
+              {RELAXATION_STRATEGY_LABELS[strategy]}
+            </option>
+          ))}
+        </select>
+      </label>
+      <p className="solver-setting-desc">
+        {RELAXATION_STRATEGY_DESCRIPTIONS[settings.relaxationStrategy]}
+      </p>
+      <label className="solver-setting">
+        <span className="solver-setting-label">Never relax explicit relationships</span>
+        <input
+          type="checkbox"
+          className="solver-setting-checkbox"
+          checked={settings.explicitIsHard}
+          onChange={(e) => {
+            updateSettings({ explicitIsHard: e.target.checked });
+          }}
+        />
+      </label>
+      <p className="solver-setting-desc">
+        Treat canon as hard, like relationships marked hard: if it contradicts itself there is no
+        timeline, rather than one that quietly overrides it.
+      </p>
+      <label className="solver-setting">
+        <span className="solver-setting-label">Layout</span>
+        <select
+          className="solver-setting-select"
+          value={settings.layoutObjective}
+          onChange={(e) => {
+            updateSettings({ layoutObjective: e.target.value as LayoutObjective });
+          }}
+        >
+          {LAYOUT_OBJECTIVES.map((objective) => (
+            <option key={objective} value={objective}>
+              {LAYOUT_OBJECTIVE_LABELS[objective]}
+            </option>
+          ))}
+        </select>
+      </label>
+      <p className="solver-setting-desc">
+        {LAYOUT_OBJECTIVE_DESCRIPTIONS[settings.layoutObjective]} Edits keep
+        events near where they were; re-layout to place everything afresh.
+      </p>
+      <button className="panel-header-action" onClick={relayout}>
+        Re-layout
+      </button>
+      <label className="solver-setting">
+        <span className="solver-setting-label">Contradictions to list</span>
+        <input
+          type="number"
+          min={1}
+          className="solver-setting-input"
+          value={settings.maxConflicts}
+          onChange={(e) => {
+            const value = parseLimit(e.target.value);
+            if (value !== null) updateSettings({ maxConflicts: value });
+          }}
+        />
+      </label>
+      <label className="solver-setting">
+        <span className="solver-setting-label">Consistency checks to spend</span>
+        <input
+          type="number"
+          min={1}
+          step={100}
+          className="solver-setting-input"
+          value={settings.maxConflictChecks}
+          onChange={(e) => {
+            const value = parseLimit(e.target.value);
+            if (value !== null) updateSettings({ maxConflictChecks: value });
+          }}
+        />
+      </label>
+      <p className="solver-setting-desc">
+        Limits on the search for contradictions. Higher values find more on large timelines but take longer.
+      </p>
+      <label className="solver-setting">
+        <span className="solver-setting-label">Analysis samples</span>
+        <input
+          type="number"
+          min={1}
+          step={100}
+          className="solver-setting-input"
+          value={settings.analysisSamples}
+          onChange={(e) => {
+            const value = parseLimit(e.target.value);
+            if (value !== null) updateSettings({ analysisSamples: value });
+          }}
+        />
+      </label>
+      <p className="solver-setting-desc">
+        Timelines sampled by probabilistic analysis. More samples give steadier figures but take longer.
+      </p>
+    </div>
+  );
+}
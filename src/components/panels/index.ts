@@ -1,4 +1,6 @@
 export { NodeList } from './NodeList';
 export { RelationshipList } from './RelationshipList';
 export { ConflictPanel } from './ConflictPanel';
+export { ExplainPanel } from './ExplainPanel';
+export { AmbiguityPanel } from './AmbiguityPanel';
 export { Sidebar } from './Sidebar';
@@ -0,0 +1,26 @@
+import type { EndpointWindow } from '../../types';
+import './AnalysisBand.css';
+
+interface AnalysisBandProps {
+  range: EndpointWindow;
+  isSelected: boolean;
+}
+
+// Narrower ranges are widened so a settled node still shows a mark
+const MIN_BAND_WIDTH = 4;
+
+/**
+ * Shaded band across the axis covering where a node started in most sampled
+ * timelines. Overlapping bands darken where many nodes could fall.
+ */
+export function AnalysisBand({ range, isSelected }: AnalysisBandProps) {
+  const width = Math.max(range.latest - range.earliest, MIN_BAND_WIDTH);
+  const center = (range.earliest + range.latest) / 2;
+
+  return (
+    <div
+      className={`analysis-band ${isSelected ? 'selected' : ''}`}
+      style={{ left: center - width / 2, width }}
+    />
+  );
+}
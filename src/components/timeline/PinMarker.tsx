@@ -0,0 +1,14 @@
+import './PinMarker.css';
+
+interface PinMarkerProps {
+  /** Where the pin holds the node, e.g. "at year zero" */
+  description: string;
+}
+
+/**
+ * Pin standing over a pinned node's start, to show the solver can't move it
+ * away from the point it is pinned to
+ */
+export function PinMarker({ description }: PinMarkerProps) {
+  return <div className="pin-marker" title={`Pinned ${description}`} />;
+}
@@ -14,6 +14,8 @@ interface RelationshipLineProps {
   sourcePosition: SolvedPosition;
   targetPosition: SolvedPosition;
   isViolated: boolean;
+  /** Part of a chain being explained */
+  isHighlighted?: boolean;
   onClick?: (relationshipId: RelationshipId) => void;
 }
 
@@ -25,6 +27,7 @@ const CONFIDENCE_COLORS: Record<ConfidenceLevel, string> = {
 };
 
 const VIOLATED_COLOR = '#ef4444'; // red
+const HIGHLIGHT_COLOR = '#fbbf24'; // amber, as for selection
 
 // Get the center point of a node for drawing lines
 function getNodeCenter(
@@ -95,6 +98,7 @@ export function RelationshipLine({
   sourcePosition,
   targetPosition,
   isViolated,
+  isHighlighted = false,
   onClick,
 }: RelationshipLineProps) {
   const { source, target } = getConnectionPoints(
@@ -122,7 +126,7 @@ export function RelationshipLine({
 
   return (
     <g
-      className={`relationship-line ${isViolated ? 'violated' : ''} confidence-${relationship.confidence}`}
+      className={`relationship-line ${isViolated ? 'violated' : ''} ${isHighlighted ? 'highlighted' : ''} confidence-${relationship.confidence}`}
       onClick={handleClick}
     >
       {/* Invisible wider path for easier clicking */}
@@ -152,6 +156,18 @@ export function RelationshipLine({
         className="relationship-line-arrow"
       />
 
+      {/* Glow effect for highlighted relationships */}
+      {isHighlighted && (
+        <path
+          d={path}
+          fill="none"
+          stroke={HIGHLIGHT_COLOR}
+          strokeWidth={6}
+          strokeOpacity={0.35}
+          className="relationship-line-glow"
+        />
+      )}
+
       {/* Glow effect for violated relationships */}
       {isViolated && (
         <path
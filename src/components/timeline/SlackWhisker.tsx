@@ -0,0 +1,31 @@
+import type { EndpointWindow } from '../../types';
+import './SlackWhisker.css';
+
+interface SlackWhiskerProps {
+  window: EndpointWindow;
+  /** Vertical offset from the axis, in pixels */
+  offset: number;
+  isSelected: boolean;
+}
+
+// Windows narrower than this are drawn as pinned (no whisker)
+const MIN_WHISKER_WIDTH = 2;
+
+/**
+ * Error-bar style line spanning the earliest to latest position of an endpoint
+ */
+export function SlackWhisker({ window, offset, isSelected }: SlackWhiskerProps) {
+  const width = window.latest - window.earliest;
+  if (width < MIN_WHISKER_WIDTH) return null;
+
+  return (
+    <div
+      className={`slack-whisker ${isSelected ? 'selected' : ''}`}
+      style={{
+        left: window.earliest,
+        width,
+        top: `calc(50% + ${String(offset)}px)`,
+      }}
+    />
+  );
+}
@@ -1,5 +1,6 @@
 import type { MouseEvent } from 'react';
 import type { TimelineNode as TimelineNodeType, SolvedPosition } from '../../types';
+import { PinMarker } from './PinMarker';
 import './TimelineInterval.css';
 
 interface TimelineIntervalProps {
@@ -7,10 +8,12 @@ interface TimelineIntervalProps {
   position: SolvedPosition;
   isSelected: boolean;
   hasConflict?: boolean;
+  /** Where the node is pinned, or null if it isn't */
+  pinDescription: string | null;
   onClick: (e: MouseEvent) => void;
 }
 
-export function TimelineInterval({ node, position, isSelected, hasConflict, onClick }: TimelineIntervalProps) {
+export function TimelineInterval({ node, position, isSelected, hasConflict, pinDescription, onClick }: TimelineIntervalProps) {
   const categoryColor = node.color ?? getCategoryColor(node.category);
   const width = Math.max(position.end - position.start, 20);
 
@@ -33,6 +36,7 @@ export function TimelineInterval({ node, position, isSelected, hasConflict, onCl
       title={node.description || node.name}
     >
       <div className="timeline-interval-bar" />
+      {pinDescription !== null && <PinMarker description={pinDescription} />}
       <div className="timeline-interval-label">
         {node.name}
       </div>
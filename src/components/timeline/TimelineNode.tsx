@@ -1,5 +1,6 @@
 import type { MouseEvent } from 'react';
 import type { TimelineNode as TimelineNodeType, SolvedPosition } from '../../types';
+import { PinMarker } from './PinMarker';
 import './TimelineNode.css';
 
 interface TimelineNodeProps {
@@ -7,10 +8,12 @@ interface TimelineNodeProps {
   position: SolvedPosition;
   isSelected: boolean;
   hasConflict?: boolean;
+  /** Where the node is pinned, or null if it isn't */
+  pinDescription: string | null;
   onClick: (e: MouseEvent) => void;
 }
 
-export function TimelineNode({ node, position, isSelected, hasConflict, onClick }: TimelineNodeProps) {
+export function TimelineNode({ node, position, isSelected, hasConflict, pinDescription, onClick }: TimelineNodeProps) {
   const categoryColor = node.color ?? getCategoryColor(node.category);
 
   const classNames = [
@@ -31,6 +34,7 @@ export function TimelineNode({ node, position, isSelected, hasConflict, onClick
       title={node.description || node.name}
     >
       <div className="timeline-node-marker" />
+      {pinDescription !== null && <PinMarker description={pinDescription} />}
       <div className="timeline-node-label">
         {node.name}
       </div>
@@ -3,23 +3,57 @@ import { useTimeline } from '../../context/TimelineContext';
 import { TimelineNode } from './TimelineNode';
 import { TimelineInterval } from './TimelineInterval';
 import { RelationshipLine } from './RelationshipLine';
-import type { SolvedPosition, NodeId, RelationshipId } from '../../types';
+import { SlackWhisker } from './SlackWhisker';
+import { AnalysisBand } from './AnalysisBand';
+import { formatPin } from '../../types';
+import { placeComponents } from '../../solver/positioning';
+import type {
+  EndpointWindow,
+  NodePin,
+  SolvedPosition,
+  SolverStatus,
+  NodeId,
+  RelationshipId,
+  TemporalRelationship,
+} from '../../types';
 import './TimelineTrack.css';
 
 const TIMELINE_WIDTH = 2000; // Base width, will be scaled by zoom
 const TIMELINE_HEIGHT = 400;
 
+// Whisker offsets from the axis: instants above the marker, interval starts
+// above the bar and interval ends below it
+const INSTANT_WHISKER_OFFSET = -16;
+const INTERVAL_WHISKER_OFFSET = 38;
+
+/**
+ * Stretch of the track given to one solved component
+ */
+interface TrackSegment {
+  /** First node of the component */
+  id: NodeId;
+  offset: number;
+  width: number;
+  label: string;
+  status: SolverStatus;
+}
+
+const shiftWindow = (window: EndpointWindow, offset: number): EndpointWindow => ({
+  earliest: window.earliest + offset,
+  latest: window.latest + offset,
+});
+
 interface TimelineTrackProps {
   onEditNode?: (nodeId: NodeId) => void;
   onEditRelationship?: (relationshipId: RelationshipId) => void;
 }
 
 export function TimelineTrack({ onEditNode, onEditRelationship }: TimelineTrackProps) {
-  const { state, solverResult, selectNode } = useTimeline();
+  const { state, solverResult, selectNode, highlightedRelationshipIds, analysis } = useTimeline();
   const { nodes, nodeOrder, relationships, relationshipOrder, selectedNodeId } = state;
 
   // Get positions from solver result, or create default positions
-  const positions = useMemo(() => {
+  const solvedPositions = useMemo(() => {
     if (solverResult?.positions) {
       return solverResult.positions;
     }
@@ -41,6 +75,39 @@ export function TimelineTrack({ onEditNode, onEditRelationship }: TimelineTrackP
     }));
   }, [solverResult, nodes, nodeOrder]);
 
+  // Each component is laid out across the whole display scale, so give each
+  // its own stretch of the track, one after another
+  const { segments, offsets, trackWidth } = useMemo(() => {
+    const components = solverResult?.components ?? [];
+    const { offsets, stretches, width } = placeComponents(components, solvedPositions);
+    const segments = stretches.map(({ offset, width }, index): TrackSegment => {
+      const component = components[index];
+      const nodeIds = component?.nodeIds ?? [];
+      const events = `${String(nodeIds.length)} event${nodeIds.length === 1 ? '' : 's'}`;
+      let label = `Group ${String(index + 1)} · ${events}`;
+      if (component?.status === 'unsatisfiable') label += ' · contradictory';
+      else if (component && component.relaxedIds.length > 0) {
+        label += ` · ${String(component.relaxedIds.length)} relaxed`;
+      }
+      return {
+        id: nodeIds[0] ?? String(index),
+        offset,
+        width,
+        label,
+        status: component?.status ?? 'satisfiable',
+      };
+    });
+    return { segments, offsets, trackWidth: Math.max(TIMELINE_WIDTH, width) };
+  }, [solverResult, solvedPositions]);
+
+  const positions = useMemo(() => {
+    if (offsets.size === 0) return solvedPositions;
+    return solvedPositions.map((pos): SolvedPosition => {
+      const offset = offsets.get(pos.nodeId) ?? 0;
+      return { ...pos, start: pos.start + offset, end: pos.end + offset };
+    });
+  }, [solvedPositions, offsets]);
+
   // Separate instants from intervals for layering
   const { instants, intervals } = useMemo(() => {
     const instants: { node: typeof nodes[string]; position: SolvedPosition }[] = [];
@@ -69,17 +136,21 @@ export function TimelineTrack({ onEditNode, onEditRelationship }: TimelineTrackP
     return map;
   }, [positions]);
 
-  // Get relationships involving the selected node
-  const selectedRelationships = useMemo(() => {
-    if (!selectedNodeId) return [];
+  const highlightedIds = useMemo(
+    () => new Set(highlightedRelationshipIds),
+    [highlightedRelationshipIds]
+  );
 
+  // Get relationships involving the selected node, plus any highlighted ones
+  const selectedRelationships = useMemo(() => {
     return relationshipOrder
       .map((id) => relationships[id])
-      .filter((rel) => {
+      .filter((rel): rel is TemporalRelationship => {
         if (!rel?.enabled) return false;
+        if (highlightedIds.has(rel.id)) return true;
         return rel.sourceId === selectedNodeId || rel.targetId === selectedNodeId;
       });
-  }, [selectedNodeId, relationships, relationshipOrder]);
+  }, [selectedNodeId, highlightedIds, relationships, relationshipOrder]);
 
   // Get set of violated relationship IDs
   const violatedRelationshipIds = useMemo(() => {
@@ -104,9 +175,42 @@ export function TimelineTrack({ onEditNode, onEditRelationship }: TimelineTrackP
         }
       }
     }
+    // Nodes whose own duration or pin is part of a contradiction
+    for (const conflict of solverResult?.conflicts ?? []) {
+      for (const constraint of [...conflict.nodeConstraints, ...conflict.pins]) {
+        ids.add(constraint.nodeId);
+      }
+    }
     return ids;
   }, [solverResult, relationships]);
 
+  // Uncertainty windows for enabled nodes
+  const slack = useMemo(() => {
+    return (solverResult?.slack ?? [])
+      .filter((entry) => nodes[entry.nodeId]?.enabled)
+      .map((entry) => {
+        const offset = offsets.get(entry.nodeId) ?? 0;
+        return {
+          ...entry,
+          start: shiftWindow(entry.start, offset),
+          end: shiftWindow(entry.end, offset),
+        };
+      });
+  }, [solverResult, nodes, offsets]);
+
+  // Where each node started across the sampled timelines, once analysed
+  const distributions = useMemo(() => {
+    return (analysis?.distributions ?? [])
+      .filter((entry) => nodes[entry.nodeId]?.enabled)
+      .map((entry) => ({
+        ...entry,
+        range: shiftWindow(entry.range, offsets.get(entry.nodeId) ?? 0),
+      }));
+  }, [analysis, nodes, offsets]);
+
+  const describePin = (pin: NodePin): string =>
+    formatPin(pin, pin.relativeTo !== undefined ? nodes[pin.relativeTo]?.name : undefined);
+
   const handleNodeClick = (nodeId: string) => {
     if (selectedNodeId === nodeId && onEditNode) {
       // Clicking already-selected node opens editor
@@ -121,12 +225,65 @@ export function TimelineTrack({ onEditNode, onEditRelationship }: TimelineTrackP
   };
 
   return (
-    <div className="timeline-track" onClick={handleBackgroundClick}>
+    <div className="timeline-track" style={{ width: trackWidth }} onClick={handleBackgroundClick}>
       {/* Timeline axis */}
-      <div className="timeline-axis" style={{ width: TIMELINE_WIDTH }}>
+      <div className="timeline-axis" style={{ width: trackWidth }}>
         <div className="timeline-axis-line" />
       </div>
 
+      {/* Separate stretches for the parts of the timeline solved apart */}
+      {segments.map((segment, index) => (
+        <div
+          key={segment.id}
+          className={`timeline-segment ${index > 0 ? 'timeline-segment--divided' : ''}`}
+          style={{ left: segment.offset, width: segment.width }}
+        >
+          <span className={`timeline-segment-label timeline-segment-label--${segment.status}`}>
+            {segment.label}
+          </span>
+        </div>
+      ))}
+
+      {/* Analysis bands: where each node started in most samples */}
+      <div className="timeline-analysis">
+        {distributions.map((entry) => (
+          <AnalysisBand
+            key={entry.nodeId}
+            range={entry.range}
+            isSelected={selectedNodeId === entry.nodeId}
+          />
+        ))}
+      </div>
+
+      {/* Slack whiskers: how far each endpoint could move */}
+      <div className="timeline-slack">
+        {slack.map((entry) => {
+          const isInterval = nodes[entry.nodeId]?.durationType === 'interval';
+          const isSelected = selectedNodeId === entry.nodeId;
+          return isInterval ? (
+            <div key={entry.nodeId}>
+              <SlackWhisker
+                window={entry.start}
+                offset={-INTERVAL_WHISKER_OFFSET}
+                isSelected={isSelected}
+              />
+              <SlackWhisker
+                window={entry.end}
+                offset={INTERVAL_WHISKER_OFFSET}
+                isSelected={isSelected}
+              />
+            </div>
+          ) : (
+            <SlackWhisker
+              key={entry.nodeId}
+              window={entry.start}
+              offset={INSTANT_WHISKER_OFFSET}
+              isSelected={isSelected}
+            />
+          );
+        })}
+      </div>
+
       {/* Intervals (rendered below instants) */}
       <div className="timeline-intervals">
         {intervals.map(({ node, position }) => (
@@ -136,6 +293,7 @@ export function TimelineTrack({ onEditNode, onEditRelationship }: TimelineTrackP
             position={position}
             isSelected={selectedNodeId === node.id}
             hasConflict={conflictNodeIds.has(node.id)}
+            pinDescription={node.pin ? describePin(node.pin) : null}
             onClick={(e) => {
               e.stopPropagation();
               handleNodeClick(node.id);
@@ -153,6 +311,7 @@ export function TimelineTrack({ onEditNode, onEditRelationship }: TimelineTrackP
             position={position}
             isSelected={selectedNodeId === node.id}
             hasConflict={conflictNodeIds.has(node.id)}
+            pinDescription={node.pin ? describePin(node.pin) : null}
             onClick={(e) => {
               e.stopPropagation();
               handleNodeClick(node.id);
@@ -162,10 +321,10 @@ export function TimelineTrack({ onEditNode, onEditRelationship }: TimelineTrackP
       </div>
 
       {/* Relationship lines (SVG overlay) */}
-      {selectedNodeId && selectedRelationships.length > 0 && (
+      {selectedRelationships.length > 0 && (
         <svg
           className="relationship-lines-container"
-          width={TIMELINE_WIDTH}
+          width={trackWidth}
           height={TIMELINE_HEIGHT}
           style={{
             position: 'absolute',
@@ -195,6 +354,7 @@ export function TimelineTrack({ onEditNode, onEditRelationship }: TimelineTrackP
                   sourcePosition={sourcePosition}
                   targetPosition={targetPosition}
                   isViolated={violatedRelationshipIds.has(rel.id)}
+                  isHighlighted={highlightedIds.has(rel.id)}
                   onClick={onEditRelationship}
                 />
               );
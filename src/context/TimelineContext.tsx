@@ -11,6 +11,7 @@ import {
 import { produce } from 'immer';
 import { v4 as uuidv4 } from 'uuid';
 import type {
+  AllenRelation,
   NodeId,
   RelationshipId,
   TimelineNode,
@@ -22,8 +23,14 @@ import type {
   Viewport,
   SerializedTimeline,
   SolverResult,
+  SolverSettings,
+  SolveProgress,
+  MonteCarloResult,
+  AnalysisProgress,
 } from '../types';
-import { useSolver } from '../hooks/useSolver';
+import { DEFAULT_SOLVER_SETTINGS } from '../types';
+import { useSolver, type AskSolver, type SolveStop } from '../hooks/useSolver';
+import { useAnalysis } from '../hooks/useAnalysis';
 import { DEFAULT_TIMELINE, isFirstVisit } from '../data/defaultTimeline';
 
 // =====================================
@@ -46,6 +53,7 @@ const createInitialTimelineState = (): TimelineState => ({
   selectedNodeId: null,
   selectedRelationshipId: null,
   viewport: { panX: 0, zoom: 1 },
+  settings: { ...DEFAULT_SOLVER_SETTINGS },
 });
 
 // =====================================
@@ -84,6 +92,10 @@ function timelineReducer(state: TimelineState, action: TimelineAction): Timeline
         draft.relationshipOrder = draft.relationshipOrder.filter(
           (rid) => !relationsToDelete.includes(rid)
         );
+        // Unpin nodes pinned relative to this node
+        for (const node of Object.values(draft.nodes)) {
+          if (node.pin?.relativeTo === id) delete node.pin;
+        }
         // Clear selection if deleted node was selected
         if (draft.selectedNodeId === id) {
           draft.selectedNodeId = null;
@@ -125,6 +137,18 @@ function timelineReducer(state: TimelineState, action: TimelineAction): Timeline
         break;
       }
 
+      case 'DELETE_RELATIONSHIPS': {
+        const ids = new Set(action.payload);
+        draft.relationships = Object.fromEntries(
+          Object.entries(draft.relationships).filter(([rid]) => !ids.has(rid))
+        );
+        draft.relationshipOrder = draft.relationshipOrder.filter((rid) => !ids.has(rid));
+        if (draft.selectedRelationshipId !== null && ids.has(draft.selectedRelationshipId)) {
+          draft.selectedRelationshipId = null;
+        }
+        break;
+      }
+
       case 'TOGGLE_RELATIONSHIP': {
         const id = action.payload;
         if (draft.relationships[id]) {
@@ -150,6 +174,11 @@ function timelineReducer(state: TimelineState, action: TimelineAction): Timeline
         break;
       }
 
+      case 'UPDATE_SETTINGS': {
+        Object.assign(draft.settings, action.payload);
+        break;
+      }
+
       case 'LOAD_STATE': {
         return action.payload;
       }
@@ -175,24 +204,27 @@ function createHistoryReducer<T, A>(
   ): HistoryState<T> {
     switch (historyAction.type) {
       case 'UNDO': {
-        if (state.past.length === 0) return state;
+        // Stepping back through history would split an open transaction
+        if (state.past.length === 0 || state.checkpoint !== null) return state;
         const previous = state.past[state.past.length - 1];
         const newPast = state.past.slice(0, -1);
         return {
           past: newPast,
           present: previous,
           future: [state.present, ...state.future],
+          checkpoint: null,
         };
       }
 
       case 'REDO': {
-        if (state.future.length === 0) return state;
+        if (state.future.length === 0 || state.checkpoint !== null) return state;
         const next = state.future[0];
         const newFuture = state.future.slice(1);
         return {
           past: [...state.past, state.present].slice(-maxHistory),
           present: next,
           future: newFuture,
+          checkpoint: null,
         };
       }
 
@@ -200,12 +232,36 @@ function createHistoryReducer<T, A>(
         const newPresent = reducer(state.present, historyAction.action);
         // Don't add to history if state didn't change
         if (newPresent === state.present) return state;
+        // Inside a transaction, history waits for the commit
+        if (state.checkpoint !== null) return { ...state, present: newPresent };
         return {
           past: [...state.past, state.present].slice(-maxHistory),
           present: newPresent,
           future: [], // Clear redo stack on new action
+          checkpoint: null,
         };
       }
+
+      case 'BEGIN_TRANSACTION': {
+        if (state.checkpoint !== null) return state;
+        return { ...state, checkpoint: state.present };
+      }
+
+      case 'COMMIT_TRANSACTION': {
+        if (state.checkpoint === null) return state;
+        if (state.present === state.checkpoint) return { ...state, checkpoint: null };
+        return {
+          past: [...state.past, state.checkpoint].slice(-maxHistory),
+          present: state.present,
+          future: [],
+          checkpoint: null,
+        };
+      }
+
+      case 'ROLLBACK_TRANSACTION': {
+        if (state.checkpoint === null) return state;
+        return { ...state, present: state.checkpoint, checkpoint: null };
+      }
     }
   };
 }
@@ -216,7 +272,13 @@ const historyReducer = createHistoryReducer(timelineReducer, MAX_HISTORY);
 // Persistence
 // =====================================
 
-const CURRENT_VERSION = 1;
+const CURRENT_VERSION = 2;
+
+/** Relationship as stored before version 2, when it held a single relation */
+type LegacyRelationship = Omit<TemporalRelationship, 'relations'> & {
+  relation?: AllenRelation;
+  relations?: AllenRelation[];
+};
 
 function serializeState(state: TimelineState): SerializedTimeline {
   return {
@@ -224,6 +286,7 @@ function serializeState(state: TimelineState): SerializedTimeline {
     nodes: Object.values(state.nodes),
     relationships: Object.values(state.relationships),
     viewport: state.viewport,
+    settings: state.settings,
   };
 }
 
@@ -246,6 +309,8 @@ function deserializeState(data: SerializedTimeline): TimelineState {
     selectedNodeId: null,
     selectedRelationshipId: null,
     viewport: data.viewport,
+    // Settings added later may be missing from saved data
+    settings: { ...DEFAULT_SOLVER_SETTINGS, ...data.settings },
   };
 }
 
@@ -275,8 +340,24 @@ function migrateData(data: SerializedTimeline): SerializedTimeline {
     migrated.version = 1;
   }
 
+  // Version 1 -> Version 2: a single relation becomes a set of allowed relations.
+  // A record with neither says nothing about how its events relate, so it is
+  // dropped rather than kept with no allowed relations.
+  if (migrated.version < 2) {
+    const legacy = migrated.relationships as LegacyRelationship[];
+    migrated.relationships = legacy.flatMap(({ relation, relations, ...rel }) => {
+      const allowed = relations ?? (relation ? [relation] : []);
+      return allowed.length > 0 ? [{ ...rel, relations: allowed }] : [];
+    });
+    const dropped = legacy.length - migrated.relationships.length;
+    if (dropped > 0) {
+      console.warn(`Dropped ${String(dropped)} saved relationships with no relation`);
+    }
+    migrated.version = 2;
+  }
+
   // Future migrations go here:
-  // if (migrated.version < 2) { ... migrated.version = 2; }
+  // if (migrated.version < 3) { ... migrated.version = 3; }
 
   return migrated;
 }
@@ -370,7 +451,22 @@ interface TimelineContextValue {
   canRedo: boolean;
   solverResult: SolverResult | null;
   isSolving: boolean;
+  /**
+   * Whether the solve for the timeline as it now stands has ended, one way
+   * or another; false from an edit on, including before its solve starts
+   */
+  solveSettled: boolean;
+  /** How far the running solve has got, once it has run for a moment */
+  solveProgress: SolveProgress | null;
+  /** Why the last solve stopped early, leaving the previous result in place */
+  solveStopped: SolveStop | null;
   storageError: string | null;
+  /** Relationships drawn on the timeline regardless of selection */
+  highlightedRelationshipIds: RelationshipId[];
+  /** Probabilistic analysis of the current timeline, once run */
+  analysis: MonteCarloResult | null;
+  analysisProgress: AnalysisProgress | null;
+  analysisError: string | null;
 
   // Node actions
   addNode: (node: Omit<TimelineNode, 'id' | 'createdAt' | 'updatedAt'>) => NodeId;
@@ -382,18 +478,29 @@ interface TimelineContextValue {
   addRelationship: (rel: Omit<TemporalRelationship, 'id' | 'createdAt' | 'updatedAt'>) => RelationshipId;
   updateRelationship: (id: RelationshipId, changes: Partial<TemporalRelationship>) => void;
   deleteRelationship: (id: RelationshipId) => void;
+  /** Delete several relationships as one undoable step */
+  deleteRelationships: (ids: RelationshipId[]) => void;
   toggleRelationship: (id: RelationshipId) => void;
 
   // Selection
   selectNode: (id: NodeId | null) => void;
   selectRelationship: (id: RelationshipId | null) => void;
+  highlightRelationships: (ids: RelationshipId[]) => void;
 
   // Viewport
   setViewport: (viewport: Viewport) => void;
 
+  // Settings
+  updateSettings: (changes: Partial<SolverSettings>) => void;
+
   // History
   undo: () => void;
   redo: () => void;
+  /** Group the following edits into one undoable step until committed */
+  beginTransaction: () => void;
+  commitTransaction: () => void;
+  /** Discard every edit since the transaction began */
+  rollbackTransaction: () => void;
 
   // Bulk
   loadState: (state: TimelineState) => void;
@@ -401,6 +508,14 @@ interface TimelineContextValue {
 
   // Solver
   triggerSolve: () => void;
+  /** Stop the running solve */
+  cancelSolve: () => void;
+  /** Solve again from scratch, dropping the current layout */
+  relayout: () => void;
+  /** Ask the solver worker a question, such as whether a relationship would conflict */
+  askSolver: AskSolver;
+  runAnalysis: () => void;
+  cancelAnalysis: () => void;
 }
 
 const TimelineContext = createContext<TimelineContextValue | null>(null);
@@ -415,6 +530,8 @@ interface TimelineProviderProps {
 
 export function TimelineProvider({ children }: TimelineProviderProps) {
   const [storageError, setStorageError] = useState<string | null>(null);
+  // Highlighting is a view concern, so it stays out of history
+  const [highlightedRelationshipIds, setHighlightedRelationshipIds] = useState<RelationshipId[]>([]);
 
   // Initialize with loaded state or default
   const initialState = useMemo(() => {
@@ -424,21 +541,35 @@ export function TimelineProvider({ children }: TimelineProviderProps) {
       past: [] as TimelineState[],
       present: data,
       future: [] as TimelineState[],
+      checkpoint: null,
     };
   }, []);
 
   const [historyState, dispatch] = useReducer(historyReducer, initialState);
 
   const state = historyState.present;
-  const canUndo = historyState.past.length > 0;
-  const canRedo = historyState.future.length > 0;
+  const inTransaction = historyState.checkpoint !== null;
+  const canUndo = historyState.past.length > 0 && !inTransaction;
+  const canRedo = historyState.future.length > 0 && !inTransaction;
 
   // Solver integration
   const {
     result: solverResult,
     isSolving,
+    isSettled: solveSettled,
+    progress: solveProgress,
+    stopped: solveStopped,
     triggerSolve,
-  } = useSolver(state.nodes, state.relationships);
+    cancelSolve,
+    request: askSolver,
+  } = useSolver(state.nodes, state.relationships, state.settings);
+  const {
+    result: analysis,
+    progress: analysisProgress,
+    error: analysisError,
+    runAnalysis,
+    cancelAnalysis,
+  } = useAnalysis(state.nodes, state.relationships, state.settings);
 
   // Auto-save effect
   useEffect(() => {
@@ -519,6 +650,13 @@ export function TimelineProvider({ children }: TimelineProviderProps) {
     [execute]
   );
 
+  const deleteRelationships = useCallback(
+    (ids: RelationshipId[]) => {
+      execute({ type: 'DELETE_RELATIONSHIPS', payload: ids });
+    },
+    [execute]
+  );
+
   const toggleRelationship = useCallback(
     (id: RelationshipId) => {
       execute({ type: 'TOGGLE_RELATIONSHIP', payload: id });
@@ -551,6 +689,13 @@ export function TimelineProvider({ children }: TimelineProviderProps) {
     []
   );
 
+  const updateSettings = useCallback(
+    (changes: Partial<SolverSettings>) => {
+      execute({ type: 'UPDATE_SETTINGS', payload: changes });
+    },
+    [execute]
+  );
+
   const undo = useCallback(() => {
     dispatch({ type: 'UNDO' });
   }, []);
@@ -559,6 +704,18 @@ export function TimelineProvider({ children }: TimelineProviderProps) {
     dispatch({ type: 'REDO' });
   }, []);
 
+  const beginTransaction = useCallback(() => {
+    dispatch({ type: 'BEGIN_TRANSACTION' });
+  }, []);
+
+  const commitTransaction = useCallback(() => {
+    dispatch({ type: 'COMMIT_TRANSACTION' });
+  }, []);
+
+  const rollbackTransaction = useCallback(() => {
+    dispatch({ type: 'ROLLBACK_TRANSACTION' });
+  }, []);
+
   const loadStateAction = useCallback(
     (newState: TimelineState) => {
       execute({ type: 'LOAD_STATE', payload: newState });
@@ -570,13 +727,24 @@ export function TimelineProvider({ children }: TimelineProviderProps) {
     execute({ type: 'RESET_STATE' });
   }, [execute]);
 
+  const relayout = useCallback(() => {
+    triggerSolve(true);
+  }, [triggerSolve]);
+
   const value: TimelineContextValue = {
     state,
     canUndo,
     canRedo,
     solverResult,
     isSolving,
+    solveSettled,
+    solveProgress,
+    solveStopped,
     storageError,
+    highlightedRelationshipIds,
+    analysis,
+    analysisProgress,
+    analysisError,
     addNode,
     updateNode,
     deleteNode,
@@ -584,15 +752,26 @@ export function TimelineProvider({ children }: TimelineProviderProps) {
     addRelationship,
     updateRelationship,
     deleteRelationship,
+    deleteRelationships,
     toggleRelationship,
     selectNode,
     selectRelationship,
+    highlightRelationships: setHighlightedRelationshipIds,
     setViewport,
+    updateSettings,
     undo,
     redo,
+    beginTransaction,
+    commitTransaction,
+    rollbackTransaction,
     loadState: loadStateAction,
     resetState,
     triggerSolve,
+    cancelSolve,
+    relayout,
+    askSolver,
+    runAnalysis,
+    cancelAnalysis,
   };
 
   return (
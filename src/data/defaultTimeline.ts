@@ -47,7 +47,7 @@ const defaultRelationships: TemporalRelationship[] = [
     id: 'dragons-before-erdtree',
     sourceId: 'age-of-dragons',
     targetId: 'age-of-erdtree',
-    relation: 'before',
+    relations: ['before'],
     confidence: 'explicit',
     reasoning: 'The dragons ruled before the Erdtree arrived with the Greater Will.',
     enabled: true,
@@ -58,7 +58,7 @@ const defaultRelationships: TemporalRelationship[] = [
     id: 'shattering-during-erdtree',
     sourceId: 'the-shattering',
     targetId: 'age-of-erdtree',
-    relation: 'during',
+    relations: ['during'],
     confidence: 'explicit',
     reasoning: 'The Shattering occurred during the Age of the Erdtree.',
     enabled: true,
@@ -68,7 +68,7 @@ const defaultRelationships: TemporalRelationship[] = [
 ];
 
 export const DEFAULT_TIMELINE: SerializedTimeline = {
-  version: 1,
+  version: 2,
   nodes: defaultNodes,
   relationships: defaultRelationships,
   viewport: { panX: 0, zoom: 1 },
@@ -0,0 +1,170 @@
+import type {
+  AllenRelation,
+  ConfidenceLevel,
+  TemporalRelationship,
+  TimelineNode,
+} from '../types';
+import { ALLEN_RELATIONS } from '../types';
+
+/**
+ * Shape of a generated timeline
+ */
+export interface RandomTimelineOptions {
+  nodeCount: number;
+  relationshipCount: number;
+  /** Share of relationships that contradict the hidden timeline */
+  contradictionRate?: number;
+  /** Share of relationships that allow a second relation as well */
+  disjunctionRate?: number;
+  /** Share of nodes that are instants rather than eras */
+  instantRate?: number;
+  /** Same seed, same timeline */
+  seed?: number;
+}
+
+/**
+ * Nodes and relationships of a generated timeline
+ */
+export interface RandomTimeline {
+  nodes: TimelineNode[];
+  relationships: TemporalRelationship[];
+}
+
+/**
+ * How far apart in the hidden order most related events are, since lore
+ * mostly relates events to their contemporaries
+ */
+const NEIGHBOURHOOD = 20;
+
+/**
+ * Share of relationships between events anywhere on the timeline
+ */
+const LONG_RANGE_RATE = 0.05;
+
+const CONFIDENCE_SHARES: [ConfidenceLevel, number][] = [
+  ['explicit', 0.3],
+  ['inferred', 0.4],
+  ['speculation', 0.3],
+];
+
+/**
+ * Small seeded generator of uniform numbers in [0, 1) (mulberry32)
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * The Allen relation that holds between two spans, instants having equal
+ * start and end
+ */
+function observeRelation(a: [number, number], b: [number, number]): AllenRelation {
+  const [aStart, aEnd] = a;
+  const [bStart, bEnd] = b;
+  if (aEnd < bStart) return 'before';
+  if (bEnd < aStart) return 'after';
+  if (aStart === bStart && aEnd === bEnd) return 'equals';
+  if (aEnd === bStart && aStart < aEnd) return 'meets';
+  if (bEnd === aStart && bStart < bEnd) return 'met-by';
+  if (aStart === bStart) return aEnd < bEnd ? 'starts' : 'started-by';
+  if (aEnd === bEnd) return aStart > bStart ? 'finishes' : 'finished-by';
+  if (aStart > bStart && aEnd < bEnd) return 'during';
+  if (aStart < bStart && aEnd > bEnd) return 'contains';
+  return aStart < bStart ? 'overlaps' : 'overlapped-by';
+}
+
+/**
+ * Generate a timeline for benchmarking the solver.
+ *
+ * Events are laid out on a hidden timeline first, and relationships state the
+ * relation that actually holds there between mostly nearby events, so the
+ * timeline is consistent apart from the share of relationships deliberately
+ * given a random relation instead. Those are always speculation, leaving the
+ * solver something to relax.
+ */
+export function generateRandomTimeline(options: RandomTimelineOptions): RandomTimeline {
+  const {
+    nodeCount,
+    relationshipCount,
+    contradictionRate = 0.01,
+    disjunctionRate = 0.1,
+    instantRate = 0.3,
+    seed = 1,
+  } = options;
+  const random = createRandom(seed);
+  const randomInt = (max: number) => Math.floor(random() * max);
+  const pick = <T>(items: readonly T[]): T => items[randomInt(items.length)] as T;
+
+  // Integer endpoints, so that some events share a start or an end
+  const spans: [number, number][] = [];
+  const nodes: TimelineNode[] = [];
+  for (let i = 0; i < nodeCount; i++) {
+    const isInstant = random() < instantRate;
+    const start = i * 10 + randomInt(10);
+    const end = isInstant ? start : start + 1 + randomInt(NEIGHBOURHOOD * 10);
+    spans.push([start, end]);
+    nodes.push({
+      id: `node-${String(i)}`,
+      name: `Event ${String(i + 1)}`,
+      description: '',
+      durationType: isInstant ? 'instant' : 'interval',
+      enabled: true,
+      createdAt: 0,
+      updatedAt: 0,
+    });
+  }
+
+  const relationships: TemporalRelationship[] = [];
+  if (nodeCount < 2) return { nodes, relationships };
+
+  for (let i = 0; i < relationshipCount; i++) {
+    const sourceIndex = randomInt(nodeCount);
+    let targetIndex = random() < LONG_RANGE_RATE
+      ? randomInt(nodeCount)
+      : sourceIndex + randomInt(2 * NEIGHBOURHOOD + 1) - NEIGHBOURHOOD;
+    targetIndex = Math.max(0, Math.min(nodeCount - 1, targetIndex));
+    if (targetIndex === sourceIndex) targetIndex = sourceIndex === 0 ? 1 : sourceIndex - 1;
+
+    const source = nodes[sourceIndex];
+    const target = nodes[targetIndex];
+    const sourceSpan = spans[sourceIndex];
+    const targetSpan = spans[targetIndex];
+    if (!source || !target || !sourceSpan || !targetSpan) continue;
+
+    const contradicts = random() < contradictionRate;
+    const relation = contradicts ? pick(ALLEN_RELATIONS) : observeRelation(sourceSpan, targetSpan);
+    const relations = random() < disjunctionRate
+      ? [...new Set([relation, pick(ALLEN_RELATIONS)])]
+      : [relation];
+
+    let confidence: ConfidenceLevel = 'speculation';
+    if (!contradicts) {
+      let roll = random();
+      for (const [level, share] of CONFIDENCE_SHARES) {
+        confidence = level;
+        roll -= share;
+        if (roll < 0) break;
+      }
+    }
+
+    relationships.push({
+      id: `rel-${String(i)}`,
+      sourceId: source.id,
+      targetId: target.id,
+      relations,
+      confidence,
+      enabled: true,
+      createdAt: 0,
+      updatedAt: 0,
+    });
+  }
+
+  return { nodes, relationships };
+}
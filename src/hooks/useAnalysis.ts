@@ -0,0 +1,109 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type {
+  AnalysisProgress,
+  MonteCarloResult,
+  SolverSettings,
+  TemporalRelationship,
+  TimelineNode,
+} from '../types';
+import { createSolverClient, type SolverClient } from '../solver/client';
+
+/**
+ * Data an analysis was run on. Results only describe the timeline while the
+ * nodes and relationships are the ones they were computed from.
+ */
+interface AnalysisRun {
+  nodes: Record<string, TimelineNode>;
+  relationships: Record<string, TemporalRelationship>;
+  progress: AnalysisProgress | null;
+  result: MonteCarloResult | null;
+}
+
+/**
+ * Hook for running probabilistic analysis on demand.
+ *
+ * Analysis can take many solves, so it gets a worker of its own rather than
+ * queueing behind the solver's. Starting a new run abandons the previous one,
+ * and editing the timeline hides results computed before the edit.
+ */
+export function useAnalysis(
+  nodes: Record<string, TimelineNode>,
+  relationships: Record<string, TemporalRelationship>,
+  settings: SolverSettings,
+) {
+  const clientRef = useRef<SolverClient | null>(null);
+  const [run, setRun] = useState<AnalysisRun | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const stopClient = useCallback(() => {
+    clientRef.current?.terminate();
+    clientRef.current = null;
+  }, []);
+
+  // Don't leave a run going after unmount
+  useEffect(() => stopClient, [stopClient]);
+
+  const runAnalysis = useCallback(() => {
+    stopClient();
+
+    const client = createSolverClient();
+    clientRef.current = client;
+
+    const finish = (changes: Partial<AnalysisRun>) => {
+      if (clientRef.current !== client) return;
+      setRun((current) => current && { ...current, progress: null, ...changes });
+      client.terminate();
+      clientRef.current = null;
+    };
+
+    client
+      .request(
+        'analyze',
+        {
+          nodes: Object.values(nodes).filter((n) => n.enabled),
+          relationships: Object.values(relationships).filter((r) => r.enabled),
+          settings,
+          samples: settings.analysisSamples,
+        },
+        {
+          onProgress: (progress) => {
+            if (clientRef.current !== client) return;
+            setRun((current) => current && { ...current, progress });
+          },
+        },
+      )
+      .then(
+        (result) => {
+          finish({ result });
+        },
+        (reason: unknown) => {
+          if (clientRef.current !== client) return;
+          setError(reason instanceof Error ? reason.message : String(reason));
+          finish({});
+        },
+      );
+
+    setError(null);
+    setRun({
+      nodes,
+      relationships,
+      progress: { completed: 0, total: settings.analysisSamples },
+      result: null,
+    });
+  }, [nodes, relationships, settings, stopClient]);
+
+  const cancelAnalysis = useCallback(() => {
+    stopClient();
+    setRun(null);
+  }, [stopClient]);
+
+  const isCurrent = run?.nodes === nodes && run.relationships === relationships;
+
+  return {
+    result: isCurrent ? run.result : null,
+    progress: isCurrent ? run.progress : null,
+    error,
+    runAnalysis,
+    cancelAnalysis,
+  };
+}
@@ -2,139 +2,91 @@ import { useEffect, useRef, useState, useCallback } from "react";
 import type {
   TimelineNode,
   TemporalRelationship,
+  SolveProgress,
   SolverResult,
+  SolverSettings,
+  SolvedPosition,
 } from "../types";
-import type {
-  SolverWorkerRequest,
-  SolverWorkerMessage,
-} from "../solver/solver.worker";
+import { createSolverClient, type SolverClient } from "../solver/client";
 
 // Debounce delay for auto-solving
 const SOLVE_DEBOUNCE_MS = 300;
-// Max retries for worker crash recovery
-const MAX_WORKER_RETRIES = 3;
-// Delay between worker recovery attempts
-const WORKER_RETRY_DELAY_MS = 100;
+// Longest a solve may run before the worker gives up on it
+export const SOLVE_TIMEOUT_MS = 60_000;
+
+/**
+ * Why the last solve stopped before it finished
+ */
+export type SolveStop = "cancelled" | "timeout";
+
+/**
+ * Ask the solver worker a question without waiting on the main thread
+ */
+export type AskSolver = SolverClient["request"];
 
 /**
  * Hook for managing the constraint solver.
  *
  * This hook:
- * - Manages a Web Worker for non-blocking solving
+ * - Keeps a solver client, whose worker solves without blocking the UI
  * - Debounces solve requests to avoid excessive computation
- * - Provides the latest solver result
- * - Automatically recovers from worker crashes
+ * - Provides the latest solver result, and progress while a solve runs
+ * - Says whether the solve for the timeline as it stands has ended, from
+ *   the moment of an edit rather than once the debounce is over
+ * - Cancels a running solve on request, or as soon as the timeline changes
+ *   again, and gives up on solves that run too long
+ * - Lets any component ask the worker other questions through `request`
  */
 export function useSolver(
   nodes: Record<string, TimelineNode>,
   relationships: Record<string, TemporalRelationship>,
+  settings: SolverSettings,
 ) {
-  const workerRef = useRef<Worker | null>(null);
-  const requestIdRef = useRef(0);
-  const pendingRequestRef = useRef<number | null>(null);
-  const retryCountRef = useRef(0);
-  const pendingDataRef = useRef<{
-    nodes: TimelineNode[];
-    relationships: TemporalRelationship[];
+  const clientRef = useRef<SolverClient | null>(null);
+  // Aborts the solve still running, if any
+  const pendingRef = useRef<AbortController | null>(null);
+  // Layout the next solve should stay close to, a list per component, and the
+  // settings it was made with: new settings deserve a fresh layout
+  const previousLayoutRef = useRef<{
+    positions: SolvedPosition[][];
+    settings: SolverSettings;
   } | null>(null);
 
   const [result, setResult] = useState<SolverResult | null>(null);
   const [isSolving, setIsSolving] = useState(false);
+  const [progress, setProgress] = useState<SolveProgress | null>(null);
+  const [stopped, setStopped] = useState<SolveStop | null>(null);
   const [error, setError] = useState<string | null>(null);
+  // Timeline the last solve to end, however it ended, was asked about
+  const [settledFor, setSettledFor] = useState<{
+    nodes: Record<string, TimelineNode>;
+    relationships: Record<string, TemporalRelationship>;
+    settings: SolverSettings;
+  } | null>(null);
 
-  /**
-   * Create a new worker instance with message handlers.
-   */
-  const createWorker = useCallback(() => {
-    const worker = new Worker(
-      new URL("../solver/solver.worker.ts", import.meta.url),
-      { type: "module" },
-    );
-
-    worker.onmessage = (
-      event: MessageEvent<SolverWorkerMessage | { type: "ready" }>,
-    ) => {
-      const message = event.data;
-
-      if (message.type === "ready") {
-        // Worker is ready - if we have pending data from a crash recovery, re-send it
-        if (pendingDataRef.current && pendingRequestRef.current !== null) {
-          const requestId = pendingRequestRef.current;
-          const request: SolverWorkerRequest = {
-            type: "solve",
-            input: pendingDataRef.current,
-            requestId,
-          };
-          worker.postMessage(request);
-        }
-        return;
-      }
-
-      if (message.type === "result") {
-        // Only accept result if it's from the latest request
-        if (message.requestId === pendingRequestRef.current) {
-          setResult(message.result);
-          setIsSolving(false);
-          setError(null);
-          pendingRequestRef.current = null;
-          pendingDataRef.current = null;
-          retryCountRef.current = 0; // Reset retry count on success
-        }
-      } else {
-        if (message.requestId === pendingRequestRef.current) {
-          setError(message.error);
-          setIsSolving(false);
-          pendingRequestRef.current = null;
-          pendingDataRef.current = null;
-        }
-      }
-    };
-
-    worker.onerror = (event) => {
-      console.error("Solver worker error:", event);
-
-      // Attempt to recover from crash
-      if (
-        retryCountRef.current < MAX_WORKER_RETRIES &&
-        pendingDataRef.current
-      ) {
-        retryCountRef.current++;
-        console.log(
-          `Worker crashed, attempting recovery (attempt ${String(retryCountRef.current)}/${String(MAX_WORKER_RETRIES)})...`,
-        );
-
-        // Terminate the crashed worker
-        worker.terminate();
-
-        // Create a new worker after a short delay
-        setTimeout(() => {
-          workerRef.current = createWorker();
-        }, WORKER_RETRY_DELAY_MS);
-      } else {
-        setError("Solver worker crashed");
-        setIsSolving(false);
-        pendingRequestRef.current = null;
-        pendingDataRef.current = null;
-        retryCountRef.current = 0;
-      }
-    };
-
-    return worker;
-  }, []);
-
-  // Initialize worker
+  // Initialize the client and its worker
   useEffect(() => {
-    workerRef.current = createWorker();
+    clientRef.current = createSolverClient();
 
     return () => {
-      workerRef.current?.terminate();
-      workerRef.current = null;
+      clientRef.current?.terminate();
+      clientRef.current = null;
     };
-  }, [createWorker]);
+  }, []);
 
-  // Trigger a solve
-  const triggerSolve = useCallback(() => {
-    if (!workerRef.current) return;
+  /**
+   * Forget the pending solve, telling the worker to stop it.
+   */
+  const abandonPending = useCallback(() => {
+    pendingRef.current?.abort();
+    pendingRef.current = null;
+  }, []);
+
+  // Trigger a solve, keeping the layout stable unless asked to start afresh
+  const triggerSolve = useCallback((freshLayout = false) => {
+    const client = clientRef.current;
+    if (!client) return;
+    abandonPending();
 
     // Get enabled nodes and relationships
     const enabledNodes = Object.values(nodes).filter((n) => n.enabled);
@@ -142,29 +94,87 @@ export function useSolver(
       (r) => r.enabled,
     );
 
-    // Store pending data for crash recovery
-    const inputData = {
-      nodes: enabledNodes,
-      relationships: enabledRelationships,
-    };
-    pendingDataRef.current = inputData;
+    const previous = previousLayoutRef.current;
+    const stable = !freshLayout && previous?.settings === settings;
 
-    // Create request
-    const requestId = ++requestIdRef.current;
-    pendingRequestRef.current = requestId;
+    const controller = new AbortController();
+    pendingRef.current = controller;
     setIsSolving(true);
+    setProgress(null);
+    setStopped(null);
+
+    void client
+      .request(
+        "solve",
+        {
+          nodes: enabledNodes,
+          relationships: enabledRelationships,
+          settings,
+          ...(stable && { previousPositions: previous.positions }),
+        },
+        {
+          signal: controller.signal,
+          timeoutMs: SOLVE_TIMEOUT_MS,
+          onProgress: setProgress,
+        },
+      )
+      .then(
+        (solved) => {
+          // Default positions of an unsatisfiable timeline are no layout to keep
+          if (solved.status !== "unsatisfiable") {
+            const byNode = new Map(solved.positions.map((pos) => [pos.nodeId, pos]));
+            const positions = solved.components.map((component) =>
+              component.nodeIds.flatMap((id) => byNode.get(id) ?? []),
+            );
+            previousLayoutRef.current = { positions, settings };
+          }
+          setResult(solved);
+          setError(null);
+        },
+        (reason: unknown) => {
+          // Whatever abandoned the solve has said why
+          if (controller.signal.aborted) return;
+          if (reason instanceof DOMException && reason.name === "TimeoutError") {
+            setStopped("timeout");
+          } else {
+            setError(reason instanceof Error ? reason.message : String(reason));
+          }
+        },
+      )
+      .finally(() => {
+        if (pendingRef.current !== controller) return;
+        pendingRef.current = null;
+        setIsSolving(false);
+        setProgress(null);
+        setSettledFor({ nodes, relationships, settings });
+      });
+  }, [nodes, relationships, settings, abandonPending]);
 
-    const request: SolverWorkerRequest = {
-      type: "solve",
-      input: inputData,
-      requestId,
-    };
-
-    workerRef.current.postMessage(request);
-  }, [nodes, relationships]);
+  /**
+   * Stop the running solve, keeping the last finished result
+   */
+  const cancelSolve = useCallback(() => {
+    if (pendingRef.current === null) return;
+    abandonPending();
+    setIsSolving(false);
+    setProgress(null);
+    setStopped("cancelled");
+    setSettledFor({ nodes, relationships, settings });
+  }, [nodes, relationships, settings, abandonPending]);
+
+  const request = useCallback<AskSolver>((kind, params, options) => {
+    const client = clientRef.current;
+    return client
+      ? client.request(kind, params, options)
+      : Promise.reject(new Error("Solver is not running"));
+  }, []);
 
   // Auto-solve on data changes (debounced)
   useEffect(() => {
+    // The running solve is for data that has just changed, so stop it now
+    // rather than when the next one starts
+    abandonPending();
+
     const timer = setTimeout(() => {
       triggerSolve();
     }, SOLVE_DEBOUNCE_MS);
@@ -172,13 +182,24 @@ export function useSolver(
     return () => {
       clearTimeout(timer);
     };
-  }, [nodes, relationships, triggerSolve]);
+  }, [nodes, relationships, settings, triggerSolve, abandonPending]);
+
+  // Unlike isSolving, this also covers the debounce before the solve starts
+  const isSettled =
+    settledFor?.nodes === nodes &&
+    settledFor.relationships === relationships &&
+    settledFor.settings === settings;
 
   return {
     result,
     isSolving,
+    isSettled,
+    progress,
+    stopped,
     error,
     triggerSolve,
+    cancelSolve,
+    request,
   };
 }
 
@@ -0,0 +1,155 @@
+import { describe, expect, it } from 'vitest';
+import { solve } from './solver';
+import {
+  composeRelationSets,
+  computeAllenClosure,
+  fromRelationSet,
+  getClosureRelations,
+  getEntailedRelations,
+  toRelationSet,
+} from './allen';
+import {
+  ALLEN_RELATIONS,
+  type AllenRelation,
+  type TemporalRelationship,
+  type TimelineNode,
+} from '../types';
+
+/** Allen's own symbols, as his table is written */
+const SYMBOLS: Record<string, AllenRelation> = {
+  '<': 'before',
+  '>': 'after',
+  m: 'meets',
+  mi: 'met-by',
+  o: 'overlaps',
+  oi: 'overlapped-by',
+  s: 'starts',
+  si: 'started-by',
+  f: 'finishes',
+  fi: 'finished-by',
+  d: 'during',
+  di: 'contains',
+  '=': 'equals',
+};
+
+const ALL = '< > m mi o oi s si f fi d di =';
+/** Every relation in which the two intervals share some time */
+const CONCUR = 'o oi s si f fi d di =';
+
+/**
+ * Allen's composition table (Allen 1983, Figure 4): if A r1 B and B r2 C,
+ * the relations that can hold between A and C. Rows are r1, columns r2 in
+ * the order of COLUMNS; "equals" composes as the identity and is left out.
+ */
+const COLUMNS = ['<', '>', 'd', 'di', 'o', 'oi', 'm', 'mi', 's', 'si', 'f', 'fi'];
+// prettier-ignore
+const PUBLISHED: Record<string, string[]> = {
+  '<': ['<', ALL, '< o m d s', '<', '<', '< o m d s', '<', '< o m d s', '<', '<', '< o m d s', '<'],
+  '>': [ALL, '>', '> oi mi d f', '>', '> oi mi d f', '>', '> oi mi d f', '>', '> oi mi d f', '>', '>', '>'],
+  d: ['<', '>', 'd', ALL, '< o m d s', '> oi mi d f', '<', '>', 'd', '> oi mi d f', 'd', '< o m d s'],
+  di: ['< o m di fi', '> oi mi di si', CONCUR, 'di', 'o di fi', 'oi di si', 'o di fi', 'oi di si', 'o di fi', 'di', 'oi di si', 'di'],
+  o: ['<', '> oi mi di si', 'o d s', '< o m di fi', '< o m', CONCUR, '<', 'oi di si', 'o', 'o di fi', 'o d s', '< o m'],
+  oi: ['< o m di fi', '>', 'oi d f', '> oi mi di si', CONCUR, '> oi mi', 'o di fi', '>', 'oi d f', '> oi mi', 'oi', 'oi di si'],
+  m: ['<', '> oi mi di si', 'o d s', '<', '<', 'o d s', '<', 'f fi =', 'm', 'm', 'o d s', '<'],
+  mi: ['< o m di fi', '>', 'oi d f', '>', 'oi d f', '>', 's si =', '>', 'oi d f', '>', 'mi', 'mi'],
+  s: ['<', '>', 'd', '< o m di fi', '< o m', 'oi d f', '<', 'mi', 's', 's si =', 'd', '< o m'],
+  si: ['< o m di fi', '>', 'oi d f', 'di', 'o di fi', 'oi', 'o di fi', 'mi', 's si =', 'si', 'oi', 'di'],
+  f: ['<', '>', 'd', '> oi mi di si', 'o d s', '> oi mi', 'm', '>', 'd', '> oi mi', 'f', 'f fi ='],
+  fi: ['<', '> oi mi di si', 'o d s', 'di', 'o', 'oi di si', 'm', 'oi di si', 'o', 'di', 'f fi =', 'fi'],
+};
+
+const relationOf = (symbol: string): AllenRelation => SYMBOLS[symbol] ?? 'equals';
+
+/** Relations in ALLEN_RELATIONS order, as a relation set lists them */
+const relationsOf = (symbols: string): AllenRelation[] => {
+  const listed = symbols.split(' ').map(relationOf);
+  return ALLEN_RELATIONS.filter((relation) => listed.includes(relation));
+};
+
+const interval = (id: string, name = id): TimelineNode => ({
+  id,
+  name,
+  description: '',
+  durationType: 'interval',
+  enabled: true,
+  createdAt: 0,
+  updatedAt: 0,
+});
+
+const relationship = (
+  id: string,
+  sourceId: string,
+  relation: AllenRelation,
+  targetId: string
+): TemporalRelationship => ({
+  id,
+  sourceId,
+  targetId,
+  relations: [relation],
+  confidence: 'explicit',
+  enabled: true,
+  createdAt: 0,
+  updatedAt: 0,
+});
+
+describe('composeRelationSets', () => {
+  const compose = (first: AllenRelation, second: AllenRelation): AllenRelation[] =>
+    fromRelationSet(
+      composeRelationSets(toRelationSet([first]), toRelationSet([second]), [
+        'interval',
+        'interval',
+        'interval',
+      ])
+    );
+  const entries = Object.entries(PUBLISHED).flatMap(([row, cells]) =>
+    cells.map((cell, column) => [row, COLUMNS[column] ?? '=', cell])
+  );
+
+  it.each(entries)('matches Allen’s table for %s ∘ %s', (first, second, expected) => {
+    expect(compose(relationOf(first), relationOf(second))).toEqual(relationsOf(expected));
+  });
+
+  it.each(ALLEN_RELATIONS)('composes %s with equals as the identity', (relation) => {
+    expect(compose(relation, 'equals')).toEqual([relation]);
+    expect(compose('equals', relation)).toEqual([relation]);
+  });
+});
+
+describe('computeAllenClosure', () => {
+  const nodes = [
+    interval('dragons', 'Age of Dragons'),
+    interval('erdtree', 'Age of Erdtree'),
+    interval('shattering', 'Shattering'),
+  ];
+  const relationships = [
+    relationship('r1', 'dragons', 'before', 'erdtree'),
+    relationship('r2', 'shattering', 'during', 'erdtree'),
+  ];
+
+  it('entails that an age before another is before what happens during it', () => {
+    const closure = computeAllenClosure(nodes, relationships);
+
+    expect(closure.consistent).toBe(true);
+    expect(fromRelationSet(getClosureRelations(closure, 'dragons', 'shattering'))).toEqual([
+      'before',
+    ]);
+    expect(fromRelationSet(getClosureRelations(closure, 'shattering', 'dragons'))).toEqual([
+      'after',
+    ]);
+    expect(getEntailedRelations(closure, nodes, relationships)).toEqual([
+      { sourceId: 'dragons', targetId: 'shattering', relations: ['before'] },
+    ]);
+  });
+
+  it('reports the entailed relation on the solver result', () => {
+    expect(solve({ nodes, relationships }).entailedRelations).toEqual([
+      { sourceId: 'dragons', targetId: 'shattering', relations: ['before'] },
+    ]);
+  });
+
+  it('finds a relationship against the entailed one inconsistent', () => {
+    const cycle = [...relationships, relationship('r3', 'shattering', 'before', 'dragons')];
+
+    expect(computeAllenClosure(nodes, cycle).consistent).toBe(false);
+  });
+});
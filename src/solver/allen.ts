@@ -0,0 +1,454 @@
+import type {
+  AllenRelation,
+  DurationType,
+  EntailedRelation,
+  NodeId,
+  TemporalRelationship,
+  TimelineNode,
+} from '../types';
+import { ALLEN_RELATIONS, getInverseRelation } from '../types';
+import {
+  allenToConstraints,
+  getNodeVariables,
+  type DifferenceConstraint,
+} from './constraints';
+
+/**
+ * A set of Allen relations encoded as a bitmask, one bit per relation
+ * in ALLEN_RELATIONS order.
+ */
+export type RelationSet = number;
+
+export const EMPTY_RELATION_SET: RelationSet = 0;
+
+const RELATION_INDEX = new Map<AllenRelation, number>(
+  ALLEN_RELATIONS.map((relation, index) => [relation, index])
+);
+
+/**
+ * Get the single-relation set for an Allen relation
+ */
+export function relationBit(relation: AllenRelation): RelationSet {
+  return 1 << (RELATION_INDEX.get(relation) ?? 0);
+}
+
+/**
+ * Convert a list of relations to a relation set
+ */
+export function toRelationSet(relations: AllenRelation[]): RelationSet {
+  let set = EMPTY_RELATION_SET;
+  for (const relation of relations) {
+    set |= relationBit(relation);
+  }
+  return set;
+}
+
+/**
+ * Convert a relation set back to a list of relations (in ALLEN_RELATIONS order)
+ */
+export function fromRelationSet(set: RelationSet): AllenRelation[] {
+  return ALLEN_RELATIONS.filter((relation) => (set & relationBit(relation)) !== 0);
+}
+
+// =====================================
+// Endpoint Semantics
+// =====================================
+
+/**
+ * Classify the configuration of two intervals into exactly one Allen relation.
+ *
+ * Instants are intervals whose start equals their end. For those, several
+ * textbook relations can hold at once (an instant at the start of an era both
+ * "meets" and "starts" it), so the checks below run in a fixed order to give
+ * one canonical relation per configuration. The order is symmetric, so
+ * classifying (B, A) always yields the inverse of classifying (A, B).
+ */
+function classify(
+  aStart: number,
+  aEnd: number,
+  bStart: number,
+  bEnd: number
+): AllenRelation {
+  if (aEnd < bStart) return 'before';
+  if (bEnd < aStart) return 'after';
+  if (aStart === bStart && aEnd === bEnd) return 'equals';
+  if (aEnd === bStart) return 'meets';
+  if (bEnd === aStart) return 'met-by';
+  if (aStart === bStart) return aEnd < bEnd ? 'starts' : 'started-by';
+  if (aEnd === bEnd) return aStart > bStart ? 'finishes' : 'finished-by';
+  if (aStart > bStart && aEnd < bEnd) return 'during';
+  if (aStart < bStart && aEnd > bEnd) return 'contains';
+  return aStart < bStart ? 'overlaps' : 'overlapped-by';
+}
+
+/**
+ * All (start, end) rank pairs for an endpoint of the given shape.
+ * Ranks 0..maxRank are enough to realise every weak ordering of the points.
+ */
+function shapedEndpoints(shape: DurationType, maxRank: number): [number, number][] {
+  const result: [number, number][] = [];
+  for (let start = 0; start <= maxRank; start++) {
+    if (shape === 'instant') {
+      result.push([start, start]);
+      continue;
+    }
+    for (let end = start + 1; end <= maxRank; end++) {
+      result.push([start, end]);
+    }
+  }
+  return result;
+}
+
+/**
+ * Check whether concrete endpoint values satisfy a set of difference constraints
+ */
+function satisfies(
+  constraints: DifferenceConstraint[],
+  values: Map<string, number>
+): boolean {
+  return constraints.every(({ from, to, maxDiff, strict }) => {
+    const fromValue = values.get(from) ?? 0;
+    const toValue = values.get(to) ?? 0;
+    return strict ? toValue - fromValue < maxDiff : toValue - fromValue <= maxDiff;
+  });
+}
+
+const domainCache = new Map<string, RelationSet>();
+
+/**
+ * Get the canonical relations that a stated relation allows between two
+ * nodes of the given shapes. Derived from the same difference constraints
+ * the STN uses, so the algebra never disagrees with the solver.
+ */
+export function relationDomain(
+  relation: AllenRelation | null,
+  sourceShape: DurationType,
+  targetShape: DurationType
+): RelationSet {
+  const key = `${relation ?? '*'}|${sourceShape}|${targetShape}`;
+  const cached = domainCache.get(key);
+  if (cached !== undefined) return cached;
+
+  const A = getNodeVariables('a');
+  const B = getNodeVariables('b');
+  const constraints = relation ? allenToConstraints('a', 'b', relation) : [];
+
+  let set = EMPTY_RELATION_SET;
+  for (const [aStart, aEnd] of shapedEndpoints(sourceShape, 3)) {
+    for (const [bStart, bEnd] of shapedEndpoints(targetShape, 3)) {
+      const values = new Map([
+        [A.start, aStart],
+        [A.end, aEnd],
+        [B.start, bStart],
+        [B.end, bEnd],
+      ]);
+      if (satisfies(constraints, values)) {
+        set |= relationBit(classify(aStart, aEnd, bStart, bEnd));
+      }
+    }
+  }
+
+  domainCache.set(key, set);
+  return set;
+}
+
+// =====================================
+// Composition Table
+// =====================================
+
+const RELATION_COUNT = ALLEN_RELATIONS.length;
+
+const compositionTables = new Map<string, Uint16Array>();
+
+/**
+ * Build the composition table for a triple of node shapes by enumerating
+ * every ordering of the six endpoints. For proper intervals this reproduces
+ * Allen's original table; for instants it stays sound where the textbook
+ * table would not be (e.g. "meets ∘ meets" through an instant is "meets").
+ */
+function getCompositionTable(
+  shapes: [DurationType, DurationType, DurationType]
+): Uint16Array {
+  const key = shapes.join('|');
+  const cached = compositionTables.get(key);
+  if (cached) return cached;
+
+  const table = new Uint16Array(RELATION_COUNT * RELATION_COUNT);
+  const [aShape, bShape, cShape] = shapes;
+
+  for (const [aStart, aEnd] of shapedEndpoints(aShape, 5)) {
+    for (const [bStart, bEnd] of shapedEndpoints(bShape, 5)) {
+      const ab = RELATION_INDEX.get(classify(aStart, aEnd, bStart, bEnd)) ?? 0;
+      for (const [cStart, cEnd] of shapedEndpoints(cShape, 5)) {
+        const bc = RELATION_INDEX.get(classify(bStart, bEnd, cStart, cEnd)) ?? 0;
+        const index = ab * RELATION_COUNT + bc;
+        table[index] =
+          (table[index] ?? 0) | relationBit(classify(aStart, aEnd, cStart, cEnd));
+      }
+    }
+  }
+
+  compositionTables.set(key, table);
+  return table;
+}
+
+/**
+ * Compose two relation sets: if A r1 B and B r2 C, which relations can hold
+ * between A and C?
+ */
+export function composeRelationSets(
+  first: RelationSet,
+  second: RelationSet,
+  shapes: [DurationType, DurationType, DurationType]
+): RelationSet {
+  const table = getCompositionTable(shapes);
+  let result = EMPTY_RELATION_SET;
+  for (let i = 0; i < RELATION_COUNT; i++) {
+    if ((first & (1 << i)) === 0) continue;
+    for (let j = 0; j < RELATION_COUNT; j++) {
+      if ((second & (1 << j)) === 0) continue;
+      result |= table[i * RELATION_COUNT + j] ?? 0;
+    }
+  }
+  return result;
+}
+
+/**
+ * Invert every relation in a set (A r B becomes B r⁻¹ A)
+ */
+export function invertRelationSet(set: RelationSet): RelationSet {
+  let result = EMPTY_RELATION_SET;
+  for (const relation of fromRelationSet(set)) {
+    result |= relationBit(getInverseRelation(relation));
+  }
+  return result;
+}
+
+// =====================================
+// Conceptual Neighbourhood
+// =====================================
+
+/**
+ * Pairs of relations one endpoint shift apart: moving a single endpoint of
+ * either interval a little turns one into the other. These are Freksa's
+ * A-neighbours, under which the relations form a connected graph running
+ * from before to after.
+ */
+const NEIGHBOURING_RELATIONS: [AllenRelation, AllenRelation][] = [
+  ['before', 'meets'],
+  ['meets', 'overlaps'],
+  ['overlaps', 'starts'],
+  ['overlaps', 'finished-by'],
+  ['starts', 'during'],
+  ['starts', 'equals'],
+  ['finished-by', 'contains'],
+  ['finished-by', 'equals'],
+  ['during', 'finishes'],
+  ['contains', 'started-by'],
+  ['equals', 'finishes'],
+  ['equals', 'started-by'],
+  ['finishes', 'overlapped-by'],
+  ['started-by', 'overlapped-by'],
+  ['overlapped-by', 'met-by'],
+  ['met-by', 'after'],
+];
+
+const CONCEPTUAL_NEIGHBOURS = new Map<AllenRelation, AllenRelation[]>(
+  ALLEN_RELATIONS.map((relation) => [
+    relation,
+    NEIGHBOURING_RELATIONS.flatMap(([a, b]) => (a === relation ? [b] : b === relation ? [a] : [])),
+  ])
+);
+
+/**
+ * Get the relations one endpoint shift away from a relation
+ */
+export function getConceptualNeighbours(relation: AllenRelation): AllenRelation[] {
+  return CONCEPTUAL_NEIGHBOURS.get(relation) ?? [];
+}
+
+// =====================================
+// Path Consistency
+// =====================================
+
+/**
+ * Qualitative network of possible Allen relations between every pair of nodes
+ */
+export interface AllenClosure {
+  /** False if path consistency emptied some pair's relation set */
+  consistent: boolean;
+  /** Node IDs in matrix order */
+  nodeIds: NodeId[];
+  /** Possible relations from node i to node j, stored at i * n + j */
+  relations: Uint16Array;
+}
+
+/**
+ * Compute the path-consistent closure of the relationships over Allen's
+ * composition table (PC-2).
+ *
+ * Every pair of nodes starts with all relations its shapes allow. Stated
+ * relationships narrow their pair, and each narrowed pair is propagated
+ * through every third node until nothing changes. Path consistency is sound
+ * but not complete for the full algebra: an empty set proves a contradiction,
+ * while a non-empty result is only a superset of what is truly possible.
+ *
+ * Time complexity: O(n³) in the number of nodes
+ */
+export function computeAllenClosure(
+  nodes: TimelineNode[],
+  relationships: TemporalRelationship[]
+): AllenClosure {
+  const n = nodes.length;
+  const nodeIds = nodes.map((node) => node.id);
+  const shapes = nodes.map((node) => node.durationType);
+  const indexOf = new Map(nodeIds.map((id, index) => [id, index]));
+  const relations = new Uint16Array(n * n);
+
+  const shapeAt = (i: number): DurationType => shapes[i] ?? 'instant';
+  const get = (i: number, j: number): RelationSet => relations[i * n + j] ?? 0;
+  const set = (i: number, j: number, value: RelationSet) => {
+    relations[i * n + j] = value;
+    relations[j * n + i] = invertRelationSet(value);
+  };
+
+  for (let i = 0; i < n; i++) {
+    relations[i * n + i] = relationBit('equals');
+    for (let j = i + 1; j < n; j++) {
+      set(i, j, relationDomain(null, shapeAt(i), shapeAt(j)));
+    }
+  }
+
+  const queued = new Uint8Array(n * n);
+  const queue: [number, number][] = [];
+  const enqueue = (i: number, j: number) => {
+    const [a, b] = i < j ? [i, j] : [j, i];
+    if (queued[a * n + b]) return;
+    queued[a * n + b] = 1;
+    queue.push([a, b]);
+  };
+
+  for (const rel of relationships) {
+    const i = indexOf.get(rel.sourceId);
+    const j = indexOf.get(rel.targetId);
+    if (i === undefined || j === undefined || i === j) continue;
+
+    if (rel.relations.length === 0) continue;
+
+    let stated = EMPTY_RELATION_SET;
+    for (const relation of rel.relations) {
+      stated |= relationDomain(relation, shapeAt(i), shapeAt(j));
+    }
+    set(i, j, get(i, j) & stated);
+    if (get(i, j) === EMPTY_RELATION_SET) {
+      return { consistent: false, nodeIds, relations };
+    }
+    enqueue(i, j);
+  }
+
+  // Looked up for every revision, so resolve the four shape pairs up front
+  const universal = {
+    instant: {
+      instant: relationDomain(null, 'instant', 'instant'),
+      interval: relationDomain(null, 'instant', 'interval'),
+    },
+    interval: {
+      instant: relationDomain(null, 'interval', 'instant'),
+      interval: relationDomain(null, 'interval', 'interval'),
+    },
+  };
+  const isUniversal = (i: number, j: number): boolean =>
+    get(i, j) === universal[shapeAt(i)][shapeAt(j)];
+
+  // Tighten (a, c) through b; returns false on contradiction
+  const revise = (a: number, b: number, c: number): boolean => {
+    if (isUniversal(a, b) || isUniversal(b, c)) return true;
+
+    const current = get(a, c);
+    const composed = composeRelationSets(get(a, b), get(b, c), [
+      shapeAt(a),
+      shapeAt(b),
+      shapeAt(c),
+    ]);
+    const narrowed = current & composed;
+
+    if (narrowed !== current) {
+      set(a, c, narrowed);
+      if (narrowed === EMPTY_RELATION_SET) return false;
+      enqueue(a, c);
+    }
+    return true;
+  };
+
+  while (queue.length > 0) {
+    const next = queue.pop();
+    if (!next) break;
+    const [i, j] = next;
+    queued[i * n + j] = 0;
+
+    for (let k = 0; k < n; k++) {
+      if (k === i || k === j) continue;
+      if (!revise(i, j, k) || !revise(k, i, j)) {
+        return { consistent: false, nodeIds, relations };
+      }
+    }
+  }
+
+  return { consistent: true, nodeIds, relations };
+}
+
+/**
+ * Look up the possible relations between two nodes in a closure
+ */
+export function getClosureRelations(
+  closure: AllenClosure,
+  sourceId: NodeId,
+  targetId: NodeId
+): RelationSet {
+  const n = closure.nodeIds.length;
+  const i = closure.nodeIds.indexOf(sourceId);
+  const j = closure.nodeIds.indexOf(targetId);
+  if (i === -1 || j === -1) return EMPTY_RELATION_SET;
+  return closure.relations[i * n + j] ?? EMPTY_RELATION_SET;
+}
+
+/**
+ * List the informative relations the closure entails between nodes that no
+ * relationship connects directly.
+ */
+export function getEntailedRelations(
+  closure: AllenClosure,
+  nodes: TimelineNode[],
+  relationships: TemporalRelationship[]
+): EntailedRelation[] {
+  if (!closure.consistent) return [];
+
+  const n = nodes.length;
+  const directPairs = new Set<string>();
+  for (const rel of relationships) {
+    directPairs.add(`${rel.sourceId}|${rel.targetId}`);
+    directPairs.add(`${rel.targetId}|${rel.sourceId}`);
+  }
+
+  const entailed: EntailedRelation[] = [];
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      const source = nodes[i];
+      const target = nodes[j];
+      if (!source || !target) continue;
+      if (directPairs.has(`${source.id}|${target.id}`)) continue;
+
+      const possible = closure.relations[i * n + j] ?? 0;
+      const domain = relationDomain(null, source.durationType, target.durationType);
+      if (possible === domain) continue;
+
+      entailed.push({
+        sourceId: source.id,
+        targetId: target.id,
+        relations: fromRelationSet(possible),
+      });
+    }
+  }
+
+  return entailed;
+}
@@ -0,0 +1,183 @@
+import type {
+  AnalysisProgress,
+  NodeId,
+  OrderClass,
+  RelationshipSuggestion,
+  TemporalRelationship,
+  TimelineNode,
+  UndeterminedPair,
+} from '../types';
+import {
+  computeAllenClosure,
+  fromRelationSet,
+  toRelationSet,
+  type AllenClosure,
+  type RelationSet,
+} from './allen';
+import { runSteps, type Steps } from './steps';
+
+/**
+ * Relations making up each order class
+ */
+const ORDER_CLASS_RELATIONS: Record<OrderClass, RelationSet> = {
+  precedes: toRelationSet(['before', 'meets']),
+  follows: toRelationSet(['after', 'met-by']),
+  concurrent: toRelationSet([
+    'overlaps',
+    'overlapped-by',
+    'starts',
+    'started-by',
+    'finishes',
+    'finished-by',
+    'during',
+    'contains',
+    'equals',
+  ]),
+};
+
+const ORDER_CLASSES: OrderClass[] = ['precedes', 'follows', 'concurrent'];
+
+/**
+ * Upper bound on candidate relationships scored per request. Each one costs a
+ * full path consistency pass.
+ */
+const MAX_SUGGESTION_CANDIDATES = 8;
+
+/**
+ * Number of suggestions reported
+ */
+const MAX_SUGGESTIONS = 10;
+
+/**
+ * Orders still possible for a pair, given its possible relations
+ */
+function possibleOrders(possible: RelationSet): OrderClass[] {
+  return ORDER_CLASSES.filter((order) => (possible & ORDER_CLASS_RELATIONS[order]) !== 0);
+}
+
+/**
+ * Find every pair of nodes whose order the closure leaves open: more than one
+ * of before, after, and at the same time is still possible.
+ */
+export function findUndeterminedPairs(
+  closure: AllenClosure,
+  nodes: TimelineNode[]
+): UndeterminedPair[] {
+  if (!closure.consistent) return [];
+
+  const n = nodes.length;
+  const pairs: UndeterminedPair[] = [];
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      const source = nodes[i];
+      const target = nodes[j];
+      if (!source || !target) continue;
+
+      const orders = possibleOrders(closure.relations[i * n + j] ?? 0);
+      if (orders.length > 1) {
+        pairs.push({ sourceId: source.id, targetId: target.id, orders });
+      }
+    }
+  }
+  return pairs;
+}
+
+/**
+ * Rank relationships by how many undetermined pairs stating them would settle.
+ *
+ * Candidates pin one undetermined pair to one order class (keeping whichever
+ * relations of that class are still possible). Scoring a candidate means
+ * re-running path consistency with it added, so only the pairs whose nodes
+ * take part in the most undetermined pairs are scored, as those are where a
+ * new fact is most likely to spread.
+ */
+export function suggestRelationships(
+  closure: AllenClosure,
+  nodes: TimelineNode[],
+  relationships: TemporalRelationship[],
+  pairs: UndeterminedPair[]
+): RelationshipSuggestion[] {
+  return runSteps(suggestRelationshipsInSteps(closure, nodes, relationships, pairs));
+}
+
+/**
+ * {@link suggestRelationships}, a candidate at a time, reporting progress
+ * before each one is scored
+ */
+export function* suggestRelationshipsInSteps(
+  closure: AllenClosure,
+  nodes: TimelineNode[],
+  relationships: TemporalRelationship[],
+  pairs: UndeterminedPair[]
+): Steps<RelationshipSuggestion[], AnalysisProgress> {
+  if (pairs.length === 0) return [];
+
+  const n = nodes.length;
+  const indexOf = new Map(closure.nodeIds.map((id, index) => [id, index]));
+  const degree = new Map<NodeId, number>();
+  for (const pair of pairs) {
+    degree.set(pair.sourceId, (degree.get(pair.sourceId) ?? 0) + 1);
+    degree.set(pair.targetId, (degree.get(pair.targetId) ?? 0) + 1);
+  }
+  const weightOf = (pair: UndeterminedPair) =>
+    (degree.get(pair.sourceId) ?? 0) + (degree.get(pair.targetId) ?? 0);
+
+  const candidates: Omit<RelationshipSuggestion, 'resolves'>[] = [];
+  for (const pair of [...pairs].sort((a, b) => weightOf(b) - weightOf(a))) {
+    const i = indexOf.get(pair.sourceId) ?? 0;
+    const j = indexOf.get(pair.targetId) ?? 0;
+    const possible = closure.relations[i * n + j] ?? 0;
+
+    for (const order of pair.orders) {
+      if (candidates.length >= MAX_SUGGESTION_CANDIDATES) break;
+      candidates.push({
+        sourceId: pair.sourceId,
+        targetId: pair.targetId,
+        relations: fromRelationSet(possible & ORDER_CLASS_RELATIONS[order]),
+      });
+    }
+    if (candidates.length >= MAX_SUGGESTION_CANDIDATES) break;
+  }
+
+  const now = Date.now();
+  const suggestions: RelationshipSuggestion[] = [];
+  for (const [completed, candidate] of candidates.entries()) {
+    yield { completed, total: candidates.length };
+    const extended = computeAllenClosure(nodes, [
+      ...relationships,
+      {
+        ...candidate,
+        id: '__suggestion__',
+        confidence: 'speculation',
+        enabled: true,
+        createdAt: now,
+        updatedAt: now,
+      },
+    ]);
+    // Path consistency is incomplete, so a possible relation can still fail
+    if (!extended.consistent) continue;
+    const remaining = findUndeterminedPairs(extended, nodes).length;
+    suggestions.push({ ...candidate, resolves: pairs.length - remaining });
+  }
+
+  return suggestions
+    .filter((suggestion) => suggestion.resolves > 0)
+    .sort((a, b) => b.resolves - a.resolves)
+    .slice(0, MAX_SUGGESTIONS);
+}
+
+/**
+ * Suggest relationships for a timeline from scratch: find what its
+ * relationships leave open, then score candidates a step at a time
+ */
+export function* suggestNextRelationships(
+  nodes: TimelineNode[],
+  relationships: TemporalRelationship[]
+): Steps<RelationshipSuggestion[], AnalysisProgress> {
+  // With nothing to propagate through, no one relationship settles more than
+  // its own pair, so there is nothing to rank
+  if (relationships.length === 0) return [];
+  const closure = computeAllenClosure(nodes, relationships);
+  const pairs = findUndeterminedPairs(closure, nodes);
+  return yield* suggestRelationshipsInSteps(closure, nodes, relationships, pairs);
+}
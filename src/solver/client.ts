@@ -0,0 +1,227 @@
+import type {
+  CancelWorkerRequest,
+  SolverRequestKind,
+  SolverRequests,
+  SolverWorkerCancelled,
+  SolverWorkerError,
+  SolverWorkerMessage,
+  SolverWorkerProgress,
+  SolverWorkerRequest,
+  SolverWorkerResponse,
+} from './solver.worker';
+
+// Max retries for worker crash recovery
+const MAX_WORKER_RETRIES = 3;
+// Delay between worker recovery attempts
+const WORKER_RETRY_DELAY_MS = 100;
+// Extra time the worker gets to stop an overdue request itself before it is
+// replaced; a single long step can keep it from noticing the deadline
+const WORKER_TIMEOUT_GRACE_MS = 5_000;
+
+export interface SolverRequestOptions<K extends SolverRequestKind> {
+  /** Aborting stops the request, which rejects with the signal's reason */
+  signal?: AbortSignal;
+  /** Milliseconds after which the request rejects with a TimeoutError */
+  timeoutMs?: number;
+  onProgress?: (progress: SolverRequests[K]['progress']) => void;
+}
+
+/**
+ * Asks the solver worker questions, one promise per answer
+ */
+export interface SolverClient {
+  request<K extends SolverRequestKind>(
+    kind: K,
+    params: SolverRequests[K]['params'],
+    options?: SolverRequestOptions<K>
+  ): Promise<SolverRequests[K]['result']>;
+  /** Stop the worker, rejecting whatever is still pending */
+  terminate(): void;
+}
+
+type WorkerReply =
+  | SolverWorkerProgress
+  | SolverWorkerResponse
+  | SolverWorkerCancelled
+  | SolverWorkerError;
+
+/**
+ * A request waiting on the worker, kept so that it can be sent again to a
+ * replacement worker
+ */
+interface PendingRequest {
+  message: SolverWorkerRequest;
+  receive: (message: WorkerReply) => void;
+  fail: (error: Error) => void;
+}
+
+function isProgress<K extends SolverRequestKind>(
+  message: WorkerReply,
+  kind: K
+): message is SolverWorkerProgress<K> {
+  return message.type === 'progress' && message.kind === kind;
+}
+
+function isResponse<K extends SolverRequestKind>(
+  message: WorkerReply,
+  kind: K
+): message is SolverWorkerResponse<K> {
+  return message.type === 'result' && message.kind === kind;
+}
+
+const timeoutError = () => new DOMException('Solver request timed out', 'TimeoutError');
+
+const abortError = (signal?: AbortSignal): Error =>
+  signal?.reason instanceof Error
+    ? signal.reason
+    : new DOMException('Solver request aborted', 'AbortError');
+
+/**
+ * Start a solver worker and return a client for it.
+ *
+ * Solves are answered in the order they were asked; other requests are
+ * answered while a solve runs. A worker that crashes is replaced and sent
+ * its pending requests again, up to a few times in a row, and one stuck past
+ * a request's timeout is replaced too.
+ */
+export function createSolverClient(): SolverClient {
+  const pending = new Map<number, PendingRequest>();
+  let nextRequestId = 0;
+  let retryCount = 0;
+  let terminated = false;
+
+  const failAll = (error: Error) => {
+    const failed = [...pending.values()];
+    pending.clear();
+    for (const request of failed) request.fail(error);
+  };
+
+  const startWorker = (): Worker => {
+    const worker = new Worker(new URL('./solver.worker.ts', import.meta.url), {
+      type: 'module',
+    });
+
+    worker.onmessage = (event: MessageEvent<SolverWorkerMessage | { type: 'ready' }>) => {
+      const message = event.data;
+      if (message.type === 'ready') return;
+      pending.get(message.requestId)?.receive(message);
+    };
+
+    worker.onerror = (event) => {
+      console.error('Solver worker error:', event);
+      worker.terminate();
+      if (retryCount >= MAX_WORKER_RETRIES) {
+        retryCount = 0;
+        failAll(new Error('Solver worker crashed'));
+        if (!terminated) current = startWorker();
+        return;
+      }
+      retryCount++;
+      setTimeout(() => {
+        if (terminated) return;
+        current = startWorker();
+        for (const request of pending.values()) current.postMessage(request.message);
+      }, WORKER_RETRY_DELAY_MS);
+    };
+
+    return worker;
+  };
+
+  let current = startWorker();
+
+  /**
+   * Replace a worker stuck on a request, sending the others to the new one
+   */
+  const replaceWorker = () => {
+    current.terminate();
+    current = startWorker();
+    for (const request of pending.values()) current.postMessage(request.message);
+  };
+
+  return {
+    request<K extends SolverRequestKind>(
+      kind: K,
+      params: SolverRequests[K]['params'],
+      { signal, timeoutMs, onProgress }: SolverRequestOptions<K> = {}
+    ): Promise<SolverRequests[K]['result']> {
+      return new Promise((resolve, reject) => {
+        if (terminated) {
+          reject(new Error('Solver client has been terminated'));
+          return;
+        }
+        if (signal?.aborted) {
+          reject(abortError(signal));
+          return;
+        }
+
+        const requestId = ++nextRequestId;
+        const message: SolverWorkerRequest<K> = {
+          type: 'request',
+          kind,
+          params,
+          requestId,
+          ...(timeoutMs !== undefined && { timeoutMs }),
+        };
+
+        // The worker only notices its deadline between steps; if it is stuck
+        // in one, replace it
+        const hardTimeout =
+          timeoutMs === undefined
+            ? null
+            : setTimeout(() => {
+                if (!pending.has(requestId)) return;
+                settle();
+                reject(timeoutError());
+                replaceWorker();
+              }, timeoutMs + WORKER_TIMEOUT_GRACE_MS);
+
+        const onAbort = () => {
+          if (!pending.has(requestId)) return;
+          settle();
+          const cancel: CancelWorkerRequest = { type: 'cancel', requestId };
+          current.postMessage(cancel);
+          reject(abortError(signal));
+        };
+
+        const settle = () => {
+          pending.delete(requestId);
+          if (hardTimeout !== null) clearTimeout(hardTimeout);
+          signal?.removeEventListener('abort', onAbort);
+        };
+
+        pending.set(requestId, {
+          message,
+          receive: (response) => {
+            if (isProgress(response, kind)) {
+              onProgress?.(response.progress);
+              return;
+            }
+            settle();
+            if (isResponse(response, kind)) {
+              retryCount = 0;
+              resolve(response.result);
+            } else if (response.type === 'cancelled') {
+              reject(response.reason === 'timeout' ? timeoutError() : abortError());
+            } else if (response.type === 'error') {
+              reject(new Error(response.error));
+            } else {
+              reject(new Error(`Unexpected ${response.type} for a ${kind} request`));
+            }
+          },
+          fail: (error) => {
+            settle();
+            reject(error);
+          },
+        });
+        signal?.addEventListener('abort', onAbort);
+        current.postMessage(message);
+      });
+    },
+
+    terminate() {
+      terminated = true;
+      current.terminate();
+      failAll(new DOMException('Solver client terminated', 'AbortError'));
+    },
+  };
+}
@@ -0,0 +1,74 @@
+import type { TemporalRelationship, TimelineNode } from '../types';
+import { TIMELINE_ORIGIN } from './stn';
+
+/**
+ * Nodes and relationships that can be solved apart from the rest
+ */
+export interface TimelineComponent {
+  nodes: TimelineNode[];
+  relationships: TemporalRelationship[];
+}
+
+/**
+ * Split a timeline into parts that nothing constrains against each other.
+ *
+ * Nodes join through the relationships between them and through pins
+ * measured from another node. Every node pinned to year zero joins the
+ * others pinned there, since their pins fix where they sit relative to each
+ * other. A relationship with an endpoint missing from the nodes still joins
+ * whatever its other endpoint is in.
+ *
+ * Nodes related to nothing at all share one last component, so that they
+ * are spread along the axis together rather than each placed alone. The
+ * others come in the order of their first node.
+ */
+export function findComponents(
+  nodes: TimelineNode[],
+  relationships: TemporalRelationship[]
+): TimelineComponent[] {
+  // Union-find over node ids, year zero standing for every absolute pin
+  const parents = new Map<string, string>();
+  const find = (id: string): string => {
+    let root = id;
+    while ((parents.get(root) ?? root) !== root) root = parents.get(root) ?? root;
+    parents.set(id, root);
+    return root;
+  };
+  const join = (a: string, b: string) => {
+    parents.set(find(a), find(b));
+  };
+
+  const nodeIds = new Set(nodes.map((node) => node.id));
+  for (const node of nodes) {
+    const { pin } = node;
+    if (!pin) continue;
+    if (pin.relativeTo === undefined) join(node.id, TIMELINE_ORIGIN);
+    else if (nodeIds.has(pin.relativeTo)) join(node.id, pin.relativeTo);
+  }
+  for (const rel of relationships) join(rel.sourceId, rel.targetId);
+
+  const components = new Map<string, TimelineComponent>();
+  const componentOf = (id: string): TimelineComponent => {
+    const root = find(id);
+    let component = components.get(root);
+    if (!component) {
+      component = { nodes: [], relationships: [] };
+      components.set(root, component);
+    }
+    return component;
+  };
+  for (const node of nodes) componentOf(node.id).nodes.push(node);
+  for (const rel of relationships) componentOf(rel.sourceId).relationships.push(rel);
+
+  const unrelated: TimelineNode[] = [];
+  const related: TimelineComponent[] = [];
+  for (const component of components.values()) {
+    const [only] = component.nodes;
+    if (only && component.nodes.length === 1 && component.relationships.length === 0) {
+      unrelated.push(only);
+    } else {
+      related.push(component);
+    }
+  }
+  return unrelated.length > 0 ? [...related, { nodes: unrelated, relationships: [] }] : related;
+}
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { generateRandomTimeline } from '../data/randomTimeline';
+import { checkRelationships } from './relaxation';
+import { enumerateConflicts, enumerateConflictsInSteps, findMinimalConflict } from './conflicts';
+import { IncrementalSTN } from './incremental';
+
+const smallTimeline = (seed: number) =>
+  generateRandomTimeline({
+    nodeCount: 5,
+    relationshipCount: 8,
+    contradictionRate: 0.4,
+    disjunctionRate: 0.2,
+    seed,
+  });
+
+/**
+ * Every minimal unsatisfiable subset of the relationships, by checking every
+ * subset: an inconsistent one is minimal if dropping any single relationship
+ * makes it consistent
+ */
+function bruteForceConflicts(timeline: ReturnType<typeof smallTimeline>): string[] {
+  const { nodes, relationships } = timeline;
+  const count = relationships.length;
+  const feasible: boolean[] = [];
+  for (let mask = 0; mask < 1 << count; mask++) {
+    const subset = relationships.filter((_, i) => mask & (1 << i));
+    feasible.push(checkRelationships(nodes, subset).feasible);
+  }
+
+  const conflicts: string[] = [];
+  feasible.forEach((isFeasible, mask) => {
+    if (isFeasible) return;
+    const members = relationships.filter((_, i) => mask & (1 << i));
+    const minimal = relationships.every(
+      (_, i) => !(mask & (1 << i)) || feasible[mask & ~(1 << i)]
+    );
+    if (minimal) conflicts.push(keyOf(members.map((r) => r.id)));
+  });
+  return conflicts.sort();
+}
+
+const keyOf = (ids: string[]) => [...ids].sort().join('|');
+
+const UNLIMITED = { maxConflicts: Infinity, maxChecks: Infinity, maxTimeMs: Infinity };
+
+const SEEDS = Array.from({ length: 25 }, (_, i) => i + 1);
+
+describe('enumerateConflicts', () => {
+  it.each(SEEDS)('finds every minimal conflict set (seed %i)', (seed) => {
+    const timeline = smallTimeline(seed);
+    const { nodes, relationships } = timeline;
+    const result = enumerateConflicts(nodes, relationships, UNLIMITED);
+
+    expect(result.complete).toBe(true);
+    expect(result.conflicts.map((c) => keyOf(c.relationshipIds)).sort()).toEqual(
+      bruteForceConflicts(timeline)
+    );
+  });
+
+  it.each(SEEDS)('finds the same sets checking incrementally (seed %i)', (seed) => {
+    const { nodes, relationships } = smallTimeline(seed);
+    const fresh = enumerateConflicts(nodes, relationships, UNLIMITED);
+    const incremental = enumerateConflicts(nodes, relationships, UNLIMITED, new IncrementalSTN());
+    const keys = (result: typeof fresh) =>
+      result.conflicts.map((c) => keyOf(c.relationshipIds)).sort();
+
+    expect(keys(incremental)).toEqual(keys(fresh));
+  });
+
+  it('stops at the conflict limit and says it did', () => {
+    const seed = SEEDS.find((s) => bruteForceConflicts(smallTimeline(s)).length > 1) ?? 1;
+    const { nodes, relationships } = smallTimeline(seed);
+    const result = enumerateConflicts(nodes, relationships, { ...UNLIMITED, maxConflicts: 1 });
+
+    expect(result.conflicts).toHaveLength(1);
+    expect(result.complete).toBe(false);
+  });
+
+  it('stops once out of time and says it did', () => {
+    const { nodes, relationships } = smallTimeline(1);
+    // Overdue before the first check
+    const result = enumerateConflicts(nodes, relationships, { ...UNLIMITED, maxTimeMs: -1 });
+
+    expect(result.checks).toBe(0);
+    expect(result.complete).toBe(false);
+  });
+
+  it('takes a step per check, so it can be stopped between them', () => {
+    const { nodes, relationships } = smallTimeline(2);
+    const steps = enumerateConflictsInSteps(nodes, relationships, UNLIMITED);
+    let taken = 0;
+    let next = steps.next();
+    for (; !next.done; next = steps.next()) taken++;
+
+    expect(next.value.conflicts.length).toBeGreaterThan(0);
+    expect(taken).toBeGreaterThanOrEqual(next.value.checks / 2);
+  });
+});
+
+describe('findMinimalConflict', () => {
+  it.each(SEEDS)('returns one of the minimal conflict sets (seed %i)', (seed) => {
+    const timeline = smallTimeline(seed);
+    const expected = bruteForceConflicts(timeline);
+    const conflict = findMinimalConflict(timeline.nodes, timeline.relationships, Infinity);
+
+    if (expected.length === 0) {
+      expect(conflict).toBeNull();
+    } else {
+      expect(expected).toContain(keyOf(conflict?.relationshipIds ?? []));
+    }
+  });
+});
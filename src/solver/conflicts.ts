@@ -0,0 +1,323 @@
+import type {
+  TimelineNode,
+  TemporalRelationship,
+  NodeId,
+  RelationshipId,
+} from '../types';
+import { checkRelationships } from './relaxation';
+import type { DisjunctiveSearchResult } from './disjunctive';
+import type { IncrementalSTN } from './incremental';
+import { runSteps, type Steps } from './steps';
+
+/**
+ * Limits on minimal conflict set enumeration
+ */
+export interface ConflictSearchLimits {
+  /** Stop after finding this many minimal conflict sets */
+  maxConflicts: number;
+  /** Stop after this many consistency checks */
+  maxChecks: number;
+  /**
+   * Stop starting checks after this many milliseconds. A single check can
+   * search many combinations of disjuncts, so the count alone doesn't bound
+   * the time.
+   */
+  maxTimeMs: number;
+}
+
+export const DEFAULT_CONFLICT_LIMITS: ConflictSearchLimits = {
+  maxConflicts: 20,
+  maxChecks: 500,
+  maxTimeMs: 2000,
+};
+
+/**
+ * A minimal unsatisfiable subset of relationships. With no relationships,
+ * the pins contradict each other or the nodes' durations on their own.
+ */
+export interface MinimalConflict {
+  relationshipIds: RelationshipId[];
+  /** Nodes whose own duration constraints the contradiction relies on */
+  nodeIds: NodeId[];
+  /** Nodes whose pins the contradiction relies on */
+  pinnedIds: NodeId[];
+}
+
+/**
+ * Result of enumerating minimal conflict sets
+ */
+export interface ConflictEnumeration {
+  /** Minimal unsatisfiable subsets of the relationships */
+  conflicts: MinimalConflict[];
+  /** Whether every minimal conflict set was found within the limits */
+  complete: boolean;
+  /** Number of consistency checks performed */
+  checks: number;
+}
+
+/**
+ * Upper bound on hitting set tree nodes, including ones that need no check
+ */
+const MAX_TREE_NODES = 5000;
+
+/**
+ * Consistency checks over subsets of one set of relationships, with a budget
+ * of checks and of time
+ */
+interface SubsetChecker {
+  checks: number;
+  readonly exhausted: boolean;
+  /** Check the relationships that pass the filter */
+  check: (keep: (id: RelationshipId) => boolean) => DisjunctiveSearchResult;
+  /** Relationships taking part in a failed check */
+  conflictOf: (result: DisjunctiveSearchResult) => RelationshipId[];
+}
+
+/**
+ * The nodes a check of some relationships needs: those the relationships
+ * relate, and every pinned node with what it is pinned to. The other nodes
+ * are only bound by their own durations, which no contradiction among the
+ * relationships goes through.
+ */
+function nodesInvolved(
+  nodes: TimelineNode[],
+  relationships: TemporalRelationship[]
+): TimelineNode[] {
+  const involved = new Set<NodeId>();
+  for (const rel of relationships) {
+    involved.add(rel.sourceId);
+    involved.add(rel.targetId);
+  }
+  for (const node of nodes) {
+    if (!node.pin) continue;
+    involved.add(node.id);
+    if (node.pin.relativeTo !== undefined) involved.add(node.pin.relativeTo);
+  }
+  return nodes.filter((node) => involved.has(node.id));
+}
+
+function createSubsetChecker(
+  nodes: TimelineNode[],
+  relationships: TemporalRelationship[],
+  limits: Pick<ConflictSearchLimits, 'maxChecks' | 'maxTimeMs'>,
+  engine?: IncrementalSTN
+): SubsetChecker {
+  const ids = new Set(relationships.map((r) => r.id));
+  const deadline = performance.now() + limits.maxTimeMs;
+
+  return {
+    checks: 0,
+    get exhausted() {
+      return this.checks >= limits.maxChecks || performance.now() > deadline;
+    },
+    check(keep) {
+      this.checks++;
+      const kept = relationships.filter((r) => keep(r.id));
+      // Subsets of a conflict are quicker to build from scratch, and checking
+      // them with the engine would have it rebuild everything afterwards
+      if (kept.length * 2 < relationships.length) {
+        return checkRelationships(nodesInvolved(nodes, kept), kept);
+      }
+      return checkRelationships(nodes, kept, engine);
+    },
+    conflictOf(result) {
+      return [...result.conflictingRelationshipIds].filter((id) => ids.has(id));
+    },
+  };
+}
+
+/**
+ * Find the nodes whose duration constraints and pins a minimal conflict
+ * relies on
+ */
+function withNodeIds(
+  checker: SubsetChecker,
+  relationshipIds: RelationshipId[]
+): MinimalConflict {
+  const kept = new Set(relationshipIds);
+  const result = checker.check((id) => kept.has(id));
+  return {
+    relationshipIds,
+    nodeIds: [...result.conflictingNodeIds],
+    pinnedIds: [...result.conflictingPinIds],
+  };
+}
+
+/**
+ * The conflict of a failed check that no relationship took part in: pins
+ * contradicting each other or the nodes' durations
+ */
+function hardConflict(result: DisjunctiveSearchResult): MinimalConflict {
+  return {
+    relationshipIds: [],
+    nodeIds: [...result.conflictingNodeIds],
+    pinnedIds: [...result.conflictingPinIds],
+  };
+}
+
+/**
+ * Shrink a conflict set to a minimal one by deletion: drop each relationship
+ * in turn and keep it out if the rest still conflict. After each successful
+ * drop, the set is narrowed to the relationships in the new failure.
+ *
+ * Returns null if the check budget runs out first. Takes a step per check.
+ */
+function* shrinkConflict(
+  checker: SubsetChecker,
+  conflict: RelationshipId[]
+): Steps<RelationshipId[] | null> {
+  let current = conflict;
+
+  for (let i = 0; i < current.length; ) {
+    if (checker.exhausted) return null;
+
+    const dropped = current[i];
+    const candidate = current.filter((id) => id !== dropped);
+    const candidateIds = new Set(candidate);
+    const result = checker.check((id) => candidateIds.has(id));
+    yield;
+
+    if (result.feasible || result.undecided) {
+      // Needed for the conflict; every smaller conflict keeps it too. A check
+      // that ran out of budget proves nothing either way, so the relationship
+      // stays: the set still conflicts, if perhaps not minimally.
+      i++;
+    } else {
+      const narrowed = new Set(checker.conflictOf(result));
+      const kept = candidate.filter((id) => narrowed.has(id));
+      current = kept.length > 0 ? kept : candidate;
+    }
+  }
+
+  return current;
+}
+
+/**
+ * Find a single minimal conflict set among the given relationships,
+ * or null if they are consistent (or the budget runs out).
+ *
+ * @param engine - Incremental network for the subset checks
+ */
+export function findMinimalConflict(
+  nodes: TimelineNode[],
+  relationships: TemporalRelationship[],
+  maxChecks = DEFAULT_CONFLICT_LIMITS.maxChecks,
+  engine?: IncrementalSTN
+): MinimalConflict | null {
+  const checker = createSubsetChecker(
+    nodes,
+    relationships,
+    { maxChecks, maxTimeMs: DEFAULT_CONFLICT_LIMITS.maxTimeMs },
+    engine
+  );
+  const result = checker.check(() => true);
+  if (result.feasible || result.undecided) return null;
+
+  const conflict = checker.conflictOf(result);
+  if (conflict.length === 0) return hardConflict(result);
+  const shrunk = runSteps(shrinkConflict(checker, conflict));
+  return shrunk ? withNodeIds(checker, shrunk) : null;
+}
+
+/**
+ * Enumerate the minimal unsatisfiable subsets of a set of relationships.
+ *
+ * Uses Reiter's hitting set tree: each tree node removes a set of
+ * relationships. If what remains is inconsistent, the node is labelled with a
+ * minimal conflict among the remaining relationships (reusing a known one
+ * where possible) and gets one child per relationship in that conflict. Every
+ * minimal conflict set eventually labels some node, so exploring the whole
+ * tree finds them all. Branches whose removals already restore consistency,
+ * or repeat another branch, are closed.
+ *
+ * @param engine - Incremental network for the subset checks. Neighbouring
+ *   tree nodes differ by a few relationships, so most checks are small edits.
+ */
+export function enumerateConflicts(
+  nodes: TimelineNode[],
+  relationships: TemporalRelationship[],
+  limits: ConflictSearchLimits = DEFAULT_CONFLICT_LIMITS,
+  engine?: IncrementalSTN
+): ConflictEnumeration {
+  return runSteps(enumerateConflictsInSteps(nodes, relationships, limits, engine));
+}
+
+/**
+ * {@link enumerateConflicts}, a step per tree node and per check while
+ * shrinking a conflict
+ */
+export function* enumerateConflictsInSteps(
+  nodes: TimelineNode[],
+  relationships: TemporalRelationship[],
+  limits: ConflictSearchLimits = DEFAULT_CONFLICT_LIMITS,
+  engine?: IncrementalSTN
+): Steps<ConflictEnumeration> {
+  const checker = createSubsetChecker(nodes, relationships, limits, engine);
+  const conflicts: MinimalConflict[] = [];
+  const consistentRemovals: Set<RelationshipId>[] = [];
+  const visited = new Set<string>();
+  const queue: Set<RelationshipId>[] = [new Set()];
+  let treeNodes = 0;
+  // Whether some branch was left open by a check that ran out of budget
+  let undecided = false;
+
+  const isSubsetOf = (subset: Set<RelationshipId>, superset: Set<RelationshipId>) =>
+    [...subset].every((id) => superset.has(id));
+
+  while (queue.length > 0) {
+    if (
+      conflicts.length >= limits.maxConflicts ||
+      checker.exhausted ||
+      treeNodes >= MAX_TREE_NODES
+    ) {
+      return { conflicts, complete: false, checks: checker.checks };
+    }
+    treeNodes++;
+    yield;
+
+    const removed = queue.shift() ?? new Set<RelationshipId>();
+    if (consistentRemovals.some((closed) => isSubsetOf(closed, removed))) continue;
+
+    let conflict = conflicts
+      .map((c) => c.relationshipIds)
+      .find((ids) => ids.every((id) => !removed.has(id)));
+
+    if (!conflict) {
+      const result = checker.check((id) => !removed.has(id));
+      if (result.feasible) {
+        consistentRemovals.push(removed);
+        continue;
+      }
+      // Neither consistent nor a conflict to branch on
+      if (result.undecided) {
+        undecided = true;
+        continue;
+      }
+
+      const failure = checker.conflictOf(result);
+      // Only pins and durations conflict; removing relationships can't help,
+      // so report them alone. Every later branch reuses this conflict.
+      if (failure.length === 0) {
+        conflicts.push(hardConflict(result));
+        continue;
+      }
+
+      const shrunk = yield* shrinkConflict(checker, failure);
+      if (!shrunk) {
+        return { conflicts, complete: false, checks: checker.checks };
+      }
+      conflict = shrunk;
+      conflicts.push(withNodeIds(checker, conflict));
+    }
+
+    for (const id of conflict) {
+      const child = new Set(removed).add(id);
+      const key = [...child].sort().join('|');
+      if (visited.has(key)) continue;
+      visited.add(key);
+      queue.push(child);
+    }
+  }
+
+  return { conflicts, complete: !undecided, checks: checker.checks };
+}
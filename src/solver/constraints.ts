@@ -1,13 +1,16 @@
-import type { AllenRelation, NodeId } from '../types';
+import type { AllenRelation, NodeId, NodePin, NumericBounds, TimelineNode } from '../types';
+import { TIME_UNIT_FACTORS, formatBounds, formatPin } from '../types';
 
 /**
  * A difference constraint represents: to - from <= maxDiff
+ * (or to - from < maxDiff when strict).
  * This is the standard form for Simple Temporal Networks.
  */
 export interface DifferenceConstraint {
   from: string; // Variable name (e.g., "node1_start")
   to: string; // Variable name (e.g., "node2_end")
   maxDiff: number; // to - from <= maxDiff
+  strict?: boolean; // to - from < maxDiff instead
 }
 
 /**
@@ -19,11 +22,25 @@ export interface TrackedConstraint {
   description: string;
 }
 
-// Small epsilon for strict inequalities (< becomes <= with epsilon)
-const EPSILON = 0.001;
+/**
+ * Bound for "to - from > min", or "to - from >= min" for a positive minimum.
+ * A minimum of zero (or none) still has to keep the points strictly apart.
+ */
+function separationBound(min: number | undefined): Pick<DifferenceConstraint, 'maxDiff' | 'strict'> {
+  return min !== undefined && min > 0 ? { maxDiff: -min } : { maxDiff: 0, strict: true };
+}
 
-// Minimum duration for intervals to ensure they have some width
-const MIN_DURATION = 1;
+/**
+ * Convert bounds to base units (years). Missing sides stay undefined.
+ */
+export function toBaseBounds(bounds: NumericBounds | undefined): { min?: number; max?: number } {
+  if (!bounds) return {};
+  const factor = TIME_UNIT_FACTORS[bounds.unit];
+  const result: { min?: number; max?: number } = {};
+  if (bounds.min !== undefined) result.min = bounds.min * factor;
+  if (bounds.max !== undefined) result.max = bounds.max * factor;
+  return result;
+}
 
 /**
  * Get variable names for a node's start and end points
@@ -49,14 +66,20 @@ export function getNodeVariables(nodeId: NodeId): { start: string; end: string }
  *
  * Each relation is converted to a set of difference constraints on the
  * start and end variables of the two intervals.
+ *
+ * An optional gap bounds the separation for before/after, i.e. how long after
+ * the earlier event ends the later one starts. Other relations ignore it.
  */
 export function allenToConstraints(
   sourceId: NodeId,
   targetId: NodeId,
-  relation: AllenRelation
+  relation: AllenRelation,
+  gap?: NumericBounds
 ): DifferenceConstraint[] {
   const A = getNodeVariables(sourceId);
   const B = getNodeVariables(targetId);
+  const { min: minGap, max: maxGap } = toBaseBounds(gap);
+  const separation = separationBound(minGap);
 
   switch (relation) {
     // ========================================
@@ -65,8 +88,10 @@ export function allenToConstraints(
     // ========================================
     case 'before':
       return [
-        // A.end - B.start <= -EPSILON (i.e., A.end < B.start)
-        { from: B.start, to: A.end, maxDiff: -EPSILON },
+        // A.end < B.start, at least minGap apart
+        { from: B.start, to: A.end, ...separation },
+        // B.start - A.end <= maxGap
+        ...(maxGap !== undefined ? [{ from: A.end, to: B.start, maxDiff: maxGap }] : []),
       ];
 
     // ========================================
@@ -75,8 +100,10 @@ export function allenToConstraints(
     // ========================================
     case 'after':
       return [
-        // B.end - A.start <= -EPSILON (i.e., B.end < A.start)
-        { from: A.start, to: B.end, maxDiff: -EPSILON },
+        // B.end < A.start, at least minGap apart
+        { from: A.start, to: B.end, ...separation },
+        // A.start - B.end <= maxGap
+        ...(maxGap !== undefined ? [{ from: B.end, to: A.start, maxDiff: maxGap }] : []),
       ];
 
     // ========================================
@@ -110,11 +137,11 @@ export function allenToConstraints(
     case 'overlaps':
       return [
         // A.start < B.start
-        { from: B.start, to: A.start, maxDiff: -EPSILON },
+        { from: B.start, to: A.start, maxDiff: 0, strict: true },
         // B.start < A.end
-        { from: A.end, to: B.start, maxDiff: -EPSILON },
+        { from: A.end, to: B.start, maxDiff: 0, strict: true },
         // A.end < B.end
-        { from: B.end, to: A.end, maxDiff: -EPSILON },
+        { from: B.end, to: A.end, maxDiff: 0, strict: true },
       ];
 
     // ========================================
@@ -124,11 +151,11 @@ export function allenToConstraints(
     case 'overlapped-by':
       return [
         // B.start < A.start
-        { from: A.start, to: B.start, maxDiff: -EPSILON },
+        { from: A.start, to: B.start, maxDiff: 0, strict: true },
         // A.start < B.end
-        { from: B.end, to: A.start, maxDiff: -EPSILON },
+        { from: B.end, to: A.start, maxDiff: 0, strict: true },
         // B.end < A.end
-        { from: A.end, to: B.end, maxDiff: -EPSILON },
+        { from: A.end, to: B.end, maxDiff: 0, strict: true },
       ];
 
     // ========================================
@@ -141,7 +168,7 @@ export function allenToConstraints(
         { from: B.start, to: A.start, maxDiff: 0 },
         { from: A.start, to: B.start, maxDiff: 0 },
         // A.end < B.end
-        { from: B.end, to: A.end, maxDiff: -EPSILON },
+        { from: B.end, to: A.end, maxDiff: 0, strict: true },
       ];
 
     // ========================================
@@ -154,7 +181,7 @@ export function allenToConstraints(
         { from: B.start, to: A.start, maxDiff: 0 },
         { from: A.start, to: B.start, maxDiff: 0 },
         // B.end < A.end
-        { from: A.end, to: B.end, maxDiff: -EPSILON },
+        { from: A.end, to: B.end, maxDiff: 0, strict: true },
       ];
 
     // ========================================
@@ -164,7 +191,7 @@ export function allenToConstraints(
     case 'finishes':
       return [
         // B.start < A.start
-        { from: A.start, to: B.start, maxDiff: -EPSILON },
+        { from: A.start, to: B.start, maxDiff: 0, strict: true },
         // A.end = B.end
         { from: B.end, to: A.end, maxDiff: 0 },
         { from: A.end, to: B.end, maxDiff: 0 },
@@ -177,7 +204,7 @@ export function allenToConstraints(
     case 'finished-by':
       return [
         // A.start < B.start
-        { from: B.start, to: A.start, maxDiff: -EPSILON },
+        { from: B.start, to: A.start, maxDiff: 0, strict: true },
         // A.end = B.end
         { from: B.end, to: A.end, maxDiff: 0 },
         { from: A.end, to: B.end, maxDiff: 0 },
@@ -190,9 +217,9 @@ export function allenToConstraints(
     case 'during':
       return [
         // B.start < A.start
-        { from: A.start, to: B.start, maxDiff: -EPSILON },
+        { from: A.start, to: B.start, maxDiff: 0, strict: true },
         // A.end < B.end
-        { from: B.end, to: A.end, maxDiff: -EPSILON },
+        { from: B.end, to: A.end, maxDiff: 0, strict: true },
       ];
 
     // ========================================
@@ -202,9 +229,9 @@ export function allenToConstraints(
     case 'contains':
       return [
         // A.start < B.start
-        { from: B.start, to: A.start, maxDiff: -EPSILON },
+        { from: B.start, to: A.start, maxDiff: 0, strict: true },
         // B.end < A.end
-        { from: A.end, to: B.end, maxDiff: -EPSILON },
+        { from: A.end, to: B.end, maxDiff: 0, strict: true },
       ];
 
     // ========================================
@@ -228,19 +255,27 @@ export function allenToConstraints(
 
 /**
  * Generate internal constraints for a node to ensure valid intervals.
- * For intervals: start < end (with minimum duration)
+ * For intervals: start < end (within the given bounds, if any)
  * For instants: start = end
  */
 export function getNodeInternalConstraints(
   nodeId: NodeId,
-  isInterval: boolean
+  isInterval: boolean,
+  duration?: NumericBounds
 ): DifferenceConstraint[] {
   const { start, end } = getNodeVariables(nodeId);
 
   if (isInterval) {
-    // For intervals: end - start >= MIN_DURATION
-    // Rewritten as: start - end <= -MIN_DURATION
-    return [{ from: end, to: start, maxDiff: -MIN_DURATION }];
+    const { min, max } = toBaseBounds(duration);
+
+    // For intervals: end - start > 0, or >= min for a positive minimum
+    // Rewritten as: start - end < 0 (or <= -min)
+    const constraints: DifferenceConstraint[] = [{ from: end, to: start, ...separationBound(min) }];
+    if (max !== undefined) {
+      // end - start <= max
+      constraints.push({ from: start, to: end, maxDiff: max });
+    }
+    return constraints;
   } else {
     // For instants: start = end
     return [
@@ -250,6 +285,28 @@ export function getNodeInternalConstraints(
   }
 }
 
+/**
+ * Get the constraints holding a pinned node's start at a fixed distance from
+ * the point it is pinned to: year zero, or the other node's start
+ *
+ * @param origin - Vertex standing for year zero
+ */
+export function getPinConstraints(
+  nodeId: NodeId,
+  pin: NodePin,
+  origin: string
+): DifferenceConstraint[] {
+  const { start } = getNodeVariables(nodeId);
+  const anchor = pin.relativeTo !== undefined ? getNodeVariables(pin.relativeTo).start : origin;
+  const offset = pin.position * TIME_UNIT_FACTORS[pin.unit];
+  return [
+    // start - anchor <= offset
+    { from: anchor, to: start, maxDiff: offset },
+    // anchor - start <= -offset
+    { from: start, to: anchor, maxDiff: -offset },
+  ];
+}
+
 /**
  * Get a human-readable description of an Allen relation
  */
@@ -275,3 +332,24 @@ export function getRelationDescription(
   };
   return descriptions[relation];
 }
+
+/**
+ * Get a human-readable description of an interval's internal constraints
+ */
+export function getNodeConstraintDescription(node: TimelineNode): string {
+  if (node.duration) {
+    return `"${node.name}" must last ${formatBounds(node.duration)}`;
+  }
+  return `"${node.name}" must have positive duration`;
+}
+
+/**
+ * Get a human-readable description of a node's pin
+ *
+ * @param relativeToName - Name of the node the pin is measured from, if any
+ */
+export function getPinDescription(node: TimelineNode, relativeToName?: string): string {
+  return node.pin
+    ? `"${node.name}" is pinned ${formatPin(node.pin, relativeToName)}`
+    : `"${node.name}" is not pinned`;
+}
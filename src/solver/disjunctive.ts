@@ -0,0 +1,323 @@
+import type {
+  AllenRelation,
+  NodeId,
+  RelationshipId,
+  TemporalRelationship,
+  TimelineNode,
+} from '../types';
+import { rankRelationships, type SimpleTemporalNetwork } from './stn';
+import {
+  checkNetworkConsistency,
+  getCycleOrigins,
+  type BellmanFordResult,
+} from './propagation';
+import { IncrementalSTN } from './incremental';
+import { computeAllenClosure, getClosureRelations, relationDomain } from './allen';
+
+/**
+ * The relation chosen for each disjunctive relationship
+ */
+export type DisjunctSelection = Map<RelationshipId, AllenRelation>;
+
+/**
+ * Result of searching over the disjuncts of a disjunctive temporal problem
+ */
+export interface DisjunctiveSearchResult {
+  /** Whether some choice of disjuncts is consistent */
+  feasible: boolean;
+  /** The consistent choice (empty if infeasible) */
+  selection: DisjunctSelection;
+  /** Network for the chosen disjuncts, or the base network if infeasible */
+  network: SimpleTemporalNetwork;
+  /** Bellman-Ford result for that network */
+  bellmanFordResult: BellmanFordResult;
+  /**
+   * If infeasible, every relationship that took part in a negative cycle
+   * anywhere in the search. Keeping all of them reproduces the failure,
+   * so together they form a conflict set.
+   */
+  conflictingRelationshipIds: Set<RelationshipId>;
+  /**
+   * If infeasible, sets of relationships that contradict each other on their
+   * own, starting with the conflict set above. Relaxation has to break every
+   * one of them.
+   */
+  conflicts: Set<RelationshipId>[];
+  /** If infeasible, nodes whose own duration constraints took part */
+  conflictingNodeIds: Set<NodeId>;
+  /** If infeasible, nodes whose pins took part */
+  conflictingPinIds: Set<NodeId>;
+  /** Number of consistency checks performed */
+  checks: number;
+  /**
+   * Whether the search ran out of checks before finding a consistent choice
+   * or proving there is none. It is then reported infeasible with no
+   * conflict, and the base network, which holds only the relationships with
+   * a single relation, stands in for the answer.
+   */
+  undecided: boolean;
+}
+
+/**
+ * Upper bound on consistency checks before the search gives up
+ */
+const MAX_DISJUNCT_CHECKS = 2000;
+
+/**
+ * Largest timeline whose disjuncts are pruned by path consistency first. The
+ * closure takes O(n³) time, which past this size costs more than the
+ * incremental checks it saves.
+ */
+const MAX_PRUNING_NODES = 200;
+
+/**
+ * Get the relation a relationship contributes to the network, or null if it
+ * is a disjunction that has not been resolved yet.
+ */
+export function getSelectedRelation(
+  relationship: TemporalRelationship,
+  selection: DisjunctSelection
+): AllenRelation | null {
+  if (relationship.relations.length === 1) {
+    return relationship.relations[0] ?? null;
+  }
+  return selection.get(relationship.id) ?? null;
+}
+
+/**
+ * Drop disjuncts that Allen path consistency already rules out.
+ * Returns null if the closure is inconsistent, since it then proves nothing
+ * about individual disjuncts.
+ */
+function pruneDisjuncts(
+  nodes: TimelineNode[],
+  relationships: TemporalRelationship[],
+  disjunctive: TemporalRelationship[]
+): Map<RelationshipId, AllenRelation[]> | null {
+  const closure = computeAllenClosure(nodes, relationships);
+  if (!closure.consistent) return null;
+
+  const shapes = new Map(nodes.map((node) => [node.id, node.durationType]));
+  const candidates = new Map<RelationshipId, AllenRelation[]>();
+
+  for (const rel of disjunctive) {
+    const sourceShape = shapes.get(rel.sourceId) ?? 'instant';
+    const targetShape = shapes.get(rel.targetId) ?? 'instant';
+    const possible = getClosureRelations(closure, rel.sourceId, rel.targetId);
+    candidates.set(
+      rel.id,
+      rel.relations.filter(
+        (relation) => (relationDomain(relation, sourceShape, targetShape) & possible) !== 0
+      )
+    );
+  }
+
+  return candidates;
+}
+
+/**
+ * Search for a consistent choice of one relation per disjunctive relationship.
+ *
+ * This is the standard backtracking approach for Disjunctive Temporal
+ * Problems: the base network holds every non-disjunctive constraint, then
+ * each disjunctive relationship (fewest candidates first) is resolved in turn,
+ * checking STN consistency after every choice and backtracking on a negative
+ * cycle. Choices are added to and taken back out of one incremental network,
+ * so each check only propagates the choice it tries. Candidates ruled out by
+ * Allen path consistency are skipped.
+ *
+ * Backtracking jumps straight back to the latest choice a failure involves
+ * (conflict-directed backjumping): retrying choices the failure's cycles
+ * don't pass through would only fail the same way again. The relationships
+ * the cycles pass through make up the conflict set.
+ *
+ * @param nodes - Nodes in the network
+ * @param relationships - All active relationships
+ * @param baseNetwork - Network with virtual source holding the non-disjunctive constraints
+ * @param baseResult - Its consistency check, if already known
+ */
+export function searchDisjuncts(
+  nodes: TimelineNode[],
+  relationships: TemporalRelationship[],
+  baseNetwork: SimpleTemporalNetwork,
+  baseResult: BellmanFordResult = checkNetworkConsistency(baseNetwork)
+): DisjunctiveSearchResult {
+  const disjunctive = relationships.filter((r) => r.relations.length > 1);
+
+  if (!baseResult.feasible || disjunctive.length === 0) {
+    const conflicting = baseResult.conflictingRelationshipIds ?? new Set();
+    return {
+      feasible: baseResult.feasible,
+      selection: new Map(),
+      network: baseNetwork,
+      bellmanFordResult: baseResult,
+      conflictingRelationshipIds: conflicting,
+      conflicts: baseResult.feasible ? [] : [conflicting],
+      conflictingNodeIds: baseResult.conflictingNodeIds ?? new Set(),
+      conflictingPinIds: baseResult.conflictingPinIds ?? new Set(),
+      checks: 1,
+      undecided: false,
+    };
+  }
+
+  const pruned = nodes.length <= MAX_PRUNING_NODES
+    ? pruneDisjuncts(nodes, relationships, disjunctive)
+    : null;
+  const allCandidates = new Map(disjunctive.map((r) => [r.id, r.relations]));
+
+  let outcome = runSearch(disjunctive, pruned ?? allCandidates, baseNetwork, baseResult);
+
+  // A failure under pruning leans on the closure, which cycles don't record.
+  // Re-run unpruned so the reported conflict set stands on its own. Pruning
+  // only saves checks, so a search that ran out of them stays undecided.
+  if (!outcome.found && !outcome.exhausted && pruned) {
+    const previousChecks = outcome.checks;
+    outcome = runSearch(disjunctive, allCandidates, baseNetwork, baseResult);
+    outcome.checks += previousChecks;
+  }
+
+  if (outcome.found) {
+    return {
+      feasible: true,
+      selection: outcome.selection,
+      network: outcome.found.network,
+      bellmanFordResult: outcome.found.result,
+      conflictingRelationshipIds: new Set(),
+      conflicts: [],
+      conflictingNodeIds: new Set(),
+      conflictingPinIds: new Set(),
+      checks: outcome.checks + 1,
+      undecided: false,
+    };
+  }
+
+  // Running out of checks proves nothing, so no conflict is reported
+  if (outcome.exhausted) {
+    return {
+      feasible: false,
+      selection: new Map(),
+      network: baseNetwork,
+      bellmanFordResult: baseResult,
+      conflictingRelationshipIds: new Set(),
+      conflicts: [],
+      conflictingNodeIds: new Set(),
+      conflictingPinIds: new Set(),
+      checks: outcome.checks + 1,
+      undecided: true,
+    };
+  }
+
+  return {
+    feasible: false,
+    selection: new Map(),
+    network: baseNetwork,
+    bellmanFordResult: {
+      ...baseResult,
+      feasible: false,
+      conflictingRelationshipIds: outcome.conflicting,
+      conflictingNodeIds: outcome.conflictingNodes,
+      conflictingPinIds: outcome.conflictingPins,
+    },
+    conflictingRelationshipIds: outcome.conflicting,
+    conflicts: [outcome.conflicting],
+    conflictingNodeIds: outcome.conflictingNodes,
+    conflictingPinIds: outcome.conflictingPins,
+    checks: outcome.checks + 1,
+    undecided: false,
+  };
+}
+
+interface SearchOutcome {
+  found: { network: SimpleTemporalNetwork; result: BellmanFordResult } | null;
+  selection: DisjunctSelection;
+  conflicting: Set<RelationshipId>;
+  conflictingNodes: Set<NodeId>;
+  conflictingPins: Set<NodeId>;
+  checks: number;
+  /** Whether the check budget ran out, leaving the failure unproven */
+  exhausted: boolean;
+}
+
+/**
+ * Depth-first search over the candidate disjuncts
+ */
+function runSearch(
+  disjunctive: TemporalRelationship[],
+  candidates: Map<RelationshipId, AllenRelation[]>,
+  baseNetwork: SimpleTemporalNetwork,
+  baseResult: BellmanFordResult
+): SearchOutcome {
+  // Of relationships with as many candidates, those upstream go first, so that
+  // each choice mostly moves only its own nodes
+  const ranks = rankRelationships(baseNetwork, disjunctive);
+  const ordered = [...disjunctive].sort(
+    (a, b) =>
+      (candidates.get(a.id)?.length ?? 0) - (candidates.get(b.id)?.length ?? 0) ||
+      (ranks.get(a.id) ?? 0) - (ranks.get(b.id) ?? 0)
+  );
+  const outcome: SearchOutcome = {
+    found: null,
+    selection: new Map(),
+    conflicting: new Set(),
+    conflictingNodes: new Set(),
+    conflictingPins: new Set(),
+    checks: 0,
+    exhausted: false,
+  };
+
+  const engine = new IncrementalSTN();
+  engine.load(baseNetwork, baseResult);
+
+  // Returns null once every relationship has a relation, or else the
+  // relationships that explain why this depth failed
+  const search = (depth: number): Set<RelationshipId> | null => {
+    const rel = ordered[depth];
+    if (!rel) {
+      outcome.found = engine.check();
+      return null;
+    }
+
+    const conflict = new Set<RelationshipId>();
+    for (const relation of candidates.get(rel.id) ?? []) {
+      if (outcome.checks >= MAX_DISJUNCT_CHECKS) {
+        outcome.exhausted = true;
+        break;
+      }
+      outcome.checks++;
+
+      const cycle = engine.assume(rel, relation);
+      if (cycle) {
+        const { relationshipIds, nodeIds, pinIds } = getCycleOrigins(cycle);
+        for (const id of relationshipIds) {
+          conflict.add(id);
+        }
+        for (const id of nodeIds) {
+          outcome.conflictingNodes.add(id);
+        }
+        for (const id of pinIds) {
+          outcome.conflictingPins.add(id);
+        }
+        continue;
+      }
+
+      outcome.selection.set(rel.id, relation);
+      const deeper = search(depth + 1);
+      if (!deeper) return null;
+      engine.retract(rel.id);
+      outcome.selection.delete(rel.id);
+
+      // The failure doesn't involve this choice, so no other choice helps
+      if (!deeper.has(rel.id)) return deeper;
+      for (const id of deeper) {
+        conflict.add(id);
+      }
+    }
+
+    // Every candidate failed, so this relationship is part of the conflict
+    conflict.add(rel.id);
+    return conflict;
+  };
+
+  outcome.conflicting = search(0) ?? new Set();
+  return outcome;
+}
@@ -0,0 +1,177 @@
+import type {
+  NodeId,
+  OrderEndpoints,
+  OrderExplanation,
+  PositionExplanation,
+  ReasoningStep,
+  TemporalRelationship,
+  TimelineNode,
+} from '../types';
+import { getNodeVariables } from './constraints';
+import { buildNetwork } from './relaxation';
+import { bellmanFord, type BellmanFordResult } from './propagation';
+import { getBindingSources, type SimpleTemporalNetwork } from './stn';
+import { ZERO_WEIGHT, compareWeights, isLessThan } from './weights';
+
+/**
+ * Endpoint orders tried when explaining a pair, strongest first
+ */
+const ORDER_ENDPOINTS: OrderEndpoints[] = ['end-start', 'start-start'];
+
+/**
+ * Follow Bellman-Ford predecessors back from a vertex to the search source,
+ * returning the constraints along the path in order from the source.
+ *
+ * Each edge is attributed to one of its binding sources. Consecutive edges
+ * from the same constraint (e.g. both halves of "meets") become one step,
+ * and an instant's start = end is left out since it holds by definition.
+ *
+ * @param traced - Paths already traced with the same predecessors, by
+ *   vertex; the returned path may be one of them, so must not be changed
+ */
+function tracePath(
+  network: SimpleTemporalNetwork,
+  predecessors: Map<string, string | null>,
+  target: string,
+  instantIds: Set<NodeId>,
+  traced = new Map<string, ReasoningStep[]>()
+): ReasoningStep[] {
+  // Walk back to the source, or to a vertex whose path is already traced
+  const chain: string[] = [];
+  const visited = new Set<string>();
+  let steps: ReasoningStep[] = [];
+  for (let current = target; ; ) {
+    const known = traced.get(current);
+    if (known) {
+      steps = known;
+      break;
+    }
+    const pred = predecessors.get(current);
+    if (pred === null || pred === undefined || visited.has(current)) break;
+    visited.add(current);
+    chain.push(current);
+    current = pred;
+  }
+
+  // Then extend that path forward again, recording it at each vertex
+  for (const vertex of chain.reverse()) {
+    const pred = predecessors.get(vertex) ?? vertex;
+    const edge = network.getEdge(pred, vertex);
+    const source = edge ? getBindingSources(edge)[0] : undefined;
+    if (source && !(source.kind === 'duration' && instantIds.has(source.id))) {
+      const last = steps[steps.length - 1];
+      if (last?.kind !== source.kind || last.id !== source.id) {
+        steps = [...steps, { kind: source.kind, id: source.id }];
+      }
+    }
+    traced.set(vertex, steps);
+  }
+
+  return steps;
+}
+
+/**
+ * Explain why one node comes before another.
+ *
+ * The tightest bound the constraints place on (earlier endpoint − later
+ * start) is the shortest path between the two in the STN; if it is at most
+ * zero, the path is a chain of constraints proving the order. Both
+ * directions are tried, and for each the end-before-start order before the
+ * weaker start-before-start one.
+ *
+ * Only relationships with a single relation take part, since a chain through
+ * an unresolved disjunction proves nothing. Returns null if neither node is
+ * provably before the other, or if the relationships are inconsistent.
+ */
+export function explainOrder(
+  nodes: TimelineNode[],
+  relationships: TemporalRelationship[],
+  firstId: NodeId,
+  secondId: NodeId
+): OrderExplanation | null {
+  // Disjunctive relationships are left out by buildNetwork without a selection
+  const network = buildNetwork(nodes, relationships);
+  const instantIds = new Set(
+    nodes.filter((node) => node.durationType === 'instant').map((node) => node.id)
+  );
+
+  for (const [earlierId, laterId] of [
+    [firstId, secondId],
+    [secondId, firstId],
+  ] as const) {
+    const earlier = getNodeVariables(earlierId);
+    const later = getNodeVariables(laterId);
+    if (!network.hasVertex(earlier.start) || !network.hasVertex(later.start)) return null;
+
+    const result = bellmanFord(network, later.start);
+    if (!result.feasible) return null;
+
+    for (const endpoints of ORDER_ENDPOINTS) {
+      const endpoint = endpoints === 'end-start' ? earlier.end : earlier.start;
+      const distance = result.distances.get(endpoint);
+      if (!distance || compareWeights(distance, ZERO_WEIGHT) > 0) continue;
+
+      return {
+        earlierId,
+        laterId,
+        endpoints,
+        strict: isLessThan(distance, ZERO_WEIGHT),
+        // The path runs from the later start back to the earlier endpoint
+        steps: [...tracePath(network, result.predecessors, endpoint, instantIds)].reverse(),
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Get a human-readable statement of the order an explanation proves
+ */
+export function describeOrder(
+  explanation: OrderExplanation,
+  earlier: TimelineNode,
+  later: TimelineNode
+): string {
+  const subject =
+    earlier.durationType === 'instant'
+      ? `"${earlier.name}" happens`
+      : `"${earlier.name}" ${explanation.endpoints === 'end-start' ? 'ends' : 'starts'}`;
+  const object =
+    later.durationType === 'instant' ? `"${later.name}"` : `"${later.name}" starts`;
+  return `${subject} ${explanation.strict ? 'before' : 'no later than'} ${object}`;
+}
+
+/**
+ * Explain where the solver placed each node.
+ *
+ * Every endpoint's distance in the Bellman-Ford result was set by the last
+ * edge to relax it, so following predecessors back to the virtual source
+ * gives the chain of constraints that pushed the endpoint to where it is.
+ * An empty chain means nothing pushed it, so it sits as late as the layout
+ * allows.
+ *
+ * @param network - The satisfied network, with virtual source
+ * @param bellmanFordResult - Solution used for positions
+ */
+export function explainPositions(
+  nodes: TimelineNode[],
+  network: SimpleTemporalNetwork,
+  bellmanFordResult: BellmanFordResult
+): PositionExplanation[] {
+  const { predecessors } = bellmanFordResult;
+  const instantIds = new Set(
+    nodes.filter((node) => node.durationType === 'instant').map((node) => node.id)
+  );
+
+  // Paths share their beginnings, so each is traced from where another left off
+  const traced = new Map<string, ReasoningStep[]>();
+  return nodes.map((node) => {
+    const { start, end } = getNodeVariables(node.id);
+    return {
+      nodeId: node.id,
+      start: tracePath(network, predecessors, start, instantIds, traced),
+      end: tracePath(network, predecessors, end, instantIds, traced),
+    };
+  });
+}
@@ -0,0 +1,177 @@
+/**
+ * Result of a minimum-weight hitting set search
+ */
+export interface HittingSetResult {
+  /** Chosen elements, one or more from every set */
+  elements: Set<string>;
+  /** Total weight of the chosen elements */
+  weight: number;
+  /** Whether the search finished, proving the result is minimal */
+  complete: boolean;
+}
+
+/**
+ * Upper bound on search nodes before giving up on proving optimality
+ */
+const MAX_HITTING_SET_EXPANSIONS = 20000;
+
+/**
+ * Find a minimum-weight set of elements that intersects every given set.
+ *
+ * Sets that share no elements, directly or through other sets, are
+ * independent, so each group of them is searched on its own and the
+ * results combined. Timelines usually contradict themselves in several
+ * unrelated places, and this keeps the search from multiplying them together.
+ * The groups share the expansion limit.
+ */
+export function findMinimumHittingSet(
+  sets: Set<string>[],
+  getWeight: (element: string) => number,
+  maxExpansions = MAX_HITTING_SET_EXPANSIONS
+): HittingSetResult {
+  const result: HittingSetResult = { elements: new Set(), weight: 0, complete: true };
+  let remaining = maxExpansions;
+  for (const group of groupOverlappingSets(sets)) {
+    const { elements, weight, complete, expansions } = searchHittingSet(
+      group,
+      getWeight,
+      remaining
+    );
+    for (const element of elements) result.elements.add(element);
+    result.weight += weight;
+    result.complete &&= complete;
+    remaining -= expansions;
+  }
+  return result;
+}
+
+/**
+ * Split sets into groups that share no elements with each other
+ */
+function groupOverlappingSets(sets: Set<string>[]): Set<string>[][] {
+  // Union-find over set indices, joined through the elements they share
+  const parents = sets.map((_, index) => index);
+  const find = (index: number): number => {
+    let root = index;
+    while ((parents[root] ?? root) !== root) root = parents[root] ?? root;
+    parents[index] = root;
+    return root;
+  };
+
+  const owners = new Map<string, number>();
+  sets.forEach((set, index) => {
+    for (const element of set) {
+      const owner = owners.get(element);
+      if (owner === undefined) owners.set(element, index);
+      else parents[find(index)] = find(owner);
+    }
+  });
+
+  const groups = new Map<number, Set<string>[]>();
+  sets.forEach((set, index) => {
+    const root = find(index);
+    const group = groups.get(root) ?? [];
+    group.push(set);
+    groups.set(root, group);
+  });
+  return [...groups.values()];
+}
+
+/**
+ * Find the minimum-weight hitting set of one group of sets.
+ *
+ * Branch-and-bound: pick the unhit set with the fewest candidates and branch
+ * on each of its elements (lightest first), excluding the elements already
+ * tried in earlier branches so no selection is visited twice. Branches are
+ * pruned with a lower bound from a greedy packing of disjoint unhit sets,
+ * each of which must still cost at least its lightest element.
+ *
+ * If the expansion limit is hit the best selection found so far is returned
+ * with complete = false.
+ */
+function searchHittingSet(
+  sets: Set<string>[],
+  getWeight: (element: string) => number,
+  maxExpansions: number
+): HittingSetResult & { expansions: number } {
+  // Best selection found so far, and whether the search ran to the end
+  const incumbent: { elements: Set<string> | null; weight: number; complete: boolean } = {
+    elements: null,
+    weight: Infinity,
+    complete: true,
+  };
+  let expansions = 0;
+
+  const chosen = new Set<string>();
+  const excluded = new Set<string>();
+
+  const candidatesOf = (set: Set<string>): string[] =>
+    [...set].filter((element) => !excluded.has(element));
+
+  const isHit = (set: Set<string>): boolean => {
+    for (const element of set) {
+      if (chosen.has(element)) return true;
+    }
+    return false;
+  };
+
+  const lowerBound = (unhit: Set<string>[]): number => {
+    const used = new Set<string>();
+    let bound = 0;
+    for (const set of unhit) {
+      const candidates = candidatesOf(set);
+      if (candidates.some((element) => used.has(element))) continue;
+      for (const element of candidates) used.add(element);
+      bound += Math.min(...candidates.map(getWeight));
+    }
+    return bound;
+  };
+
+  const search = (weight: number): void => {
+    if (expansions >= maxExpansions) {
+      incumbent.complete = false;
+      return;
+    }
+    expansions++;
+
+    const unhit = sets.filter((set) => !isHit(set));
+    if (unhit.length === 0) {
+      if (weight < incumbent.weight) {
+        incumbent.elements = new Set(chosen);
+        incumbent.weight = weight;
+      }
+      return;
+    }
+
+    // A set whose every element has been ruled out can't be hit on this branch
+    if (unhit.some((set) => candidatesOf(set).length === 0)) return;
+    if (weight + lowerBound(unhit) >= incumbent.weight) return;
+
+    const branchSet = unhit.reduce((a, b) =>
+      candidatesOf(b).length < candidatesOf(a).length ? b : a
+    );
+    const candidates = candidatesOf(branchSet).sort((a, b) => getWeight(a) - getWeight(b));
+    const tried: string[] = [];
+
+    for (const element of candidates) {
+      chosen.add(element);
+      search(weight + getWeight(element));
+      chosen.delete(element);
+
+      // Later branches never pick this element, so they can't repeat this one
+      excluded.add(element);
+      tried.push(element);
+    }
+
+    for (const element of tried) excluded.delete(element);
+  };
+
+  search(0);
+
+  return {
+    elements: incumbent.elements ?? new Set(),
+    weight: incumbent.weight,
+    complete: incumbent.complete && incumbent.elements !== null,
+    expansions,
+  };
+}
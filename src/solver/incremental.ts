@@ -0,0 +1,578 @@
+import type {
+  AllenRelation,
+  RelationshipId,
+  TemporalRelationship,
+  TimelineNode,
+} from '../types';
+import { CONFIDENCE_WEIGHTS } from '../types';
+import { allenToConstraints } from './constraints';
+import {
+  checkNetworkConsistency,
+  getCycleOrigins,
+  popQueued,
+  pushQueued,
+  type BellmanFordResult,
+  type QueuedVertex,
+} from './propagation';
+import { buildNetwork } from './relaxation';
+import {
+  SimpleTemporalNetwork,
+  VIRTUAL_SOURCE,
+  addVirtualSource,
+  rankRelationships,
+  type STNEdge,
+} from './stn';
+import {
+  ZERO_WEIGHT,
+  addWeights,
+  isLessThan,
+  subtractWeights,
+  type Weight,
+} from './weights';
+
+/**
+ * A network holding the relationships an engine was asked about, with its
+ * consistency check
+ */
+export interface IncrementalCheck {
+  /** Copy of the engine's network, safe to keep */
+  network: SimpleTemporalNetwork;
+  /**
+   * Shortest paths through the network. If infeasible, the negative cycle
+   * that the first relationship left out would have closed.
+   */
+  result: BellmanFordResult;
+  /**
+   * Relationships on the cycle each left-out relationship would have closed,
+   * the first matching the result. Each set is contradictory on its own, and
+   * starts with the relationship that was left out.
+   */
+  conflicts: Set<RelationshipId>[];
+}
+
+/**
+ * Distance and predecessor of a vertex before a propagation changed them
+ */
+interface SavedLabel {
+  distance: Weight;
+  predecessor: string | null;
+}
+
+/**
+ * A relationship left out because it closed a negative cycle, with what the
+ * rest of that cycle relied on
+ */
+interface Rejection {
+  content: string;
+  cycle: STNEdge[];
+  /** Other relationships on the cycle, by what they contributed then */
+  held: [RelationshipId, string][];
+}
+
+// Checks within one solve pass the same objects again and again
+const nodeDescriptions = new WeakMap<TimelineNode[], string>();
+const relationshipDescriptions = new WeakMap<TemporalRelationship, string>();
+
+/**
+ * Everything about the nodes that shapes the network's fixed part
+ */
+function describeNodes(nodes: TimelineNode[]): string {
+  let description = nodeDescriptions.get(nodes);
+  if (description === undefined) {
+    description = JSON.stringify(
+      nodes.map((node) => [node.id, node.durationType, node.duration ?? null, node.pin ?? null])
+    );
+    nodeDescriptions.set(nodes, description);
+  }
+  return description;
+}
+
+/**
+ * Everything about a relationship that shapes its constraints
+ */
+function describeRelationship(rel: TemporalRelationship): string {
+  let description = relationshipDescriptions.get(rel);
+  if (description === undefined) {
+    description = JSON.stringify([rel.sourceId, rel.targetId, rel.relations, rel.gap ?? null]);
+    relationshipDescriptions.set(rel, description);
+  }
+  return description;
+}
+
+/**
+ * Simple Temporal Network that stays consistent between checks, updating its
+ * shortest paths as relationships come and go instead of starting over.
+ *
+ * The engine holds the nodes' durations and pins, a consistent subset of the
+ * relationships, and the shortest distance to every vertex from the virtual
+ * source, which serves as the network's potential function. Each update
+ * compares the relationships it is given with those it holds:
+ *
+ * - A removed or edited relationship loosens its edges. Only vertices whose
+ *   shortest path ran through one of them, and their descendants in the
+ *   shortest path tree, can move; they are reset and settled again.
+ * - An added relationship tightens its edges. Distances are lowered outward
+ *   from each tightened edge, and if the lowering reaches back to the edge's
+ *   own tail, the edge closes a negative cycle. The relationship is then
+ *   rolled back and left out, so the engine stays consistent.
+ *
+ * Changes to nodes, or to more than half the relationships, rebuild the
+ * network with one Bellman-Ford pass instead. Only relationships with a single
+ * relation are held; disjunctions are searched on top of the engine's network.
+ */
+export class IncrementalSTN {
+  private network = new SimpleTemporalNetwork();
+  private distances = new Map<string, Weight>();
+  private predecessors = new Map<string, string | null>();
+  /** Relationships in the network, by what they contributed */
+  private contents = new Map<RelationshipId, string>();
+  /** Nodes the network was built for, or null before the first update */
+  private nodesKey: string | null = null;
+  /** Set when the nodes' durations and pins contradict each other */
+  private baseFailure: BellmanFordResult | null = null;
+  /** Relationships left out, kept until a relationship they hit changes */
+  private rejections = new Map<RelationshipId, Rejection>();
+  /** Assumed relationships, most recent last, with the labels each changed */
+  private assumptions: { id: RelationshipId; journal: Map<string, SavedLabel> }[] = [];
+
+  /**
+   * Bring the network in line with the given nodes and relationships, and
+   * check it. Relationships with more than one relation are ignored.
+   */
+  update(nodes: TimelineNode[], relationships: TemporalRelationship[]): IncrementalCheck {
+    const definite = relationships.filter((r) => r.relations.length === 1);
+    const nodesKey = describeNodes(nodes);
+    this.assumptions = [];
+    const targets = new Map(definite.map((r) => [r.id, describeRelationship(r)]));
+
+    if (nodesKey !== this.nodesKey) return this.rebuild(nodes, definite, nodesKey);
+    if (this.baseFailure) return this.snapshot(this.baseFailure, []);
+
+    const stale = [...this.contents].filter(([id, content]) => targets.get(id) !== content);
+    const fresh = definite.filter((r) => this.contents.get(r.id) !== targets.get(r.id));
+    const changed = fresh.filter((r) => this.rejections.get(r.id)?.content !== targets.get(r.id));
+    if (stale.length + changed.length > Math.max(definite.length, this.contents.size) / 2) {
+      return this.rebuild(nodes, definite, nodesKey);
+    }
+
+    // Loosen first, so additions propagate through the smallest network
+    this.remove(stale.map(([id]) => id));
+    return this.report(this.addAll(fresh));
+  }
+
+  /**
+   * Start from a copy of a consistent network and its shortest paths, to
+   * edit with assume() and retract(). The next update() starts from scratch.
+   */
+  load(network: SimpleTemporalNetwork, result: BellmanFordResult): void {
+    this.reset();
+    this.adopt(network.clone(), result);
+  }
+
+  /**
+   * Add a relationship with the given relation, or leave it out and return
+   * the negative cycle it would close
+   */
+  assume(rel: TemporalRelationship, relation: AllenRelation): STNEdge[] | null {
+    const journal = new Map<string, SavedLabel>();
+    const cycle = this.add(rel, relation, journal);
+    if (!cycle) this.assumptions.push({ id: rel.id, journal });
+    return cycle;
+  }
+
+  /**
+   * Take a relationship back out. Retracting the latest assumption just puts
+   * back the labels it changed, so a search that backtracks in order never
+   * has to propagate a removal.
+   */
+  retract(id: RelationshipId): void {
+    const latest = this.assumptions[this.assumptions.length - 1];
+    if (latest?.id !== id) {
+      // Earlier journals no longer describe the network once this is gone
+      this.assumptions = [];
+      this.remove([id]);
+      return;
+    }
+
+    this.assumptions.pop();
+    this.contents.delete(id);
+    this.network.removeRelationshipEdges(id);
+    this.restore(latest.journal);
+  }
+
+  /**
+   * Copy of the network as it stands, which is always consistent
+   */
+  check(): IncrementalCheck {
+    return this.snapshot(null, []);
+  }
+
+  /**
+   * Forget everything, so the next update starts from scratch
+   */
+  reset(): void {
+    this.network = new SimpleTemporalNetwork();
+    this.distances.clear();
+    this.predecessors.clear();
+    this.contents.clear();
+    this.nodesKey = null;
+    this.baseFailure = null;
+    this.rejections.clear();
+    this.assumptions = [];
+  }
+
+  /**
+   * Start over from the nodes. A consistent timeline costs one Bellman-Ford
+   * pass. Otherwise relationships go in by confidence, most confident first,
+   * keeping as many as fit so that later updates have a consistent network to
+   * edit. Those left out are then the least confident, which relaxation would
+   * pick anyway. A confidence level that fits as a whole also takes one pass;
+   * one that doesn't is added a relationship at a time.
+   *
+   * An addition moves every vertex downstream of it that is already there,
+   * so relationships go in by where their nodes sit in the full network's
+   * order, upstream first. Then most additions only move their own nodes.
+   */
+  private rebuild(
+    nodes: TimelineNode[],
+    definite: TemporalRelationship[],
+    nodesKey: string
+  ): IncrementalCheck {
+    this.reset();
+    this.nodesKey = nodesKey;
+
+    const full = buildNetwork(nodes, definite);
+    addVirtualSource(full);
+    const fullResult = checkNetworkConsistency(full);
+    if (fullResult.feasible) {
+      this.adopt(full, fullResult);
+      for (const rel of definite) this.contents.set(rel.id, describeRelationship(rel));
+      return this.snapshot(null, []);
+    }
+
+    const base = buildNetwork(nodes, []);
+    addVirtualSource(base);
+    const baseResult = checkNetworkConsistency(base);
+    this.adopt(base, baseResult);
+    if (!baseResult.feasible) {
+      this.baseFailure = baseResult;
+      return this.snapshot(baseResult, []);
+    }
+
+    const rankOf = rankRelationships(full, definite);
+    const ordered = [...definite].sort(
+      (a, b) => (rankOf.get(a.id) ?? 0) - (rankOf.get(b.id) ?? 0)
+    );
+
+    const cycles: [RelationshipId, STNEdge[]][] = [];
+    let kept: TemporalRelationship[] = [];
+    const confidences = [...new Set(definite.map((rel) => rel.confidence))].sort(
+      (a, b) => CONFIDENCE_WEIGHTS[b] - CONFIDENCE_WEIGHTS[a]
+    );
+    for (const confidence of confidences) {
+      const level = ordered.filter((rel) => rel.confidence === confidence);
+
+      const network = buildNetwork(nodes, [...kept, ...level]);
+      addVirtualSource(network);
+      const result = checkNetworkConsistency(network);
+      if (result.feasible) {
+        this.adopt(network, result);
+        for (const rel of level) this.contents.set(rel.id, describeRelationship(rel));
+        kept = [...kept, ...level];
+      } else {
+        cycles.push(...this.addAll(level));
+        kept = [...kept, ...level.filter((rel) => this.contents.has(rel.id))];
+      }
+    }
+    return this.report(cycles);
+  }
+
+  private adopt(network: SimpleTemporalNetwork, result: BellmanFordResult): void {
+    this.network = network;
+    this.distances = new Map(result.distances);
+    this.predecessors = new Map(result.predecessors);
+  }
+
+  /**
+   * Add relationships in turn, leaving out any that would close a negative
+   * cycle. Returns those left out, in order, with the cycles they closed.
+   *
+   * A relationship left out before is not tried again while the rest of its
+   * cycle is unchanged, since it would only close the same cycle.
+   */
+  private addAll(relationships: TemporalRelationship[]): [RelationshipId, STNEdge[]][] {
+    const cycles: [RelationshipId, STNEdge[]][] = [];
+    for (const rel of relationships) {
+      const rejection = this.rejections.get(rel.id);
+      const cycle = rejection?.content === describeRelationship(rel) &&
+        rejection.held.every(([id, content]) => this.contents.get(id) === content)
+        ? rejection.cycle
+        : this.add(rel);
+      if (cycle) cycles.push([rel.id, cycle]);
+    }
+    return cycles;
+  }
+
+  /**
+   * Add one relationship's constraints, or roll them back and return the
+   * negative cycle they would close
+   */
+  private add(
+    rel: TemporalRelationship,
+    relation: AllenRelation | undefined = rel.relations[0],
+    journal = new Map<string, SavedLabel>()
+  ): STNEdge[] | null {
+    if (!relation) return null;
+    this.contents.delete(rel.id);
+
+    for (const constraint of allenToConstraints(rel.sourceId, rel.targetId, relation, rel.gap)) {
+      this.ensureVertex(constraint.from);
+      this.ensureVertex(constraint.to);
+      this.network.addConstraint(constraint, { kind: 'relationship', id: rel.id });
+      const edge = this.network.getEdge(constraint.from, constraint.to);
+      if (!edge) continue;
+
+      const cycle = this.tighten(edge, journal);
+      if (cycle) {
+        this.network.removeRelationshipEdges(rel.id);
+        this.restore(journal);
+        const { relationshipIds } = getCycleOrigins(cycle);
+        this.rejections.set(rel.id, {
+          content: describeRelationship({ ...rel, relations: [relation] }),
+          cycle,
+          held: [...relationshipIds]
+            .filter((id) => id !== rel.id)
+            .map((id) => [id, this.contents.get(id) ?? '']),
+        });
+        return cycle;
+      }
+    }
+
+    this.rejections.delete(rel.id);
+    this.contents.set(rel.id, describeRelationship({ ...rel, relations: [relation] }));
+    return null;
+  }
+
+  /**
+   * Put back the labels a journal saved
+   */
+  private restore(journal: Map<string, SavedLabel>): void {
+    for (const [vertex, saved] of journal) {
+      this.distances.set(vertex, saved.distance);
+      this.predecessors.set(vertex, saved.predecessor);
+    }
+  }
+
+  /**
+   * Take relationships out and let the vertices they held down settle again.
+   * They all come out before anything settles, so each vertex does so once.
+   */
+  private remove(ids: RelationshipId[]): void {
+    // Only shortest paths through a loosened edge can lengthen
+    const stack: string[] = [];
+    for (const id of ids) {
+      this.contents.delete(id);
+      for (const edge of this.network.removeRelationshipEdges(id)) {
+        if (this.predecessors.get(edge.to) === edge.from) stack.push(edge.to);
+      }
+    }
+    if (stack.length === 0) return;
+
+    const children = new Map<string, string[]>();
+    for (const [vertex, predecessor] of this.predecessors) {
+      if (predecessor === null) continue;
+      const list = children.get(predecessor) ?? [];
+      list.push(vertex);
+      children.set(predecessor, list);
+    }
+    const affected = new Set<string>();
+    while (stack.length > 0) {
+      const vertex = stack.pop();
+      if (vertex === undefined || affected.has(vertex)) continue;
+      affected.add(vertex);
+      stack.push(...(children.get(vertex) ?? []));
+    }
+
+    // Loosening keeps the old distances a potential, and nothing outside the
+    // affected part moves, so each affected vertex settles from its cheapest
+    // edge in from the rest
+    const starts: QueuedVertex[] = [];
+    for (const vertex of affected) {
+      for (const edge of this.network.getIncomingEdges(vertex)) {
+        if (affected.has(edge.from)) continue;
+        starts.push({ vertex, shift: this.reducedCost(edge), predecessor: edge.from });
+      }
+    }
+    this.settle(starts, affected);
+  }
+
+  /**
+   * Lower distances across a tightened edge and onward. Returns the negative
+   * cycle if the lowering comes back around to the edge's tail.
+   */
+  private tighten(edge: STNEdge, journal: Map<string, SavedLabel>): STNEdge[] | null {
+    if (!this.lower(edge, journal)) return null;
+    if (edge.to === edge.from || !this.propagate([edge.to], edge.from, journal)) {
+      return this.traceCycle(edge.from);
+    }
+    return null;
+  }
+
+  /**
+   * Relax edges out of the given vertices until every edge holds, in the
+   * manner of a queue-based Bellman-Ford. Returns false as soon as the guard
+   * vertex's distance drops.
+   */
+  private propagate(
+    starts: string[],
+    guard: string | null,
+    journal: Map<string, SavedLabel> | null
+  ): boolean {
+    const queue = [...starts];
+    const queued = new Set(starts);
+    // The loop also visits vertices pushed while it runs
+    for (const vertex of queue) {
+      queued.delete(vertex);
+      for (const edge of this.network.getOutgoingEdges(vertex)) {
+        if (!this.lower(edge, journal)) continue;
+        if (edge.to === guard) return false;
+        if (!queued.has(edge.to)) {
+          queued.add(edge.to);
+          queue.push(edge.to);
+        }
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Lower the distance to an edge's head if the edge offers a shorter path
+   */
+  private lower(edge: STNEdge, journal: Map<string, SavedLabel> | null): boolean {
+    const current = this.distances.get(edge.to) ?? ZERO_WEIGHT;
+    const through = addWeights(this.distances.get(edge.from) ?? ZERO_WEIGHT, edge.weight);
+    if (!isLessThan(through, current)) return false;
+    if (journal && !journal.has(edge.to)) {
+      journal.set(edge.to, {
+        distance: current,
+        predecessor: this.predecessors.get(edge.to) ?? null,
+      });
+    }
+    this.distances.set(edge.to, through);
+    this.predecessors.set(edge.to, edge.from);
+    return true;
+  }
+
+  /**
+   * How much shorter than the current distance to an edge's head the path
+   * across the edge is, or negated, how much longer
+   */
+  private reducedCost(edge: STNEdge): Weight {
+    const through = addWeights(this.distances.get(edge.from) ?? ZERO_WEIGHT, edge.weight);
+    return subtractWeights(through, this.distances.get(edge.to) ?? ZERO_WEIGHT);
+  }
+
+  /**
+   * Settle loosened vertices at their new distances, smallest shift first in
+   * the manner of Dijkstra's algorithm. The old distances are a potential for
+   * the loosened network and every other vertex stays put, so each loosened
+   * vertex settles once.
+   */
+  private settle(starts: QueuedVertex[], loosened: Set<string>): void {
+    const best = new Map<string, QueuedVertex>();
+    const queue: QueuedVertex[] = [];
+    const offer = (entry: QueuedVertex) => {
+      const current = best.get(entry.vertex);
+      if (current && !isLessThan(entry.shift, current.shift)) return;
+      best.set(entry.vertex, entry);
+      pushQueued(queue, entry);
+    };
+
+    starts.forEach(offer);
+    const settled = new Set<string>();
+    for (let entry = popQueued(queue); entry; entry = popQueued(queue)) {
+      const { vertex, shift, predecessor } = entry;
+      if (settled.has(vertex) || best.get(vertex) !== entry) continue;
+      settled.add(vertex);
+      this.distances.set(vertex, addWeights(this.distances.get(vertex) ?? ZERO_WEIGHT, shift));
+      this.predecessors.set(vertex, predecessor);
+
+      for (const edge of this.network.getOutgoingEdges(vertex)) {
+        if (settled.has(edge.to) || !loosened.has(edge.to)) continue;
+        offer({ vertex: edge.to, shift: this.reducedCost(edge), predecessor: vertex });
+      }
+    }
+  }
+
+  /**
+   * Follow predecessors from a vertex on a negative cycle back to itself
+   */
+  private traceCycle(start: string): STNEdge[] {
+    const cycle: STNEdge[] = [];
+    const visited = new Set<string>();
+    let vertex = start;
+    do {
+      visited.add(vertex);
+      const predecessor = this.predecessors.get(vertex);
+      if (predecessor === null || predecessor === undefined) break;
+      const edge = this.network.getEdge(predecessor, vertex);
+      if (edge) cycle.push(edge);
+      vertex = predecessor;
+    } while (vertex !== start && !visited.has(vertex));
+    return cycle.reverse();
+  }
+
+  /**
+   * Every vertex sits at most zero past the virtual source
+   */
+  private ensureVertex(vertex: string): void {
+    if (this.network.hasVertex(vertex)) return;
+    this.network.addVertex(vertex);
+    this.network.addEdge(VIRTUAL_SOURCE, vertex, ZERO_WEIGHT);
+    this.distances.set(vertex, ZERO_WEIGHT);
+    this.predecessors.set(vertex, VIRTUAL_SOURCE);
+  }
+
+  private describeFailure(cycle: STNEdge[]): BellmanFordResult {
+    const { relationshipIds, nodeIds, pinIds } = getCycleOrigins(cycle);
+    return {
+      feasible: false,
+      distances: new Map(this.distances),
+      predecessors: new Map(this.predecessors),
+      negativeCycleEdges: cycle,
+      conflictingRelationshipIds: relationshipIds,
+      conflictingNodeIds: nodeIds,
+      conflictingPinIds: pinIds,
+    };
+  }
+
+  /**
+   * Check result for the cycles that relationships were left out for
+   */
+  private report(cycles: [RelationshipId, STNEdge[]][]): IncrementalCheck {
+    const [first] = cycles;
+    return this.snapshot(
+      first ? this.describeFailure(first[1]) : null,
+      cycles.map(([id, cycle]) => new Set([id, ...getCycleOrigins(cycle).relationshipIds]))
+    );
+  }
+
+  private snapshot(
+    failure: BellmanFordResult | null,
+    conflicts: Set<RelationshipId>[]
+  ): IncrementalCheck {
+    return {
+      conflicts,
+      network: this.network.clone(),
+      result: failure ?? {
+        feasible: true,
+        distances: new Map(this.distances),
+        predecessors: new Map(this.predecessors),
+        negativeCycleEdges: null,
+        conflictingRelationshipIds: null,
+        conflictingNodeIds: null,
+        conflictingPinIds: null,
+      },
+    };
+  }
+}
@@ -0,0 +1,357 @@
+import type { LayoutObjective, NodeId, SolvedPosition, TimelineNode } from '../types';
+import { getNodeVariables, toBaseBounds } from './constraints';
+import { VIRTUAL_SOURCE, type SimpleTemporalNetwork } from './stn';
+import {
+  INFINITE_WEIGHT,
+  ZERO_WEIGHT,
+  addWeights,
+  compareWeights,
+  isLessThan,
+  negateWeight,
+  subtractWeights,
+  toWeight,
+  weightsEqual,
+  type Weight,
+} from './weights';
+
+/**
+ * Most passes over the groups before settling for the current layout
+ */
+const MAX_SWEEPS = 100;
+
+/**
+ * A pass that moves nothing further than this share of the span has converged
+ */
+const CONVERGENCE = 1e-4;
+
+const NEGATIVE_INFINITE_WEIGHT = negateWeight(INFINITE_WEIGHT);
+
+/**
+ * A variable's place in a rigid group: it always sits at the group root's
+ * position plus a fixed offset
+ */
+interface Membership {
+  root: string;
+  offset: Weight;
+}
+
+/**
+ * A bound on a group root from one edge leaving the group: root ≤ other + weight
+ * (upper) or root ≥ other − weight (lower), with the member's offset folded in
+ */
+interface GroupBound {
+  other: string;
+  weight: Weight;
+  upper: boolean;
+}
+
+/**
+ * A point the objective places: one or more node endpoints that always
+ * coincide, identified by its group and offset within it
+ */
+interface LayoutPoint {
+  root: string;
+  offset: Weight;
+  /** First node endpoint found at this point */
+  nodeId: NodeId;
+  endpoint: 'start' | 'end';
+  /** Interval whose end this is, if any, for proportional widths */
+  endOf?: { node: TimelineNode; start: string };
+}
+
+/**
+ * Split the variables into groups whose relative positions are fixed: pairs
+ * held at an exact distance by opposing edges (u → v of w and v → u of −w),
+ * as with "meets", "equals" or an instant's start and end. Moving one
+ * variable of such a pair alone is never possible, so the layout moves each
+ * group as a whole.
+ */
+function findRigidGroups(network: SimpleTemporalNetwork): Map<string, Membership> {
+  const parents = new Map<string, Membership>();
+
+  const find = (v: string): Membership => {
+    const parent = parents.get(v);
+    if (!parent) return { root: v, offset: ZERO_WEIGHT };
+    const top = find(parent.root);
+    const membership = { root: top.root, offset: addWeights(parent.offset, top.offset) };
+    parents.set(v, membership);
+    return membership;
+  };
+
+  for (const edge of network.getEdges()) {
+    if (edge.from === VIRTUAL_SOURCE || edge.to === VIRTUAL_SOURCE) continue;
+    const back = network.getEdge(edge.to, edge.from);
+    if (!back || !weightsEqual(back.weight, negateWeight(edge.weight))) continue;
+
+    // to − from = weight exactly
+    const from = find(edge.from);
+    const to = find(edge.to);
+    if (from.root === to.root) continue;
+    parents.set(to.root, {
+      root: from.root,
+      offset: subtractWeights(addWeights(from.offset, edge.weight), to.offset),
+    });
+  }
+
+  const groups = new Map<string, Membership>();
+  for (const v of network.getVertices()) {
+    if (v !== VIRTUAL_SOURCE) groups.set(v, find(v));
+  }
+  return groups;
+}
+
+/**
+ * Collect, for each group root, the bounds that edges leaving the group put
+ * on the root's position
+ */
+function collectGroupBounds(
+  network: SimpleTemporalNetwork,
+  groups: Map<string, Membership>
+): Map<string, GroupBound[]> {
+  const bounds = new Map<string, GroupBound[]>();
+  const add = (root: string, bound: GroupBound) => {
+    const list = bounds.get(root);
+    if (list) list.push(bound);
+    else bounds.set(root, [bound]);
+  };
+
+  for (const edge of network.getEdges()) {
+    const from = groups.get(edge.from);
+    const to = groups.get(edge.to);
+    if (from && from.root === to?.root) continue;
+
+    // to − from ≤ weight, with each side at its root plus offset
+    if (to) {
+      add(to.root, {
+        other: edge.from,
+        weight: subtractWeights(edge.weight, to.offset),
+        upper: true,
+      });
+    }
+    if (from) {
+      add(from.root, {
+        other: edge.to,
+        weight: addWeights(edge.weight, from.offset),
+        upper: false,
+      });
+    }
+  }
+  return bounds;
+}
+
+/**
+ * The node endpoints the objective places, with coinciding endpoints merged
+ */
+function collectPoints(nodes: TimelineNode[], groups: Map<string, Membership>): LayoutPoint[] {
+  const points = new Map<string, LayoutPoint>();
+
+  for (const node of nodes) {
+    const { start, end } = getNodeVariables(node.id);
+    const variables = node.durationType === 'interval' ? [start, end] : [start];
+    for (const variable of variables) {
+      const membership = groups.get(variable);
+      if (!membership) continue;
+      const key = `${membership.root}|${String(membership.offset.value)}|${String(membership.offset.infinitesimal)}`;
+      if (points.has(key)) continue;
+      points.set(key, {
+        ...membership,
+        nodeId: node.id,
+        endpoint: variable === end ? 'end' : 'start',
+        ...(variable === end && { endOf: { node, start } }),
+      });
+    }
+  }
+  return [...points.values()];
+}
+
+/**
+ * Width to aim for when drawing an interval: the middle of its known
+ * duration, or the fallback if nothing is known
+ */
+function targetWidth(node: TimelineNode, fallback: number): number {
+  const { min, max } = toBaseBounds(node.duration);
+  if (min !== undefined && max !== undefined) return (min + max) / 2;
+  if (min !== undefined) return Math.max(min, fallback);
+  if (max !== undefined) return Math.min(max, fallback);
+  return fallback;
+}
+
+/**
+ * Turn previous positions, as fractions of their part's extent, into layout
+ * targets stretched over the span, so a layout that hits every target
+ * displays exactly as before.
+ */
+function hintTargets(
+  points: LayoutPoint[],
+  hint: SolvedPosition[],
+  span: number
+): Map<LayoutPoint, number> {
+  const targets = new Map<LayoutPoint, number>();
+  const byNode = new Map(hint.map((position) => [position.nodeId, position]));
+  for (const point of points) {
+    const previous = byNode.get(point.nodeId);
+    if (!previous) continue;
+    targets.set(point, -span + previous[point.endpoint] * span);
+  }
+  return targets;
+}
+
+/**
+ * Lay the timeline out to suit an objective while satisfying every
+ * constraint in the network.
+ *
+ * Starts from the shortest-path solution, which is feasible, and runs block
+ * coordinate descent: each rigid group in turn moves as close to its target
+ * as the edges to other groups allow, given where the others currently are.
+ * Every step keeps the layout feasible, so stopping early is always safe.
+ * Positions stay exact weights, so strict bounds still hold however close
+ * two points end up.
+ *
+ * Targets come from the objective and are recomputed each sweep:
+ * - even: points evenly spread over the span in their current order
+ * - proportional: starts evenly spread, interval ends one width after
+ *   their start
+ * - compact: every point at the middle of the shortest-path solution
+ *
+ * The span spread over is twice the shortest-path solution's, and at least
+ * one unit per point (purely qualitative timelines have a span of zero).
+ *
+ * Given the previous layout as a hint, every node that was in it aims for
+ * where it was instead, so an edit moves only what it has to; only new nodes
+ * follow the objective.
+ * The result is shifted to end at the virtual source, as the shortest-path
+ * solution does.
+ *
+ * @param network - The satisfied network, with virtual source
+ * @param distances - Feasible positions to start from, e.g. Bellman-Ford distances
+ * @param hint - Previous positions, as fractions of the extent of the part each
+ *   node was in
+ */
+export function optimizeLayout(
+  nodes: TimelineNode[],
+  network: SimpleTemporalNetwork,
+  distances: Map<string, Weight>,
+  objective: LayoutObjective,
+  hint: SolvedPosition[] = []
+): Map<string, Weight> {
+  if ((objective === 'earliest' && hint.length === 0) || nodes.length === 0) return distances;
+
+  const groups = findRigidGroups(network);
+  const groupBounds = collectGroupBounds(network, groups);
+  const points = collectPoints(nodes, groups);
+  if (points.length === 0) return distances;
+
+  // Positions of group roots; every other variable follows its root
+  const rootPositions = new Map<string, Weight>();
+  for (const [variable, { root }] of groups) {
+    if (variable === root) rootPositions.set(root, distances.get(root) ?? ZERO_WEIGHT);
+  }
+  const positionOf = (variable: string): Weight => {
+    if (variable === VIRTUAL_SOURCE) return ZERO_WEIGHT;
+    const membership = groups.get(variable);
+    if (!membership) return distances.get(variable) ?? ZERO_WEIGHT;
+    return addWeights(rootPositions.get(membership.root) ?? ZERO_WEIGHT, membership.offset);
+  };
+  const pointPosition = (point: LayoutPoint): Weight =>
+    addWeights(rootPositions.get(point.root) ?? ZERO_WEIGHT, point.offset);
+
+  // The shortest-path span is as tight as the constraints allow, so double
+  // it to leave room for the events they don't space out
+  const values = points.map((point) => pointPosition(point).value);
+  const tightSpan = Math.max(...values) - Math.min(...values);
+  const span = Math.max(2 * tightSpan, points.length - 1);
+  const placed = objective === 'proportional' ? points.filter((p) => !p.endOf) : points;
+  const unit = span / Math.max(1, placed.length - 1);
+  const hinted = hintTargets(points, hint, span);
+
+  // Target for each point, as a number
+  const computeTargets = (): Map<LayoutPoint, number> => {
+    const targets = new Map<LayoutPoint, number>(hinted);
+    if (objective === 'earliest') {
+      // Nothing to aim for beyond staying put
+      for (const point of points) {
+        if (!targets.has(point)) targets.set(point, pointPosition(point).value);
+      }
+      return targets;
+    }
+    if (objective === 'compact') {
+      for (const point of points) {
+        if (!targets.has(point)) targets.set(point, -tightSpan / 2);
+      }
+      return targets;
+    }
+
+    // Current order, ties kept in node order
+    const ordered = [...placed].sort((a, b) =>
+      compareWeights(pointPosition(a), pointPosition(b))
+    );
+    ordered.forEach((point, rank) => {
+      if (!targets.has(point)) targets.set(point, ordered.length === 1 ? 0 : -span + rank * unit);
+    });
+
+    for (const point of points) {
+      if (!point.endOf || targets.has(point)) continue;
+      targets.set(point, positionOf(point.endOf.start).value + targetWidth(point.endOf.node, unit));
+    }
+    return targets;
+  };
+
+  for (let sweep = 0; sweep < MAX_SWEEPS; sweep++) {
+    const targets = computeTargets();
+
+    // A group aims for the average of its points' targets, less their offsets
+    const rootTargets = new Map<string, { sum: number; count: number }>();
+    for (const [point, target] of targets) {
+      const entry = rootTargets.get(point.root) ?? { sum: 0, count: 0 };
+      entry.sum += target - point.offset.value;
+      entry.count++;
+      rootTargets.set(point.root, entry);
+    }
+
+    // Groups are visited in order of position, alternating direction: a
+    // chain can only move left from its left end, and right from its right
+    const roots = [...rootTargets.keys()].sort((a, b) =>
+      compareWeights(rootPositions.get(a) ?? ZERO_WEIGHT, rootPositions.get(b) ?? ZERO_WEIGHT)
+    );
+    if (sweep % 2 === 1) roots.reverse();
+
+    let largestMove = 0;
+    for (const root of roots) {
+      const { sum, count } = rootTargets.get(root) ?? { sum: 0, count: 1 };
+      let lower = NEGATIVE_INFINITE_WEIGHT;
+      let upper = INFINITE_WEIGHT;
+      for (const bound of groupBounds.get(root) ?? []) {
+        const other = positionOf(bound.other);
+        if (bound.upper) {
+          const limit = addWeights(other, bound.weight);
+          if (isLessThan(limit, upper)) upper = limit;
+        } else {
+          const limit = subtractWeights(other, bound.weight);
+          if (isLessThan(lower, limit)) lower = limit;
+        }
+      }
+
+      const current = rootPositions.get(root) ?? ZERO_WEIGHT;
+      const target = toWeight(sum / count);
+      const next = isLessThan(target, lower) ? lower : isLessThan(upper, target) ? upper : target;
+      largestMove = Math.max(largestMove, Math.abs(next.value - current.value));
+      rootPositions.set(root, next);
+    }
+
+    if (largestMove <= CONVERGENCE * span) break;
+  }
+
+  // Shift flush against the virtual source, so the latest point is at zero
+  let latest: Weight | null = null;
+  for (const variable of groups.keys()) {
+    const position = positionOf(variable);
+    if (!latest || isLessThan(latest, position)) latest = position;
+  }
+
+  const result = new Map<string, Weight>();
+  for (const variable of groups.keys()) {
+    result.set(variable, subtractWeights(positionOf(variable), latest ?? ZERO_WEIGHT));
+  }
+  result.set(VIRTUAL_SOURCE, ZERO_WEIGHT);
+  return result;
+}
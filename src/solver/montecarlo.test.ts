@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import type { AllenRelation, TemporalRelationship, TimelineNode } from '../types';
+import { runMonteCarlo } from './montecarlo';
+
+const node = (id: string): TimelineNode => ({
+  id,
+  name: id,
+  description: '',
+  durationType: 'interval',
+  enabled: true,
+  createdAt: 0,
+  updatedAt: 0,
+});
+
+const relate = (
+  sourceId: string,
+  relations: AllenRelation[],
+  targetId: string
+): TemporalRelationship => ({
+  id: `${sourceId}-${targetId}`,
+  sourceId,
+  targetId,
+  relations,
+  confidence: 'explicit',
+  enabled: true,
+  createdAt: 0,
+  updatedAt: 0,
+});
+
+describe('runMonteCarlo', () => {
+  const nodes = ['a', 'b', 'c', 'd', 'e'].map(node);
+  const relationships = [
+    relate('a', ['before'], 'b'),
+    relate('c', ['before'], 'd'),
+    relate('d', ['before'], 'e'),
+  ];
+  const result = runMonteCarlo({ nodes, relationships, samples: 5 });
+  const orderOf = (sourceId: string, targetId: string) =>
+    result.orderProbabilities.find((o) => o.sourceId === sourceId && o.targetId === targetId);
+
+  it('counts orders the relationships force, including through chains', () => {
+    expect(orderOf('a', 'b')).toMatchObject({ before: 1, after: 0, undetermined: 0 });
+    expect(orderOf('c', 'e')).toMatchObject({ before: 1, after: 0, undetermined: 0 });
+  });
+
+  it('leaves unrelated events undetermined whatever the layout does', () => {
+    expect(orderOf('a', 'd')).toMatchObject({ before: 0, after: 0, undetermined: 1 });
+    expect(orderOf('b', 'c')).toMatchObject({ before: 0, after: 0, undetermined: 1 });
+  });
+
+  it('only ranks events whose every order is forced', () => {
+    const single = runMonteCarlo({ nodes: nodes.slice(2), relationships: relationships.slice(1), samples: 3 });
+    expect(single.distributions.map((d) => d.ranks.indexOf(1))).toEqual([0, 1, 2]);
+
+    const ranked = result.distributions.find((d) => d.nodeId === 'a');
+    expect(ranked?.undeterminedRank).toBe(1);
+    expect(ranked?.ranks.every((p) => p === 0)).toBe(true);
+  });
+
+  it('counts orders every relation of a disjunctive relationship forces', () => {
+    const disjunctive = runMonteCarlo({
+      nodes: nodes.slice(0, 2),
+      relationships: [relate('a', ['before', 'meets'], 'b')],
+      samples: 3,
+    });
+    expect(disjunctive.orderProbabilities[0]).toMatchObject({ before: 1, undetermined: 0 });
+
+    const either = runMonteCarlo({
+      nodes: nodes.slice(0, 2),
+      relationships: [relate('a', ['before', 'after'], 'b')],
+      samples: 3,
+    });
+    expect(either.orderProbabilities[0]).toMatchObject({ before: 0, after: 0, undetermined: 1 });
+  });
+});
@@ -0,0 +1,262 @@
+import type {
+  AnalysisProgress,
+  MonteCarloResult,
+  NodeDistribution,
+  OrderProbability,
+  TemporalRelationship,
+  TimelineNode,
+} from '../types';
+import { CONFIDENCE_PROBABILITIES, DEFAULT_SOLVER_SETTINGS, isHardRelationship } from '../types';
+import { solveInSteps, type SolverInput } from './solver';
+import { IncrementalSTN } from './incremental';
+import { buildNetwork } from './relaxation';
+import { allenToConstraints, getNodeVariables, type DifferenceConstraint } from './constraints';
+import { SimpleTemporalNetwork, addVirtualSource } from './stn';
+import { checkNetworkConsistency, computeDistancesFrom } from './propagation';
+import {
+  INFINITE_WEIGHT,
+  ZERO_WEIGHT,
+  isLessThan,
+  toWeight,
+  weightsEqual,
+  type Weight,
+} from './weights';
+import { runSteps, withoutProgress, type Steps } from './steps';
+
+/**
+ * Input to probabilistic analysis
+ */
+export interface MonteCarloInput extends SolverInput {
+  samples: number;
+}
+
+/**
+ * Share of samples cut from each end of a node's position range
+ */
+const RANGE_TAIL = 0.05;
+
+/**
+ * Value at the given fraction of the way through sorted values
+ */
+function quantile(sorted: number[], fraction: number): number {
+  const index = Math.min(sorted.length - 1, Math.floor(fraction * sorted.length));
+  return sorted[index] ?? 0;
+}
+
+/**
+ * Weight of a difference constraint's bound
+ */
+const boundOf = (constraint: DifferenceConstraint): Weight =>
+  toWeight(constraint.maxDiff, constraint.strict);
+
+/**
+ * Bounds a disjunctive relationship keeps whichever of its relations holds:
+ * for each pair of endpoints every relation bounds, the loosest of their
+ * bounds
+ */
+function sharedConstraints(relationship: TemporalRelationship): DifferenceConstraint[] {
+  let shared: Map<string, DifferenceConstraint> | null = null;
+  for (const relation of relationship.relations) {
+    const tightest = new Map<string, DifferenceConstraint>();
+    const constraints = allenToConstraints(
+      relationship.sourceId,
+      relationship.targetId,
+      relation,
+      relationship.gap
+    );
+    for (const constraint of constraints) {
+      const key = `${constraint.from}|${constraint.to}`;
+      const known = tightest.get(key);
+      if (!known || isLessThan(boundOf(constraint), boundOf(known))) tightest.set(key, constraint);
+    }
+
+    if (shared === null) {
+      shared = tightest;
+      continue;
+    }
+    for (const [key, constraint] of shared) {
+      const other = tightest.get(key);
+      if (!other) shared.delete(key);
+      else if (isLessThan(boundOf(constraint), boundOf(other))) shared.set(key, other);
+    }
+  }
+  return [...(shared?.values() ?? [])];
+}
+
+/**
+ * Network of what a sample's relationships require of every timeline they
+ * allow, not just the one laid out: relationships with one relation as they
+ * stand, and disjunctive ones by the bounds all their relations share
+ */
+function buildImpliedNetwork(
+  nodes: TimelineNode[],
+  relationships: TemporalRelationship[]
+): SimpleTemporalNetwork {
+  const network = buildNetwork(nodes, relationships);
+  for (const rel of relationships) {
+    if (rel.relations.length < 2) continue;
+    network.addConstraints(sharedConstraints(rel), { kind: 'relationship', id: rel.id });
+  }
+  addVirtualSource(network);
+  return network;
+}
+
+/**
+ * Estimate how the timeline could look, given how likely each relationship
+ * is to be true.
+ *
+ * Each sample keeps every explicit or hard relationship and each other
+ * relationship with the probability for its confidence level, then lays the
+ * timeline out
+ * with solve(). A sample whose relationships contradict each other describes
+ * no possible timeline, so it is discarded rather than relaxed; the figures
+ * cover the remaining samples.
+ *
+ * Orders and ranks only count what a sample's relationships, durations and
+ * pins force on every timeline they allow, not where the layout happened to
+ * put the nodes; a pair they leave free to go either way counts as
+ * undetermined in that sample, as does the rank of a node in such a pair.
+ * A disjunctive relationship contributes the bounds all its relations share,
+ * so an order that only follows from combining its relations with others
+ * counts as undetermined too. Start ranges come from the layouts.
+ *
+ * @param random - Source of uniform numbers in [0, 1)
+ */
+export function runMonteCarlo(
+  input: MonteCarloInput,
+  random: () => number = Math.random
+): MonteCarloResult {
+  return runSteps(runMonteCarloInSteps(input, random));
+}
+
+/**
+ * {@link runMonteCarlo}, a step at a time. Each sample's solve takes steps of
+ * its own, and each sample reports progress when it is done.
+ */
+export function* runMonteCarloInSteps(
+  input: MonteCarloInput,
+  random: () => number = Math.random
+): Steps<MonteCarloResult, AnalysisProgress> {
+  const { nodes, relationships, samples } = input;
+  const settings = input.settings ?? DEFAULT_SOLVER_SETTINGS;
+  const n = nodes.length;
+  const indexOf = new Map(nodes.map((node, index) => [node.id, index]));
+
+  // Per pair i < j: samples forcing i to start first, and forcing j to; and
+  // samples leaving the pair's order open
+  const earlierCounts = new Float64Array(n * n);
+  const undeterminedCounts = new Float64Array(n * n);
+  const rankCounts = nodes.map(() => new Float64Array(n));
+  const undeterminedRanks = new Float64Array(n);
+  const starts = nodes.map((): number[] => []);
+  // Samples share most of their relationships, so each one edits the last
+  const engine = new IncrementalSTN();
+  let accepted = 0;
+
+  for (let sample = 0; sample < samples; sample++) {
+    const sampled = relationships.filter(
+      (rel) => isHardRelationship(rel, settings) || random() < CONFIDENCE_PROBABILITIES[rel.confidence]
+    );
+    // Relaxation is wasted on a rejected sample, so take the cheap strategy
+    const result = yield* withoutProgress(solveInSteps({
+      nodes,
+      relationships: sampled,
+      settings: { ...settings, relaxationStrategy: 'greedy' },
+      layoutOnly: true,
+    }, engine));
+
+    if (result.status === 'satisfiable') {
+      accepted++;
+      for (const position of result.positions) {
+        starts[indexOf.get(position.nodeId) ?? -1]?.push(position.start);
+      }
+
+      // Bound on start j - start i, through the sample's constraints
+      const network = buildImpliedNetwork(nodes, sampled);
+      const { distances } = checkNetworkConsistency(network);
+      const startBounds: (Map<string, Weight> | null)[] = [];
+      for (const node of nodes) {
+        startBounds.push(computeDistancesFrom(network, getNodeVariables(node.id).start, distances));
+        yield undefined;
+      }
+      const boundBetween = (i: number, j: number): Weight => {
+        const target = nodes[j];
+        const bounds = startBounds[i];
+        if (!target || !bounds) return INFINITE_WEIGHT;
+        return bounds.get(getNodeVariables(target.id).start) ?? INFINITE_WEIGHT;
+      };
+
+      // Per node, how many nodes certainly start earlier, or NaN if some
+      // order is open
+      const earlierNodes = new Float64Array(n);
+      for (let i = 0; i < n; i++) {
+        for (let j = i + 1; j < n; j++) {
+          const forward = boundBetween(i, j);
+          const backward = boundBetween(j, i);
+          if (isLessThan(backward, ZERO_WEIGHT)) {
+            earlierCounts[i * n + j] = (earlierCounts[i * n + j] ?? 0) + 1;
+            earlierNodes[j] = (earlierNodes[j] ?? 0) + 1;
+          } else if (isLessThan(forward, ZERO_WEIGHT)) {
+            earlierCounts[j * n + i] = (earlierCounts[j * n + i] ?? 0) + 1;
+            earlierNodes[i] = (earlierNodes[i] ?? 0) + 1;
+          } else if (!weightsEqual(forward, ZERO_WEIGHT) || !weightsEqual(backward, ZERO_WEIGHT)) {
+            undeterminedCounts[i * n + j] = (undeterminedCounts[i * n + j] ?? 0) + 1;
+            earlierNodes[i] = NaN;
+            earlierNodes[j] = NaN;
+          }
+        }
+      }
+
+      earlierNodes.forEach((rank, index) => {
+        const counts = rankCounts[index];
+        if (!counts) return;
+        if (Number.isNaN(rank)) undeterminedRanks[index] = (undeterminedRanks[index] ?? 0) + 1;
+        else counts[rank] = (counts[rank] ?? 0) + 1;
+      });
+    }
+
+    yield { completed: sample + 1, total: samples };
+  }
+
+  const orderProbabilities: OrderProbability[] = [];
+  const distributions: NodeDistribution[] = [];
+  if (accepted === 0) {
+    return { samples: 0, rejectedSamples: samples, orderProbabilities, distributions };
+  }
+
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      const source = nodes[i];
+      const target = nodes[j];
+      if (!source || !target) continue;
+      orderProbabilities.push({
+        sourceId: source.id,
+        targetId: target.id,
+        before: (earlierCounts[i * n + j] ?? 0) / accepted,
+        after: (earlierCounts[j * n + i] ?? 0) / accepted,
+        undetermined: (undeterminedCounts[i * n + j] ?? 0) / accepted,
+      });
+    }
+  }
+
+  nodes.forEach((node, index) => {
+    const sorted = (starts[index] ?? []).sort((a, b) => a - b);
+    if (sorted.length === 0) return;
+    distributions.push({
+      nodeId: node.id,
+      ranks: Array.from(rankCounts[index] ?? [], (count) => count / accepted),
+      undeterminedRank: (undeterminedRanks[index] ?? 0) / accepted,
+      range: {
+        earliest: quantile(sorted, RANGE_TAIL),
+        latest: quantile(sorted, 1 - RANGE_TAIL),
+      },
+    });
+  });
+
+  return {
+    samples: accepted,
+    rejectedSamples: samples - accepted,
+    orderProbabilities,
+    distributions,
+  };
+}
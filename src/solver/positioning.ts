@@ -1,6 +1,15 @@
-import type { TimelineNode, SolvedPosition, NodeId } from '../types';
+import type { TimelineNode, SolvedPosition, NodeSlack, NodeId, SolverComponent } from '../types';
 import { getNodeVariables } from './constraints';
-import type { BellmanFordResult } from './propagation';
+import { computeBounds, type BellmanFordResult } from './propagation';
+import { VIRTUAL_SOURCE, type SimpleTemporalNetwork } from './stn';
+import {
+  chooseEpsilon,
+  isLessThan,
+  realizeWeight,
+  subtractWeights,
+  toWeight,
+  type Weight,
+} from './weights';
 
 /**
  * Default timeline scale (arbitrary units)
@@ -18,58 +27,84 @@ const MIN_INTERVAL_WIDTH = 20;
 const EDGE_PADDING = 50;
 
 /**
- * Convert Bellman-Ford distances to timeline positions.
- *
- * The shortest-path distances from the virtual source represent
- * the "earliest possible time" for each variable. We normalize
- * these to a pleasant display scale.
+ * Mapping from solver values to display coordinates
  */
-export function assignPositions(
+interface DisplayScale {
+  minVal: number;
+  maxVal: number;
+  normalize: (v: number) => number;
+}
+
+/**
+ * Exact solver distances of the given nodes' endpoints turned into numbers
+ */
+interface RealizedDistances {
+  values: Map<string, number>;
+  /** ε used for the infinitesimal parts */
+  epsilon: number;
+  /** Earliest and latest finite endpoint, exactly */
+  earliest: Weight | null;
+  latest: Weight | null;
+}
+
+/**
+ * Turn the endpoint distances into numbers, choosing ε so that strict
+ * orderings survive (see chooseEpsilon).
+ */
+function realizeDistances(
   nodes: TimelineNode[],
-  bellmanFordResult: BellmanFordResult,
-  scale = DEFAULT_SCALE
-): SolvedPosition[] {
-  const { distances } = bellmanFordResult;
+  distances: Map<string, Weight>
+): RealizedDistances {
+  const endpoints = new Map<string, Weight>();
+  for (const node of nodes) {
+    const { start, end } = getNodeVariables(node.id);
+    for (const variable of [start, end]) {
+      const dist = distances.get(variable);
+      if (dist !== undefined && isFinite(dist.value)) endpoints.set(variable, dist);
+    }
+  }
 
-  if (nodes.length === 0) {
-    return [];
+  const weights = [...endpoints.values()];
+  const epsilon = chooseEpsilon(weights);
+  const values = new Map<string, number>();
+  let earliest: Weight | null = null;
+  let latest: Weight | null = null;
+
+  for (const [variable, dist] of endpoints) {
+    values.set(variable, realizeWeight(dist, epsilon));
+    if (!earliest || isLessThan(dist, earliest)) earliest = dist;
+    if (!latest || isLessThan(latest, dist)) latest = dist;
   }
 
-  // Collect all start/end values
+  return { values, epsilon, earliest, latest };
+}
+
+/**
+ * Fit the finite endpoint distances of the given nodes into the display scale.
+ * Returns null if no node has a finite position.
+ */
+function getDisplayScale(
+  nodes: TimelineNode[],
+  distances: Map<string, number>,
+  scale: number
+): DisplayScale | null {
   const values: number[] = [];
-  const nodeValues = new Map<
-    NodeId,
-    { start: number | null; end: number | null }
-  >();
 
   for (const node of nodes) {
     const { start, end } = getNodeVariables(node.id);
-    const startDist = distances.get(start);
-    const endDist = distances.get(end);
-
-    // Only include finite values
-    const startVal =
-      startDist !== undefined && isFinite(startDist) ? startDist : null;
-    const endVal = endDist !== undefined && isFinite(endDist) ? endDist : null;
-
-    nodeValues.set(node.id, { start: startVal, end: endVal });
-
-    if (startVal !== null) values.push(startVal);
-    if (endVal !== null) values.push(endVal);
+    for (const dist of [distances.get(start), distances.get(end)]) {
+      if (dist !== undefined && isFinite(dist)) values.push(dist);
+    }
   }
 
-  // Handle edge case: no valid positions
   if (values.length === 0) {
-    // Fall back to evenly spaced positions
-    return assignDefaultPositions(nodes, scale);
+    return null;
   }
 
-  // Find min/max for normalization
   const minVal = Math.min(...values);
   const maxVal = Math.max(...values);
   const range = maxVal - minVal;
 
-  // Normalization function
   const normalize = (v: number): number => {
     if (range === 0) {
       return scale / 2 + EDGE_PADDING;
@@ -77,25 +112,58 @@ export function assignPositions(
     return EDGE_PADDING + ((v - minVal) / range) * (scale - 2 * EDGE_PADDING);
   };
 
+  return { minVal, maxVal, normalize };
+}
+
+/**
+ * Convert Bellman-Ford distances to timeline positions.
+ *
+ * The shortest-path distances from the virtual source represent
+ * the "earliest possible time" for each variable. We normalize
+ * these to a pleasant display scale.
+ */
+export function assignPositions(
+  nodes: TimelineNode[],
+  bellmanFordResult: BellmanFordResult,
+  scale = DEFAULT_SCALE
+): SolvedPosition[] {
+  if (nodes.length === 0) {
+    return [];
+  }
+
+  const distances = realizeDistances(nodes, bellmanFordResult.distances).values;
+
+  const displayScale = getDisplayScale(nodes, distances, scale);
+
+  // Handle edge case: no valid positions
+  if (!displayScale) {
+    // Fall back to evenly spaced positions
+    return assignDefaultPositions(nodes, scale);
+  }
+
+  const { normalize } = displayScale;
+
   // Build positions
   const positions: SolvedPosition[] = [];
 
   for (const node of nodes) {
-    const vals = nodeValues.get(node.id);
+    const { start, end } = getNodeVariables(node.id);
+    const startDist = distances.get(start);
+    const endDist = distances.get(end);
 
-    if (vals?.start == null) {
+    if (startDist === undefined || !isFinite(startDist)) {
       // Node has no valid position - skip it
       continue;
     }
 
-    const startPos = normalize(vals.start);
+    const startPos = normalize(startDist);
     let endPos: number;
 
-    if (node.durationType === 'instant' || vals.end === null) {
+    if (node.durationType === 'instant' || endDist === undefined || !isFinite(endDist)) {
       // Instant: start = end
       endPos = startPos;
     } else {
-      endPos = normalize(vals.end);
+      endPos = normalize(endDist);
       // Ensure minimum width for visibility
       if (endPos - startPos < MIN_INTERVAL_WIDTH) {
         endPos = startPos + MIN_INTERVAL_WIDTH;
@@ -112,6 +180,78 @@ export function assignPositions(
   return positions;
 }
 
+/**
+ * Compute the window each endpoint could move within, in display coordinates.
+ *
+ * A bare STN can always be stretched, so the windows are taken over a
+ * timeline exactly as long as the current layout is drawn: the minimal
+ * network of the constraints plus that horizon gives each endpoint's earliest
+ * and latest value. An endpoint whose window is a single point is pinned down
+ * by its constraints.
+ *
+ * The drawn length is the realized one. A qualitative timeline's layout
+ * spans only infinitesimals, and a horizon that short would leave no room
+ * beyond the longest chain of strict orderings, collapsing every window.
+ *
+ * @param network - The satisfied network, with virtual source
+ * @param bellmanFordResult - Solution used for positions, fixing the horizon
+ */
+export function assignSlack(
+  nodes: TimelineNode[],
+  network: SimpleTemporalNetwork,
+  bellmanFordResult: BellmanFordResult,
+  scale = DEFAULT_SCALE
+): NodeSlack[] {
+  const realized = realizeDistances(nodes, bellmanFordResult.distances);
+  const displayScale = getDisplayScale(nodes, realized.values, scale);
+  if (!displayScale || !realized.earliest || !realized.latest) return [];
+
+  // Bounds are relative to the virtual source; the layout's latest point
+  // corresponds to it once the solution is shifted flush against it
+  const { maxVal, normalize } = displayScale;
+  const span = subtractWeights(realized.latest, realized.earliest);
+  const drawnSpan = toWeight(realizeWeight(span, realized.epsilon));
+  // Never shorter than the layout, which the potential below has to fit
+  const horizon = isLessThan(drawnSpan, span) ? span : drawnSpan;
+
+  // The layout holds the source at its latest point, so it suits both searches
+  const bounds = computeBounds(
+    network,
+    horizon,
+    new Map(bellmanFordResult.distances).set(VIRTUAL_SOURCE, realized.latest)
+  );
+  // The windows mix the horizon's real length with infinitesimal steps, so ε
+  // has to be small next to it as well as next to the layout's own steps
+  const epsilon = Math.min(
+    realized.epsilon,
+    chooseEpsilon([...bounds.values()].flatMap(({ lower, upper }) => [lower, upper]))
+  );
+  const toDisplay = (w: Weight): number => normalize(realizeWeight(w, epsilon) + maxVal);
+
+  const slack: NodeSlack[] = [];
+
+  for (const node of nodes) {
+    const { start, end } = getNodeVariables(node.id);
+    const startBounds = bounds.get(start);
+    const endBounds = bounds.get(end);
+    if (!startBounds || !endBounds) continue;
+
+    slack.push({
+      nodeId: node.id,
+      start: {
+        earliest: toDisplay(startBounds.lower),
+        latest: toDisplay(startBounds.upper),
+      },
+      end: {
+        earliest: toDisplay(endBounds.lower),
+        latest: toDisplay(endBounds.upper),
+      },
+    });
+  }
+
+  return slack;
+}
+
 /**
  * Assign default evenly-spaced positions when no constraints exist
  * or constraints couldn't be solved.
@@ -139,6 +279,48 @@ export function assignDefaultPositions(
   });
 }
 
+/**
+ * Space between components placed along a common axis
+ */
+const COMPONENT_GAP = 150;
+
+/**
+ * Where the solved components sit along a common axis
+ */
+export interface ComponentPlacement {
+  /** Shift from each node's position onto the axis */
+  offsets: Map<NodeId, number>;
+  /** Where each component's stretch of the axis starts, and its width */
+  stretches: { offset: number; width: number }[];
+  /** Length of the axis taken up */
+  width: number;
+}
+
+/**
+ * Place components one after another along a common axis. Each is laid out
+ * across the whole display scale on its own, so positions from different
+ * components can only be compared once shifted by their offsets. A single
+ * component needs no shifting.
+ */
+export function placeComponents(
+  components: SolverComponent[],
+  positions: SolvedPosition[]
+): ComponentPlacement {
+  const offsets = new Map<NodeId, number>();
+  const stretches: ComponentPlacement['stretches'] = [];
+  if (components.length < 2) return { offsets, stretches, width: 0 };
+
+  const ends = new Map(positions.map((pos) => [pos.nodeId, pos.end]));
+  let offset = 0;
+  for (const component of components) {
+    const width = Math.max(0, ...component.nodeIds.map((id) => ends.get(id) ?? 0)) + COMPONENT_GAP;
+    for (const id of component.nodeIds) offsets.set(id, offset);
+    stretches.push({ offset, width });
+    offset += width;
+  }
+  return { offsets, stretches, width: offset };
+}
+
 /**
  * Reorder positions to reduce visual overlap.
  * This is a simple heuristic that sorts intervals by start time
@@ -0,0 +1,82 @@
+import type { RelationshipId, TemporalRelationship, TimelineNode } from '../types';
+import { buildNetwork, sortByConfidence } from './relaxation';
+import { bellmanFord } from './propagation';
+import type { SimpleTemporalNetwork } from './stn';
+import { INFINITE_WEIGHT, compareWeights, type Weight } from './weights';
+
+/**
+ * Result of redundancy analysis
+ */
+export interface RedundancyAnalysis {
+  /** Relationships the others already imply, each judged on its own */
+  redundantIds: RelationshipId[];
+  /**
+   * Redundant relationships that can all be removed together. Two copies of
+   * the same fact are each redundant, but only one of them can go.
+   */
+  pruneIds: RelationshipId[];
+}
+
+/**
+ * Check whether the rest of the network already implies every constraint a
+ * relationship contributes.
+ *
+ * Removing the relationship leaves the minimal network unchanged exactly when
+ * each of its edges u → v (weight w) is matched by a path u → v of weight at
+ * most w through the remaining constraints.
+ */
+function isImplied(network: SimpleTemporalNetwork, relationshipId: RelationshipId): boolean {
+  const bounds = network
+    .getEdgesForRelationship(relationshipId)
+    .flatMap((edge) =>
+      edge.sources
+        .filter((source) => source.kind === 'relationship' && source.id === relationshipId)
+        .map((source) => ({ from: edge.from, to: edge.to, weight: source.weight }))
+    );
+
+  const rest = network.clone();
+  rest.removeRelationshipEdges(relationshipId);
+
+  const distancesFrom = new Map<string, Map<string, Weight>>();
+  return bounds.every(({ from, to, weight }) => {
+    let distances = distancesFrom.get(from);
+    if (!distances) {
+      distances = bellmanFord(rest, from).distances;
+      distancesFrom.set(from, distances);
+    }
+    return compareWeights(distances.get(to) ?? INFINITE_WEIGHT, weight) <= 0;
+  });
+}
+
+/**
+ * Find relationships that carry no information beyond the others.
+ *
+ * Only relationships with a single relation are considered, and only other
+ * single-relation relationships count as evidence: a chosen disjunct is the
+ * solver's guess, not a fact. Pass the relationships the solver kept, since
+ * the analysis assumes they are consistent.
+ *
+ * Candidates for pruning are tried least confident first, so when two
+ * relationships state the same thing the better-sourced one is kept.
+ */
+export function findRedundantRelationships(
+  nodes: TimelineNode[],
+  relationships: TemporalRelationship[]
+): RedundancyAnalysis {
+  const definite = relationships.filter((r) => r.relations.length === 1);
+  const network = buildNetwork(nodes, definite);
+
+  const redundantIds = definite.filter((r) => isImplied(network, r.id)).map((r) => r.id);
+  const redundant = new Set(redundantIds);
+
+  // Implied edges don't change the minimal network, so later checks stay valid
+  const pruneIds: RelationshipId[] = [];
+  for (const rel of sortByConfidence(definite.filter((r) => redundant.has(r.id)))) {
+    if (isImplied(network, rel.id)) {
+      network.removeRelationshipEdges(rel.id);
+      pruneIds.push(rel.id);
+    }
+  }
+
+  return { redundantIds, pruneIds };
+}
@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import type { TemporalRelationship, TimelineNode } from '../types';
+import { generateRandomTimeline } from '../data/randomTimeline';
+import { calculateTotalWeight, checkRelationships, relaxConstraints } from './relaxation';
+import { IncrementalSTN } from './incremental';
+import { enumerateConflicts } from './conflicts';
+
+/**
+ * Least total weight of relationships whose removal leaves the rest
+ * consistent, by trying every subset
+ */
+function bruteForceRelaxationWeight(
+  timeline: ReturnType<typeof generateRandomTimeline>
+): number {
+  const { nodes, relationships } = timeline;
+  let best = Infinity;
+  for (let mask = 0; mask < 1 << relationships.length; mask++) {
+    const removed = relationships.filter((_, i) => mask & (1 << i));
+    const weight = calculateTotalWeight(removed);
+    if (weight >= best) continue;
+    const kept = relationships.filter((_, i) => !(mask & (1 << i)));
+    if (checkRelationships(nodes, kept).feasible) best = weight;
+  }
+  return best;
+}
+
+const smallTimeline = (seed: number) =>
+  generateRandomTimeline({
+    nodeCount: 5,
+    relationshipCount: 9,
+    contradictionRate: 0.4,
+    disjunctionRate: 0.2,
+    seed,
+  });
+
+const SEEDS = Array.from({ length: 25 }, (_, i) => i + 1);
+
+describe('relaxConstraints', () => {
+  it.each(SEEDS)('relaxes the least total weight optimally (seed %i)', (seed) => {
+    const timeline = smallTimeline(seed);
+    const { nodes, relationships } = timeline;
+    const result = relaxConstraints(nodes, relationships, 'optimal');
+    const relaxed = new Set(result.violatedRelationshipIds);
+    const kept = relationships.filter((r) => !relaxed.has(r.id));
+
+    expect(result.optimal).toBe(true);
+    expect(checkRelationships(nodes, kept).feasible).toBe(true);
+    expect(
+      calculateTotalWeight(relationships.filter((r) => relaxed.has(r.id)))
+    ).toBe(bruteForceRelaxationWeight(timeline));
+  });
+
+  it.each(SEEDS)('agrees with a fresh network when checking incrementally (seed %i)', (seed) => {
+    const { nodes, relationships } = smallTimeline(seed);
+    const engine = new IncrementalSTN();
+    // Warm the network up with a different set first, as the worker's would be
+    engine.update(nodes, relationships.slice(0, 3));
+
+    const fresh = relaxConstraints(nodes, relationships, 'optimal');
+    const incremental = relaxConstraints(nodes, relationships, 'optimal', new Set(), engine);
+    const weightOf = (ids: string[]) =>
+      calculateTotalWeight(relationships.filter((r) => ids.includes(r.id)));
+
+    expect(weightOf(incremental.violatedRelationshipIds)).toBe(
+      weightOf(fresh.violatedRelationshipIds)
+    );
+  });
+
+  it.each(SEEDS)('leaves a consistent set when relaxing greedily (seed %i)', (seed) => {
+    const { nodes, relationships } = smallTimeline(seed);
+    const result = relaxConstraints(nodes, relationships, 'greedy');
+    const relaxed = new Set(result.violatedRelationshipIds);
+    const kept = relationships.filter((r) => !relaxed.has(r.id));
+
+    expect(checkRelationships(nodes, kept).feasible).toBe(true);
+  });
+
+  it('never relaxes hard relationships', () => {
+    const { nodes, relationships } = smallTimeline(3);
+    const hardIds = new Set(relationships.map((r: TemporalRelationship) => r.id));
+    const result = relaxConstraints(nodes, relationships, 'optimal', hardIds);
+
+    expect(result.violatedRelationshipIds).toEqual([]);
+  });
+});
+
+describe('running out of disjunct checks', () => {
+  // A chain with more disjunctive relationships than the search has checks
+  // for, though choosing "before" for every one of them is consistent
+  const chainLength = 2100;
+  const nodes = Array.from({ length: chainLength }, (_, i): TimelineNode => ({
+    id: `n${String(i)}`,
+    name: `Event ${String(i)}`,
+    description: '',
+    durationType: 'interval',
+    enabled: true,
+    createdAt: 0,
+    updatedAt: 0,
+  }));
+  const relationships = nodes.slice(1).map((node, i): TemporalRelationship => ({
+    id: `r${String(i)}`,
+    sourceId: `n${String(i)}`,
+    targetId: node.id,
+    relations: ['before', 'meets'],
+    confidence: 'inferred',
+    enabled: true,
+    createdAt: 0,
+    updatedAt: 0,
+  }));
+
+  it('leaves the search undecided rather than infeasible', () => {
+    const search = checkRelationships(nodes, relationships);
+
+    expect(search.feasible).toBe(false);
+    expect(search.undecided).toBe(true);
+    expect(search.conflicts).toEqual([]);
+  });
+
+  it.each(['greedy', 'optimal'] as const)('relaxes nothing (%s)', (strategy) => {
+    const result = relaxConstraints(nodes, relationships, strategy);
+
+    expect(result.violatedRelationshipIds).toEqual([]);
+    expect(result.undecidedRelationshipIds).toHaveLength(relationships.length);
+    expect(result.bellmanFordResult.feasible).toBe(true);
+  });
+
+  it('reports no contradictions', () => {
+    const enumeration = enumerateConflicts(nodes, relationships);
+
+    expect(enumeration.conflicts).toEqual([]);
+    expect(enumeration.complete).toBe(false);
+  });
+});
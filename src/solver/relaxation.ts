@@ -2,23 +2,26 @@ import type {
   TimelineNode,
   TemporalRelationship,
   RelationshipId,
+  RelaxationStrategy,
 } from '../types';
 import { CONFIDENCE_WEIGHTS } from '../types';
-import { SimpleTemporalNetwork, addVirtualSource } from './stn';
+import { SimpleTemporalNetwork, TIMELINE_ORIGIN, addVirtualSource } from './stn';
 import {
   allenToConstraints,
   getNodeInternalConstraints,
   getNodeVariables,
+  getPinConstraints,
 } from './constraints';
-import { checkNetworkConsistency, type BellmanFordResult } from './propagation';
-
-/**
- * A relationship with its calculated weight for relaxation priority
- */
-interface WeightedRelationship {
-  relationship: TemporalRelationship;
-  weight: number;
-}
+import type { BellmanFordResult } from './propagation';
+import {
+  getSelectedRelation,
+  searchDisjuncts,
+  type DisjunctSelection,
+  type DisjunctiveSearchResult,
+} from './disjunctive';
+import { findMinimumHittingSet } from './hittingSet';
+import type { IncrementalSTN } from './incremental';
+import { runSteps, type Steps } from './steps';
 
 /**
  * Result of the relaxation process
@@ -28,12 +31,22 @@ export interface RelaxationResult {
   network: SimpleTemporalNetwork;
   /** Bellman-Ford result from the final network */
   bellmanFordResult: BellmanFordResult;
+  /** Relation chosen for each satisfied disjunctive relationship */
+  selection: DisjunctSelection;
   /** Relationships that were violated/relaxed to achieve consistency */
   violatedRelationshipIds: RelationshipId[];
   /** Relationships that remain active and satisfied */
   satisfiedRelationshipIds: RelationshipId[];
+  /**
+   * Relationships with several relations left out of the network because the
+   * search over their relations ran out of checks. They are neither relaxed
+   * nor known to hold.
+   */
+  undecidedRelationshipIds: RelationshipId[];
   /** Whether full consistency was achieved */
   isFullySatisfied: boolean;
+  /** Whether the relaxed set is proven to have the least total weight */
+  optimal: boolean;
   /** Number of relaxation iterations performed */
   iterations: number;
 }
@@ -41,10 +54,18 @@ export interface RelaxationResult {
 /**
  * Build an STN from nodes and relationships.
  * Does not add virtual source - call addVirtualSource separately if needed.
+ *
+ * Disjunctive relationships only contribute constraints once the selection
+ * picks one of their relations; until then they leave the pair unconstrained.
+ *
+ * Pins are constraints of their own, tying a node's start to year zero or to
+ * another node's start. Relaxation only ever removes relationships, so pins
+ * always hold. A pin measured from a node left out of the network is ignored.
  */
 export function buildNetwork(
   nodes: TimelineNode[],
-  relationships: TemporalRelationship[]
+  relationships: TemporalRelationship[],
+  selection: DisjunctSelection = new Map()
 ): SimpleTemporalNetwork {
   const network = new SimpleTemporalNetwork();
 
@@ -57,113 +78,326 @@ export function buildNetwork(
     // Add internal constraints (start < end for intervals, start = end for instants)
     const internalConstraints = getNodeInternalConstraints(
       node.id,
-      node.durationType === 'interval'
+      node.durationType === 'interval',
+      node.duration
+    );
+    network.addConstraints(internalConstraints, { kind: 'duration', id: node.id });
+  }
+
+  // Add pins
+  const nodeIds = new Set(nodes.map((node) => node.id));
+  for (const node of nodes) {
+    const { pin } = node;
+    if (!pin || (pin.relativeTo !== undefined && !nodeIds.has(pin.relativeTo))) continue;
+    network.addConstraints(
+      getPinConstraints(node.id, pin, TIMELINE_ORIGIN),
+      { kind: 'pin', id: node.id }
     );
-    network.addConstraints(internalConstraints, `__internal_${node.id}`);
   }
 
   // Add relationship constraints
   for (const rel of relationships) {
-    const constraints = allenToConstraints(rel.sourceId, rel.targetId, rel.relation);
-    network.addConstraints(constraints, rel.id);
+    const relation = getSelectedRelation(rel, selection);
+    if (!relation) continue;
+    const constraints = allenToConstraints(rel.sourceId, rel.targetId, relation, rel.gap);
+    network.addConstraints(constraints, { kind: 'relationship', id: rel.id });
   }
 
   return network;
 }
 
+/**
+ * Check whether a set of relationships can all hold at once, searching over
+ * the disjuncts of any disjunctive relationships.
+ *
+ * @param engine - Incremental network to check with, which then only has to
+ *   catch up with what changed since its last check. It reports a conflict
+ *   set for each relationship that contradicts those before it, not just the
+ *   first.
+ */
+export function checkRelationships(
+  nodes: TimelineNode[],
+  relationships: TemporalRelationship[],
+  engine?: IncrementalSTN
+): DisjunctiveSearchResult {
+  if (engine) {
+    const { network, result, conflicts } = engine.update(nodes, relationships);
+    const search = searchDisjuncts(nodes, relationships, network, result);
+    return conflicts.length > 0 ? { ...search, conflicts } : search;
+  }
+
+  const network = buildNetwork(nodes, relationships);
+  addVirtualSource(network);
+  return searchDisjuncts(nodes, relationships, network);
+}
+
+/**
+ * Upper bound on conflict sets gathered by the optimal strategy before it
+ * falls back to greedy removal
+ */
+const MAX_OPTIMAL_ROUNDS = 200;
+
+/**
+ * Relaxation result when a conflict has nothing left to relax: hard
+ * relationships, pins and durations contradicting each other. No timeline
+ * exists, so nothing counts as relaxed or satisfied.
+ */
+function unsatisfiable(search: DisjunctiveSearchResult, iterations: number): RelaxationResult {
+  return {
+    network: search.network,
+    bellmanFordResult: search.bellmanFordResult,
+    selection: search.selection,
+    violatedRelationshipIds: [],
+    satisfiedRelationshipIds: [],
+    undecidedRelationshipIds: [],
+    isFullySatisfied: false,
+    optimal: false,
+    iterations,
+  };
+}
+
+/**
+ * Relaxation result when the search over disjuncts runs out of checks. Its
+ * failure proves no conflict, so nothing more is relaxed: the relationships
+ * with several relations are left out, and the rest are laid out as they are.
+ */
+function undecided(
+  search: DisjunctiveSearchResult,
+  active: TemporalRelationship[],
+  violatedRelationshipIds: RelationshipId[],
+  iterations: number
+): RelaxationResult {
+  return {
+    network: search.network,
+    bellmanFordResult: search.bellmanFordResult,
+    selection: new Map(),
+    violatedRelationshipIds,
+    satisfiedRelationshipIds: active.filter((r) => r.relations.length === 1).map((r) => r.id),
+    undecidedRelationshipIds: active.filter((r) => r.relations.length > 1).map((r) => r.id),
+    isFullySatisfied: false,
+    optimal: false,
+    iterations,
+  };
+}
+
 /**
  * Perform weighted constraint relaxation.
  *
- * This algorithm iteratively removes the lowest-weight (least confident)
- * constraints from conflict sets until the network becomes consistent.
+ * The 'optimal' strategy finds the set of relationships with the least total
+ * weight whose removal makes the network consistent. If it can't finish within
+ * its limits, or the strategy is 'greedy', the least confident relationship in
+ * each conflict is removed in turn instead.
+ *
+ * Hard relationships are never removed. If they contradict each other, or
+ * pins and durations, the result is unsatisfiable.
  *
  * @param nodes - Enabled nodes to include in the network
  * @param relationships - Enabled relationships to include
- * @param maxIterations - Maximum relaxation iterations to prevent infinite loops
+ * @param strategy - How to choose which relationships to relax
+ * @param hardIds - Relationships that must not be relaxed
+ * @param engine - Incremental network for the consistency checks, so each
+ *   one only propagates the relationships it adds or drops
+ * @param maxIterations - Maximum greedy relaxation iterations. Each one relaxes a
+ *   relationship, so by default there are enough to relax every one of them
  */
 export function relaxConstraints(
   nodes: TimelineNode[],
   relationships: TemporalRelationship[],
-  maxIterations = 100
+  strategy: RelaxationStrategy = 'greedy',
+  hardIds = new Set<RelationshipId>(),
+  engine?: IncrementalSTN,
+  maxIterations = relationships.length + 1
 ): RelaxationResult {
-  // Sort relationships by weight (ascending - lowest weight first to remove)
-  const weightedRelationships: WeightedRelationship[] = relationships.map((r) => ({
-    relationship: r,
-    weight: CONFIDENCE_WEIGHTS[r.confidence],
-  }));
-  weightedRelationships.sort((a, b) => a.weight - b.weight);
+  return runSteps(
+    relaxInSteps(nodes, relationships, strategy, hardIds, engine, maxIterations)
+  );
+}
+
+/**
+ * {@link relaxConstraints}, a consistency check at a time
+ */
+export function* relaxInSteps(
+  nodes: TimelineNode[],
+  relationships: TemporalRelationship[],
+  strategy: RelaxationStrategy = 'greedy',
+  hardIds = new Set<RelationshipId>(),
+  engine?: IncrementalSTN,
+  maxIterations = relationships.length + 1
+): Steps<RelaxationResult> {
+  if (strategy === 'optimal') {
+    const result = yield* relaxOptimally(nodes, relationships, hardIds, engine);
+    if (result) return result;
+  }
+  return yield* relaxGreedily(nodes, relationships, hardIds, maxIterations, engine);
+}
+
+/**
+ * Minimum-weight relaxation via implicit hitting sets.
+ *
+ * Every conflict set found must lose at least one relationship, so the
+ * cheapest way to relax is a minimum-weight hitting set of all conflict sets.
+ * Conflicts are gathered lazily: drop the cheapest hitting set of those seen
+ * so far, and if the rest is still inconsistent its conflict set is new, so
+ * add it and repeat. The first hitting set that leaves a consistent network is
+ * optimal, since every other candidate costs at least as much. A check may
+ * turn up several conflict sets at once, and all of them are added.
+ *
+ * Returns null if the search runs out of budget.
+ */
+function* relaxOptimally(
+  nodes: TimelineNode[],
+  relationships: TemporalRelationship[],
+  hardIds: Set<RelationshipId>,
+  engine?: IncrementalSTN
+): Steps<RelaxationResult | null> {
+  const weights = new Map(relationships.map((r) => [r.id, CONFIDENCE_WEIGHTS[r.confidence]]));
+  const getWeight = (id: RelationshipId) => weights.get(id) ?? 0;
+  const conflictSets: Set<RelationshipId>[] = [];
+
+  for (let round = 1; round <= MAX_OPTIMAL_ROUNDS; round++) {
+    const hittingSet = findMinimumHittingSet(conflictSets, getWeight);
+    if (!hittingSet.complete) return null;
+
+    const removed = hittingSet.elements;
+    const active = relationships.filter((r) => !removed.has(r.id));
+    const search = checkRelationships(nodes, active, engine);
+    // An unproven failure gives no conflict to add, so leave it to greedy
+    // removal, which stops there
+    if (search.undecided) return null;
+
+    if (search.feasible) {
+      return {
+        network: search.network,
+        bellmanFordResult: search.bellmanFordResult,
+        selection: search.selection,
+        violatedRelationshipIds: relationships
+          .filter((r) => removed.has(r.id))
+          .map((r) => r.id),
+        satisfiedRelationshipIds: active.map((r) => r.id),
+        undecidedRelationshipIds: [],
+        isFullySatisfied: removed.size === 0,
+        optimal: true,
+        iterations: round,
+      };
+    }
+
+    // Only the relationships that may be relaxed can break a conflict. One
+    // with none of them is left until it comes first, which it does once
+    // every other conflict is broken.
+    for (const [index, conflict] of search.conflicts.entries()) {
+      const removable = [...conflict].filter((id) => !hardIds.has(id));
+      if (removable.length > 0) conflictSets.push(new Set(removable));
+      else if (index === 0) return unsatisfiable(search, round);
+    }
+    yield;
+  }
+
+  return null;
+}
+
+/**
+ * Greedy relaxation.
+ *
+ * This algorithm iteratively removes the lowest-weight (least confident)
+ * constraints from conflict sets until the network becomes consistent. Each
+ * iteration breaks every conflict set the check turned up, skipping those
+ * already broken by a removal for an earlier one. Of equally weighted
+ * relationships, the one a conflict set lists first goes, which for the
+ * incremental engine is the one it left out, so the rest stay put.
+ * Fast, but may remove more weight than necessary.
+ */
+function* relaxGreedily(
+  nodes: TimelineNode[],
+  relationships: TemporalRelationship[],
+  hardIds: Set<RelationshipId>,
+  maxIterations: number,
+  engine?: IncrementalSTN
+): Steps<RelaxationResult> {
+  const weights = new Map(relationships.map((r) => [r.id, CONFIDENCE_WEIGHTS[r.confidence]]));
 
   // Track which relationships are still active
   const activeRelationshipIds = new Set(relationships.map((r) => r.id));
   const violatedRelationshipIds: RelationshipId[] = [];
 
-  let network = buildNetwork(nodes, relationships);
-  addVirtualSource(network);
+  let search = checkRelationships(nodes, relationships, engine);
 
   let iterations = 0;
 
   while (iterations < maxIterations) {
-    const result = checkNetworkConsistency(network);
     iterations++;
 
-    if (result.feasible) {
+    if (search.undecided) {
+      const active = relationships.filter((r) => activeRelationshipIds.has(r.id));
+      return undecided(search, active, violatedRelationshipIds, iterations);
+    }
+
+    if (search.feasible) {
       // Network is consistent!
       return {
-        network,
-        bellmanFordResult: result,
+        network: search.network,
+        bellmanFordResult: search.bellmanFordResult,
+        selection: search.selection,
         violatedRelationshipIds,
         satisfiedRelationshipIds: Array.from(activeRelationshipIds),
+        undecidedRelationshipIds: [],
         isFullySatisfied: violatedRelationshipIds.length === 0,
+        optimal: violatedRelationshipIds.length === 0,
         iterations,
       };
     }
 
-    // Network has conflicts - find the lowest-weight relationship in the conflict
-    if (!result.conflictingRelationshipIds || result.conflictingRelationshipIds.size === 0) {
-      // No relationship IDs in conflict - might be internal constraints
-      // This shouldn't happen with valid input, but handle it gracefully
-      break;
-    }
+    // Network has conflicts - find the lowest-weight relationship in each
+    // conflict set that may be relaxed
+    const removed: RelationshipId[] = [];
+    for (const [index, conflictingIds] of search.conflicts.entries()) {
+      if (removed.some((id) => conflictingIds.has(id))) continue;
 
-    // Find the lowest-weight relationship that's in the conflict set
-    const conflictingIds = result.conflictingRelationshipIds;
-    let toRemove: RelationshipId | null = null;
-
-    for (const wr of weightedRelationships) {
-      if (
-        conflictingIds.has(wr.relationship.id) &&
-        activeRelationshipIds.has(wr.relationship.id)
-      ) {
-        toRemove = wr.relationship.id;
-        break;
+      let toRemove: RelationshipId | null = null;
+      let lowestWeight = Infinity;
+      for (const id of conflictingIds) {
+        const weight = weights.get(id);
+        if (
+          weight !== undefined &&
+          weight < lowestWeight &&
+          activeRelationshipIds.has(id) &&
+          !hardIds.has(id)
+        ) {
+          toRemove = id;
+          lowestWeight = weight;
+        }
       }
-    }
 
-    if (!toRemove) {
-      // All conflicting relationships are already removed or internal
-      // This indicates an unsolvable conflict with internal constraints
-      break;
+      if (toRemove) {
+        removed.push(toRemove);
+      } else if (index === 0) {
+        // Only hard relationships, pins and durations conflict, and none of
+        // them can be relaxed
+        return unsatisfiable(search, iterations);
+      }
     }
 
-    // Remove this relationship from the network
-    activeRelationshipIds.delete(toRemove);
-    violatedRelationshipIds.push(toRemove);
+    // Remove these relationships from the network
+    for (const id of removed) {
+      activeRelationshipIds.delete(id);
+      violatedRelationshipIds.push(id);
+    }
 
-    // Rebuild the network without the removed relationship
+    // Search again without the removed relationships
+    yield;
     const activeRels = relationships.filter((r) => activeRelationshipIds.has(r.id));
-    network = buildNetwork(nodes, activeRels);
-    addVirtualSource(network);
+    search = checkRelationships(nodes, activeRels, engine);
   }
 
-  // Final check after all iterations
-  const finalResult = checkNetworkConsistency(network);
-
+  // Final state after all iterations
   return {
-    network,
-    bellmanFordResult: finalResult,
+    network: search.network,
+    bellmanFordResult: search.bellmanFordResult,
+    selection: search.selection,
     violatedRelationshipIds,
     satisfiedRelationshipIds: Array.from(activeRelationshipIds),
-    isFullySatisfied: finalResult.feasible && violatedRelationshipIds.length === 0,
+    undecidedRelationshipIds: [],
+    isFullySatisfied: search.feasible && violatedRelationshipIds.length === 0,
+    optimal: search.feasible && violatedRelationshipIds.length === 0,
     iterations,
   };
 }
@@ -196,14 +430,13 @@ export function calculateTotalWeight(relationships: TemporalRelationship[]): num
 }
 
 /**
- * Find the minimum set of relationships to remove to achieve consistency.
- * This uses a greedy approach - not guaranteed to be globally optimal,
- * but fast and produces good results in practice.
+ * Find the minimum-weight set of relationships to remove to achieve consistency.
+ * Falls back to the greedy approach if the exact search exceeds its limits.
  */
 export function findMinimalRelaxation(
   nodes: TimelineNode[],
   relationships: TemporalRelationship[]
 ): RelationshipId[] {
-  const result = relaxConstraints(nodes, relationships);
+  const result = relaxConstraints(nodes, relationships, 'optimal');
   return result.violatedRelationshipIds;
 }
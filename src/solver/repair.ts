@@ -0,0 +1,136 @@
+import type {
+  AllenRelation,
+  ConflictSet,
+  RelationshipId,
+  RelationshipRepair,
+  TemporalRelationship,
+  TimelineNode,
+} from '../types';
+import { getConceptualNeighbours, relationDomain, type RelationSet } from './allen';
+import type { IncrementalSTN } from './incremental';
+import { checkRelationships } from './relaxation';
+import type { Steps } from './steps';
+
+/**
+ * Upper bound on candidate relations checked per solve. Each one costs a
+ * full disjunctive search.
+ */
+const MAX_REPAIR_CHECKS = 120;
+
+/**
+ * Relations reachable from the stated ones in exactly each number of steps
+ * through the conceptual neighbourhood graph, nearest first
+ */
+function neighbourhoodRings(relations: AllenRelation[]): AllenRelation[][] {
+  const seen = new Set(relations);
+  const rings: AllenRelation[][] = [];
+  let frontier = relations;
+  while (frontier.length > 0) {
+    const next: AllenRelation[] = [];
+    for (const relation of frontier) {
+      for (const neighbour of getConceptualNeighbours(relation)) {
+        if (seen.has(neighbour)) continue;
+        seen.add(neighbour);
+        next.push(neighbour);
+      }
+    }
+    if (next.length > 0) rings.push(next);
+    frontier = next;
+  }
+  return rings;
+}
+
+/**
+ * Find the nearest relations that would repair each relaxed or conflicting
+ * relationship.
+ *
+ * Relations are tried in rings of growing distance from the stated ones on
+ * the conceptual neighbourhood graph, and the search for a relationship stops
+ * at the first ring with a repair. A relaxed relationship is repaired when the
+ * solver could keep it alongside everything it keeps now. A kept relationship
+ * in a contradiction is repaired when, changed, it lets the solver keep the
+ * relaxed relationships it contradicts as well.
+ *
+ * A relation is skipped when the nodes' shapes rule it out or it allows the
+ * same configurations as one already tried, as "meets" and "equals" do
+ * between two instants.
+ *
+ * @param relaxedIds - Relationships the solver relaxed
+ * @param conflicts - Minimal contradictions among the relationships
+ * Runs a step for each relationship it looks at.
+ *
+ * @param engine - Incremental network for the checks, each of which swaps a
+ *   single relation
+ */
+export function* findRepairs(
+  nodes: TimelineNode[],
+  relationships: TemporalRelationship[],
+  relaxedIds: Set<RelationshipId>,
+  conflicts: ConflictSet[],
+  engine?: IncrementalSTN
+): Steps<RelationshipRepair[]> {
+  const nodesById = new Map(nodes.map((node) => [node.id, node]));
+  const kept = relationships.filter((r) => !relaxedIds.has(r.id));
+  const conflictingIds = new Set(conflicts.flatMap((c) => c.relationshipIds));
+  const candidates = relationships.filter(
+    (r) => relaxedIds.has(r.id) || conflictingIds.has(r.id)
+  );
+
+  const repairs: RelationshipRepair[] = [];
+  let checks = 0;
+  for (const rel of candidates) {
+    yield;
+    const source = nodesById.get(rel.sourceId);
+    const target = nodesById.get(rel.targetId);
+    if (!source || !target) continue;
+
+    // Relaxed relationships a kept one contradicts come back with the change
+    const contradicted = new Set(
+      conflicts
+        .filter((c) => c.relationshipIds.includes(rel.id))
+        .flatMap((c) => c.relationshipIds)
+    );
+    const restoredIds = relaxedIds.has(rel.id)
+      ? [rel.id]
+      : relationships
+          .filter((other) => relaxedIds.has(other.id) && contradicted.has(other.id))
+          .map((other) => other.id);
+    const restored = new Set(restoredIds);
+    const others = [
+      ...kept.filter((other) => other.id !== rel.id),
+      ...relationships.filter((other) => other.id !== rel.id && restored.has(other.id)),
+    ];
+
+    const domainOf = (relation: AllenRelation): RelationSet =>
+      relationDomain(relation, source.durationType, target.durationType);
+    const tried = new Set<RelationSet>(rel.relations.map(domainOf));
+
+    for (const [index, ring] of neighbourhoodRings(rel.relations).entries()) {
+      const found: AllenRelation[] = [];
+      for (const relation of ring) {
+        const domain = domainOf(relation);
+        if (domain === 0 || tried.has(domain)) continue;
+        tried.add(domain);
+        if (checks >= MAX_REPAIR_CHECKS) break;
+        checks++;
+
+        const changed = { ...rel, relations: [relation] };
+        if (checkRelationships(nodes, [...others, changed], engine).feasible) found.push(relation);
+      }
+
+      if (found.length > 0) {
+        repairs.push(
+          ...found.map((relation) => ({
+            relationshipId: rel.id,
+            relations: [relation],
+            distance: index + 1,
+            restoredIds,
+          }))
+        );
+        break;
+      }
+    }
+  }
+
+  return repairs.sort((a, b) => a.distance - b.distance);
+}
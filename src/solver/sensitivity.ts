@@ -0,0 +1,95 @@
+import type {
+  NodeId,
+  RelationshipId,
+  RelationshipImpact,
+  SolvedPosition,
+  SolverResult,
+  TemporalRelationship,
+} from '../types';
+import type { Steps } from './steps';
+
+/**
+ * Lay the timeline out again with only the given relationships
+ */
+export type Relayout = (
+  relationships: TemporalRelationship[]
+) => Pick<SolverResult, 'positions' | 'violations'>;
+
+/**
+ * Count the pairs of nodes whose order by start differs between two layouts,
+ * a tie counting as an order of its own
+ */
+function countOrderChanges(before: SolvedPosition[], after: Map<NodeId, SolvedPosition>): number {
+  let changes = 0;
+  for (let i = 0; i < before.length; i++) {
+    for (let j = i + 1; j < before.length; j++) {
+      const a = before[i];
+      const b = before[j];
+      const aAfter = a && after.get(a.nodeId);
+      const bAfter = b && after.get(b.nodeId);
+      if (!a || !b || !aAfter || !bAfter) continue;
+      if (Math.sign(a.start - b.start) !== Math.sign(aAfter.start - bAfter.start)) changes++;
+    }
+  }
+  return changes;
+}
+
+/**
+ * Find how far any endpoint moves between two layouts
+ */
+function measureShift(before: SolvedPosition[], after: Map<NodeId, SolvedPosition>): number {
+  let shift = 0;
+  for (const position of before) {
+    const moved = after.get(position.nodeId);
+    if (!moved) continue;
+    shift = Math.max(
+      shift,
+      Math.abs(moved.start - position.start),
+      Math.abs(moved.end - position.end)
+    );
+  }
+  return shift;
+}
+
+/**
+ * Measure how much each relationship matters by solving without it.
+ *
+ * Each relationship is taken out in turn and the timeline laid out again;
+ * the new layout is compared with the current one by the order of node
+ * starts, the distance endpoints move, and which other relationships the
+ * solver relaxes. Taking out a relaxed relationship can let the solver keep
+ * others it had to give up, and with a different set of contradictions left
+ * the solver may choose to relax something else instead.
+ *
+ * Positions are display coordinates, so each layout is normalized to the
+ * same span and a shift is relative to the timeline's width.
+ *
+ * Runs a step for each layout.
+ *
+ * @param positions - The current layout, which must satisfy the kept relationships
+ * @param relationships - The relationships it was solved with
+ * @param relaxedIds - Those of them the solver relaxed
+ */
+export function* analyzeImpacts(
+  positions: SolvedPosition[],
+  relationships: TemporalRelationship[],
+  relaxedIds: Set<RelationshipId>,
+  relayout: Relayout
+): Steps<RelationshipImpact[]> {
+  const impacts: RelationshipImpact[] = [];
+  for (const rel of relationships) {
+    yield;
+    const result = relayout(relationships.filter((other) => other.id !== rel.id));
+    const moved = new Map(result.positions.map((p) => [p.nodeId, p]));
+    const nowRelaxed = new Set<RelationshipId>(result.violations.map((v) => v.relationshipId));
+
+    impacts.push({
+      relationshipId: rel.id,
+      orderChanges: countOrderChanges(positions, moved),
+      maxShift: measureShift(positions, moved),
+      newlyRelaxedIds: [...nowRelaxed].filter((id) => !relaxedIds.has(id)),
+      restoredIds: [...relaxedIds].filter((id) => id !== rel.id && !nowRelaxed.has(id)),
+    });
+  }
+  return impacts;
+}
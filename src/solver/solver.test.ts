@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import { solve, validateConstraints } from './solver';
+import {
+  DEFAULT_SOLVER_SETTINGS,
+  LAYOUT_OBJECTIVES,
+  type AllenRelation,
+  type NodePin,
+  type NumericBounds,
+  type SolvedPosition,
+  type SolverResult,
+  type TemporalRelationship,
+  type TimelineNode,
+} from '../types';
+
+const interval = (
+  id: string,
+  { duration, pin }: { duration?: NumericBounds; pin?: NodePin } = {}
+): TimelineNode => ({
+  id,
+  name: id,
+  description: '',
+  durationType: 'interval',
+  ...(duration && { duration }),
+  ...(pin && { pin }),
+  enabled: true,
+  createdAt: 0,
+  updatedAt: 0,
+});
+
+const relationship = (
+  id: string,
+  sourceId: string,
+  relation: AllenRelation,
+  targetId: string
+): TemporalRelationship => ({
+  id,
+  sourceId,
+  targetId,
+  relations: [relation],
+  confidence: 'explicit',
+  enabled: true,
+  createdAt: 0,
+  updatedAt: 0,
+});
+
+describe('contradictions without relationships', () => {
+  const impossible = interval('a', { duration: { min: 5, max: 2, unit: 'years' } });
+
+  it('finds a duration whose minimum exceeds its maximum', () => {
+    const result = solve({ nodes: [impossible], relationships: [] });
+
+    expect(result.status).toBe('unsatisfiable');
+    expect(result.conflicts).toHaveLength(1);
+    expect(result.conflicts[0]?.nodeConstraints.map((c) => c.nodeId)).toEqual(['a']);
+    expect(result.conflicts[0]?.description).toMatch(/duration/);
+    expect(validateConstraints([impossible], []).valid).toBe(false);
+  });
+
+  it('leaves a node with satisfiable bounds alone', () => {
+    const node = interval('a', { duration: { min: 2, max: 5, unit: 'years' } });
+
+    expect(solve({ nodes: [node], relationships: [] }).status).toBe('satisfiable');
+    expect(validateConstraints([node], []).valid).toBe(true);
+  });
+
+  it('blames the pins when only pins clash', () => {
+    // Each is pinned to start after the other
+    const nodes = [
+      interval('a', { pin: { position: 5, unit: 'years', relativeTo: 'b' } }),
+      interval('b', { pin: { position: 5, unit: 'years', relativeTo: 'a' } }),
+    ];
+    const result = solve({ nodes, relationships: [] });
+
+    expect(result.status).toBe('unsatisfiable');
+    expect(result.conflicts[0]?.pins.map((pin) => pin.nodeId).sort()).toEqual(['a', 'b']);
+    expect(result.conflicts[0]?.description).toMatch(/pins/);
+  });
+});
+
+describe('slack windows', () => {
+  it.each(LAYOUT_OBJECTIVES)('let an event move within the one it is during (%s)', (layoutObjective) => {
+    const result = solve({
+      nodes: [interval('a'), interval('b'), interval('c')],
+      relationships: [relationship('r1', 'a', 'before', 'b'), relationship('r2', 'c', 'during', 'b')],
+      settings: { ...DEFAULT_SOLVER_SETTINGS, layoutObjective },
+    });
+    const slack = result.slack.find((s) => s.nodeId === 'c');
+    const position = result.positions.find((p) => p.nodeId === 'c');
+
+    expect(slack).toBeDefined();
+    expect(position).toBeDefined();
+    if (!slack || !position) return;
+    expect(slack.start.latest).toBeGreaterThan(slack.start.earliest);
+    expect(slack.end.latest).toBeGreaterThan(slack.end.earliest);
+    expect(position.start).toBeGreaterThanOrEqual(slack.start.earliest);
+    expect(position.start).toBeLessThanOrEqual(slack.start.latest);
+  });
+});
+
+describe('keeping the previous layout', () => {
+  const nodes = ['a', 'b', 'c', 'd'].map((id) => interval(id));
+  const apart = [relationship('r1', 'a', 'before', 'b'), relationship('r2', 'c', 'before', 'd')];
+
+  // As the app keeps it: one list per component
+  const layoutOf = (result: SolverResult): SolvedPosition[][] =>
+    result.components.map((component) =>
+      result.positions.filter((position) => component.nodeIds.includes(position.nodeId))
+    );
+  const positionsOf = (result: SolverResult, ids: string[]): SolvedPosition[] =>
+    result.positions.filter((position) => ids.includes(position.nodeId));
+
+  it('leaves existing positions alone when an unrelated event is added', () => {
+    const before = solve({ nodes, relationships: apart });
+    const after = solve({
+      nodes: [...nodes, interval('e')],
+      relationships: apart,
+      previousPositions: layoutOf(before),
+    });
+
+    expect(positionsOf(after, ['a', 'b', 'c', 'd'])).toEqual(before.positions);
+  });
+
+  it('keeps each side where it was when two parts are joined', () => {
+    const before = solve({ nodes, relationships: apart });
+    const after = solve({
+      nodes,
+      relationships: [...apart, relationship('r3', 'a', 'equals', 'c')],
+      previousPositions: layoutOf(before),
+    });
+
+    expect(after.status).toBe('satisfiable');
+    for (const position of after.positions) {
+      const previous = before.positions.find((p) => p.nodeId === position.nodeId);
+      expect(position.start).toBeCloseTo(previous?.start ?? NaN);
+      expect(position.end).toBeCloseTo(previous?.end ?? NaN);
+    }
+  });
+});
@@ -5,12 +5,45 @@ import type {
   SolverStatus,
   ConstraintViolation,
   ConflictSet,
+  EntailedRelation,
+  NodeSlack,
+  PositionExplanation,
+  RelationshipId,
+  RelationshipImpact,
+  RelationshipRepair,
   SolvedPosition,
+  UndeterminedPair,
+  SolverSettings,
+  SolverPhase,
+  SolverPhaseTimes,
+  SolveProgress,
+  AnalysisProgress,
 } from '../types';
-import { relaxConstraints, buildNetwork, type RelaxationResult } from './relaxation';
-import { assignPositions, assignDefaultPositions } from './positioning';
-import { findAllConflicts } from './propagation';
-import { addVirtualSource } from './stn';
+import { DEFAULT_SOLVER_SETTINGS, formatRelations, isHardRelationship } from '../types';
+import {
+  relaxInSteps,
+  checkRelationships,
+  type RelaxationResult,
+} from './relaxation';
+import { assignPositions, assignDefaultPositions, assignSlack } from './positioning';
+import { optimizeLayout } from './layout';
+import {
+  DEFAULT_CONFLICT_LIMITS,
+  enumerateConflicts,
+  enumerateConflictsInSteps,
+  type ConflictSearchLimits,
+  type MinimalConflict,
+} from './conflicts';
+import { getNodeConstraintDescription, getPinDescription } from './constraints';
+import { computeAllenClosure, getEntailedRelations } from './allen';
+import { explainPositions } from './explain';
+import { findRedundantRelationships } from './redundancy';
+import { findUndeterminedPairs } from './ambiguity';
+import { analyzeImpacts } from './sensitivity';
+import { findRepairs } from './repair';
+import { IncrementalSTN } from './incremental';
+import { findComponents, type TimelineComponent } from './components';
+import { runSteps, withoutProgress, type Steps } from './steps';
 
 /**
  * Input to the solver
@@ -18,6 +51,165 @@ import { addVirtualSource } from './stn';
 export interface SolverInput {
   nodes: TimelineNode[];
   relationships: TemporalRelationship[];
+  settings?: SolverSettings;
+  /**
+   * Only place the nodes, skipping slack, explanations, contradictions and
+   * everything inferred about the relationships
+   */
+  layoutOnly?: boolean;
+  /**
+   * Positions from the previous solve, one list per component, which the
+   * layout stays close to. Each component was laid out on its own scale, so
+   * positions are only compared within their own list.
+   */
+  previousPositions?: SolvedPosition[][];
+}
+
+/**
+ * Largest timeline, in nodes, that gets the analyses covering every pair of
+ * nodes, repairs, and a full search for contradictions. Past it they would
+ * take far longer than the rest of the solve together.
+ */
+const MAX_ANALYSIS_NODES = 100;
+
+/**
+ * Contradiction search on timelines past MAX_ANALYSIS_NODES: a few found
+ * quickly, so that the Status tab still has some to show. Repairs are skipped
+ * there altogether, as they re-check every contradiction once per relation.
+ */
+const LARGE_TIMELINE_CONFLICT_LIMITS: ConflictSearchLimits = {
+  maxConflicts: 3,
+  maxChecks: 50,
+  maxTimeMs: 150,
+};
+
+/**
+ * Run one phase of a solve, adding the time it takes to the phase's total
+ */
+function timePhase<T>(times: SolverPhaseTimes, phase: SolverPhase, run: () => T): T {
+  const start = performance.now();
+  const result = run();
+  times[phase] = (times[phase] ?? 0) + performance.now() - start;
+  return result;
+}
+
+/**
+ * Settings shared by the solves of every component
+ */
+interface SolveOptions {
+  settings: SolverSettings;
+  layoutOnly: boolean;
+  analysisSkipped: boolean;
+  /** Previous positions of the component's nodes, as fractions of their own part */
+  previousPositions: SolvedPosition[];
+  phaseTimesMs: SolverPhaseTimes;
+  /** Components solved before this one, out of all of them */
+  progress: Omit<SolveProgress, 'phase'>;
+}
+
+/**
+ * Run one phase of a solve as a step of its own, reporting it as it starts
+ */
+function* runPhase<T>(options: SolveOptions, phase: SolverPhase, run: () => T): Steps<T> {
+  yield { ...options.progress, phase };
+  return timePhase(options.phaseTimesMs, phase, run);
+}
+
+/**
+ * Run a phase of a solve that takes steps of its own. Only the steps count
+ * towards the phase's time, not the pauses between them.
+ */
+function* runPhaseSteps<T>(options: SolveOptions, phase: SolverPhase, steps: Steps<T>): Steps<T> {
+  const progress = { ...options.progress, phase };
+  yield progress;
+  for (;;) {
+    const next = timePhase(options.phaseTimesMs, phase, () => steps.next());
+    if (next.done) return next.value;
+    yield progress;
+  }
+}
+
+/**
+ * What solving one component finds, before the inference that spans the
+ * whole timeline
+ */
+type ComponentSolution = Omit<
+  SolverResult,
+  | 'components'
+  | 'entailedRelations'
+  | 'undeterminedPairs'
+  | 'analysisSkipped'
+  | 'solveTimeMs'
+  | 'phaseTimesMs'
+> & {
+  /** Relationships that survived relaxation */
+  satisfied: TemporalRelationship[];
+};
+
+/**
+ * Networks for every component but the largest, which runs on the engine
+ * the caller passed, by the id of the component's first node
+ */
+const componentEngines = new WeakMap<IncrementalSTN, Map<string, IncrementalSTN>>();
+
+/**
+ * Pick the incremental network each component is checked on. A component
+ * keeps its network between solves for as long as its first node stays
+ * the same; networks of components that have gone are dropped.
+ */
+function assignEngines(components: TimelineComponent[], engine: IncrementalSTN): IncrementalSTN[] {
+  let largest = 0;
+  components.forEach((component, index) => {
+    if (component.relationships.length > (components[largest]?.relationships.length ?? 0)) {
+      largest = index;
+    }
+  });
+
+  const previous = componentEngines.get(engine);
+  const kept = new Map<string, IncrementalSTN>();
+  const engines = components.map((component, index) => {
+    const key = component.nodes[0]?.id;
+    if (index === largest || key === undefined) return engine;
+    const own = previous?.get(key) ?? new IncrementalSTN();
+    kept.set(key, own);
+    return own;
+  });
+  componentEngines.set(engine, kept);
+  return engines;
+}
+
+/**
+ * Clear an engine passed to {@link solve}, along with the networks kept
+ * for the other components, after a solve that failed part way through
+ */
+export function resetEngine(engine: IncrementalSTN): void {
+  engine.reset();
+  componentEngines.delete(engine);
+}
+
+/**
+ * Previous positions of these nodes, each taken from the component it was in
+ * and rescaled so that component's extent runs from 0 to 1. Positions from
+ * different components don't share an axis, so after an edit that joins
+ * components each node still aims for where it was within its own part.
+ */
+function findPreviousLayout(
+  nodes: TimelineNode[],
+  previousPositions: SolvedPosition[][]
+): SolvedPosition[] {
+  const ids = new Set(nodes.map((node) => node.id));
+  return previousPositions.flatMap((positions) => {
+    const kept = positions.filter((position) => ids.has(position.nodeId));
+    if (kept.length === 0) return [];
+    const min = Math.min(...positions.map((position) => position.start));
+    const max = Math.max(...positions.map((position) => position.end));
+    const toFraction = (value: number): number => (max > min ? (value - min) / (max - min) : 0.5);
+    return kept.map((position) => ({
+      ...position,
+      start: toFraction(position.start),
+      end: toFraction(position.end),
+    }));
+  });
 }
 
 /**
@@ -25,58 +217,241 @@ export interface SolverInput {
  *
  * Takes nodes and relationships, runs the constraint solver,
  * and returns positions along with any violations or conflicts.
+ *
+ * Parts of the timeline that nothing ties together are solved separately,
+ * so a contradiction in one never relaxes a relationship in another, and
+ * each is laid out across the whole display scale. Positions in different
+ * components are therefore not comparable: only order or measure nodes of
+ * the same component by them.
+ *
+ * @param engine - Incremental network to run every consistency check on.
+ *   Passing the same one to successive solves lets each start from where the
+ *   last left off, so a small edit only propagates what it changed.
+ */
+export function solve(input: SolverInput, engine = new IncrementalSTN()): SolverResult {
+  return runSteps(solveInSteps(input, engine));
+}
+
+/**
+ * {@link solve}, a step at a time. Each phase of each component starts a
+ * step, as do each consistency check during relaxation and each relationship
+ * looked at for repairs.
+ *
+ * A solve abandoned between steps leaves the engine ready for the next.
  */
-export function solve(input: SolverInput): SolverResult {
+export function* solveInSteps(
+  input: SolverInput,
+  engine = new IncrementalSTN()
+): Steps<SolverResult> {
   const startTime = performance.now();
-  const { nodes, relationships } = input;
+  const {
+    nodes,
+    relationships,
+    settings = DEFAULT_SOLVER_SETTINGS,
+    layoutOnly = false,
+    previousPositions = [],
+  } = input;
+  const analysisSkipped = !layoutOnly && nodes.length > MAX_ANALYSIS_NODES;
+  const phaseTimesMs: SolverPhaseTimes = {};
+  const options: SolveOptions = {
+    settings,
+    layoutOnly,
+    analysisSkipped,
+    previousPositions: [],
+    phaseTimesMs,
+    progress: { completed: 0, total: 0 },
+  };
 
-  // Handle empty input
-  if (nodes.length === 0) {
-    return {
-      status: 'satisfiable',
-      positions: [],
-      violations: [],
-      conflicts: [],
-      solveTimeMs: performance.now() - startTime,
-    };
+  const components = findComponents(nodes, relationships);
+  const engines = assignEngines(components, engine);
+  const solutions: ComponentSolution[] = [];
+  for (const [index, component] of components.entries()) {
+    const progress = { completed: index, total: components.length };
+    const previous = findPreviousLayout(component.nodes, previousPositions);
+    solutions.push(
+      yield* solveComponent(
+        component,
+        { ...options, previousPositions: previous, progress },
+        engines[index] ?? engine
+      )
+    );
+  }
+
+  const statuses = new Set(solutions.map((solution) => solution.status));
+  const status: SolverStatus = statuses.has('unsatisfiable')
+    ? 'unsatisfiable'
+    : statuses.has('relaxed')
+      ? 'relaxed'
+      : 'satisfiable';
+
+  // Infer what the surviving relationships imply between unconnected pairs
+  // and what is still open over the whole timeline, so pairs in different
+  // components show as open
+  let entailedRelations: EntailedRelation[] = [];
+  let undeterminedPairs: UndeterminedPair[] = [];
+  if (status !== 'unsatisfiable' && !layoutOnly && !analysisSkipped) {
+    const satisfied = solutions.flatMap((solution) => solution.satisfied);
+    const progress = { completed: components.length, total: components.length };
+    yield* runPhase({ ...options, progress }, 'inference', () => {
+      const closure = computeAllenClosure(nodes, satisfied);
+      entailedRelations = getEntailedRelations(closure, nodes, satisfied);
+      undeterminedPairs = findUndeterminedPairs(closure, nodes);
+    });
   }
 
-  // Handle no relationships - just assign default positions
-  if (relationships.length === 0) {
+  return {
+    status,
+    positions: solutions.flatMap((solution) => solution.positions),
+    components: components.map((component, index) => {
+      const solution = solutions[index];
+      return {
+        nodeIds: component.nodes.map((node) => node.id),
+        relationshipIds: component.relationships.map((rel) => rel.id),
+        status: solution?.status ?? 'satisfiable',
+        relaxedIds: solution?.violations.map((violation) => violation.relationshipId) ?? [],
+        optimalRelaxation: solution?.optimalRelaxation ?? true,
+      };
+    }),
+    violations: solutions.flatMap((solution) => solution.violations),
+    conflicts: solutions.flatMap((solution) => solution.conflicts),
+    entailedRelations,
+    slack: solutions.flatMap((solution) => solution.slack),
+    positionExplanations: solutions.flatMap((solution) => solution.positionExplanations),
+    redundantRelationshipIds: solutions.flatMap((solution) => solution.redundantRelationshipIds),
+    prunableRelationshipIds: solutions.flatMap((solution) => solution.prunableRelationshipIds),
+    undeterminedPairs,
+    repairs: solutions
+      .flatMap((solution) => solution.repairs)
+      .sort((a, b) => a.distance - b.distance),
+    optimalRelaxation: solutions.every((solution) => solution.optimalRelaxation),
+    conflictsComplete: solutions.every((solution) => solution.conflictsComplete),
+    undecidedRelationshipIds: solutions.flatMap((solution) => solution.undecidedRelationshipIds),
+    analysisSkipped,
+    solveTimeMs: performance.now() - startTime,
+    phaseTimesMs,
+  };
+}
+
+/**
+ * Whether any node is constrained beyond being an interval or an instant: a
+ * pin, or bounds on an interval's duration. Those can contradict each other
+ * with no relationship involved.
+ */
+function hasNodeConstraints(nodes: TimelineNode[]): boolean {
+  return nodes.some(
+    (node) =>
+      node.pin !== undefined || (node.durationType === 'interval' && node.duration !== undefined)
+  );
+}
+
+/**
+ * Solve one component of the timeline on its own
+ */
+function* solveComponent(
+  { nodes, relationships }: TimelineComponent,
+  options: SolveOptions,
+  engine: IncrementalSTN
+): Steps<ComponentSolution> {
+  // Handle no relationships, pins or duration bounds - just assign default positions
+  if (relationships.length === 0 && !hasNodeConstraints(nodes)) {
     return {
       status: 'satisfiable',
-      positions: assignDefaultPositions(nodes),
+      positions: yield* runPhase(options, 'layout', () => assignDefaultPositions(nodes)),
       violations: [],
       conflicts: [],
-      solveTimeMs: performance.now() - startTime,
+      slack: [],
+      positionExplanations: [],
+      redundantRelationshipIds: [],
+      prunableRelationshipIds: [],
+      repairs: [],
+      optimalRelaxation: true,
+      conflictsComplete: true,
+      undecidedRelationshipIds: [],
+      satisfied: [],
     };
   }
 
   // Run the relaxation algorithm
-  const relaxationResult = relaxConstraints(nodes, relationships);
-
-  // Build result
-  const result = buildSolverResult(
-    nodes,
-    relationships,
-    relaxationResult,
-    startTime
+  const hardIds = new Set(
+    relationships.filter((r) => isHardRelationship(r, options.settings)).map((r) => r.id)
+  );
+  const relaxationResult = yield* runPhaseSteps(
+    options,
+    'relaxation',
+    relaxInSteps(nodes, relationships, options.settings.relaxationStrategy, hardIds, engine)
   );
 
-  return result;
+  return yield* buildComponentSolution(nodes, relationships, relaxationResult, hardIds, options, engine);
+}
+
+/**
+ * Measure how much each relationship matters to the layout: each component
+ * is laid out as it stands and then again without each of its relationships
+ * in turn (see analyzeImpacts). That is a solve per relationship, so impacts
+ * are measured on request rather than with every solve. Components with no
+ * valid layout have no impacts.
+ *
+ * Reports progress before each relationship's solve.
+ */
+export function* measureImpactsInSteps(
+  input: SolverInput
+): Steps<RelationshipImpact[], AnalysisProgress> {
+  const { nodes, relationships, settings = DEFAULT_SOLVER_SETTINGS } = input;
+  const options: SolveOptions = {
+    settings,
+    layoutOnly: true,
+    analysisSkipped: false,
+    previousPositions: [],
+    phaseTimesMs: {},
+    progress: { completed: 0, total: 0 },
+  };
+  const total = relationships.length;
+  let completed = 0;
+  const impacts: RelationshipImpact[] = [];
+
+  for (const component of findComponents(nodes, relationships)) {
+    const engine = new IncrementalSTN();
+    const solution = yield* withoutProgress(solveComponent(component, options, engine));
+    if (solution.status === 'unsatisfiable') {
+      completed += component.relationships.length;
+      continue;
+    }
+
+    const steps = analyzeImpacts(
+      solution.positions,
+      component.relationships,
+      new Set(solution.violations.map((violation) => violation.relationshipId)),
+      (remaining) =>
+        runSteps(solveComponent({ nodes: component.nodes, relationships: remaining }, options, engine))
+    );
+    for (;;) {
+      const next = steps.next();
+      if (next.done) {
+        impacts.push(...next.value);
+        break;
+      }
+      yield { completed, total };
+      completed++;
+    }
+  }
+
+  return impacts;
 }
 
 /**
- * Build the solver result from relaxation output
+ * Build one component's solution from relaxation output
  */
-function buildSolverResult(
+function* buildComponentSolution(
   nodes: TimelineNode[],
   relationships: TemporalRelationship[],
   relaxationResult: RelaxationResult,
-  startTime: number
-): SolverResult {
-  const { bellmanFordResult, violatedRelationshipIds } = relaxationResult;
-
+  hardIds: Set<RelationshipId>,
+  options: SolveOptions,
+  engine: IncrementalSTN
+): Steps<ComponentSolution> {
+  const { settings, layoutOnly, analysisSkipped, previousPositions } = options;
+  const { bellmanFordResult, violatedRelationshipIds, satisfiedRelationshipIds } =
+    relaxationResult;
   // Determine status
   let status: SolverStatus;
   if (!bellmanFordResult.feasible) {
@@ -87,13 +462,33 @@ function buildSolverResult(
     status = 'satisfiable';
   }
 
-  // Assign positions
+  // Assign positions, how far each endpoint could move, and what put it there
   let positions: SolvedPosition[];
+  let slack: NodeSlack[] = [];
+  let positionExplanations: PositionExplanation[] = [];
   if (bellmanFordResult.feasible) {
-    positions = assignPositions(nodes, bellmanFordResult);
+    // Spread the shortest-path solution out to suit the layout objective;
+    // explanations still describe the shortest paths
+    const layout = yield* runPhase(options, 'layout', () => ({
+      ...bellmanFordResult,
+      distances: optimizeLayout(
+        nodes,
+        relaxationResult.network,
+        bellmanFordResult.distances,
+        settings.layoutObjective,
+        previousPositions
+      ),
+    }));
+    positions = timePhase(options.phaseTimesMs, 'layout', () => assignPositions(nodes, layout));
+    if (!layoutOnly) {
+      yield* runPhase(options, 'slack', () => {
+        slack = assignSlack(nodes, relaxationResult.network, layout);
+        positionExplanations = explainPositions(nodes, relaxationResult.network, bellmanFordResult);
+      });
+    }
   } else {
     // Fall back to default positions if still unsatisfiable
-    positions = assignDefaultPositions(nodes);
+    positions = yield* runPhase(options, 'layout', () => assignDefaultPositions(nodes));
   }
 
   // Build violations list
@@ -103,18 +498,60 @@ function buildSolverResult(
       relationshipId: id,
       severity: rel?.confidence === 'speculation' ? 'soft' : 'hard',
       message: rel
-        ? `Constraint "${rel.relation}" between nodes was relaxed due to conflicts`
+        ? `Constraint "${formatRelations(rel.relations)}" between nodes was relaxed due to conflicts`
         : 'Constraint was relaxed',
     };
   });
 
-  // Build conflicts list (for unsatisfiable cases)
-  const conflicts: ConflictSet[] = [];
-  if (!bellmanFordResult.feasible && bellmanFordResult.conflictingRelationshipIds) {
-    conflicts.push({
-      relationshipIds: Array.from(bellmanFordResult.conflictingRelationshipIds),
-      description: 'These constraints form a contradictory cycle',
-    });
+  // List every minimal contradiction among the relationships, and the
+  // nearest relations that would resolve them
+  let conflicts: ConflictSet[] = [];
+  let conflictsComplete = true;
+  let repairs: RelationshipRepair[] = [];
+  if (status !== 'satisfiable' && !layoutOnly) {
+    const limits: ConflictSearchLimits = {
+      ...DEFAULT_CONFLICT_LIMITS,
+      maxConflicts: settings.maxConflicts,
+      maxChecks: settings.maxConflictChecks,
+    };
+    const enumeration = yield* runPhaseSteps(
+      options,
+      'conflicts',
+      enumerateConflictsInSteps(
+        nodes,
+        relationships,
+        analysisSkipped
+          ? {
+              maxConflicts: Math.min(limits.maxConflicts, LARGE_TIMELINE_CONFLICT_LIMITS.maxConflicts),
+              maxChecks: Math.min(limits.maxChecks, LARGE_TIMELINE_CONFLICT_LIMITS.maxChecks),
+              maxTimeMs: LARGE_TIMELINE_CONFLICT_LIMITS.maxTimeMs,
+            }
+          : limits,
+        engine
+      )
+    );
+    conflicts = enumeration.conflicts.map((c) => describeConflict(c, nodes, hardIds));
+    conflictsComplete = enumeration.complete;
+    if (!analysisSkipped) {
+      repairs = yield* runPhaseSteps(
+        options,
+        'repairs',
+        findRepairs(nodes, relationships, new Set(violatedRelationshipIds), conflicts, engine)
+      );
+    }
+  }
+
+  // Find which of the surviving relationships the others already imply
+  const satisfiedIds = new Set(satisfiedRelationshipIds);
+  const satisfied = relationships.filter((r) => satisfiedIds.has(r.id));
+  let redundantRelationshipIds: RelationshipId[] = [];
+  let prunableRelationshipIds: RelationshipId[] = [];
+  if (bellmanFordResult.feasible && !layoutOnly && !analysisSkipped) {
+    const redundancy = yield* runPhase(options, 'redundancy', () =>
+      findRedundantRelationships(nodes, satisfied)
+    );
+    redundantRelationshipIds = redundancy.redundantIds;
+    prunableRelationshipIds = redundancy.pruneIds;
   }
 
   return {
@@ -122,37 +559,100 @@ function buildSolverResult(
     positions,
     violations,
     conflicts,
-    solveTimeMs: performance.now() - startTime,
+    slack,
+    positionExplanations,
+    redundantRelationshipIds,
+    prunableRelationshipIds,
+    repairs,
+    optimalRelaxation: relaxationResult.optimal,
+    conflictsComplete,
+    undecidedRelationshipIds: relaxationResult.undecidedRelationshipIds,
+    satisfied,
+  };
+}
+
+/**
+ * Describe a minimal conflict set
+ */
+function describeConflict(
+  { relationshipIds, nodeIds, pinnedIds }: MinimalConflict,
+  nodes: TimelineNode[],
+  hardIds = new Set<RelationshipId>()
+): ConflictSet {
+  // An instant's start = end is definitional, so only intervals are worth naming
+  const nodeConstraints = nodes
+    .filter((node) => node.durationType === 'interval' && nodeIds.includes(node.id))
+    .map((node) => ({ nodeId: node.id, message: getNodeConstraintDescription(node) }));
+
+  const pins = nodes
+    .filter((node) => pinnedIds.includes(node.id))
+    .map((node) => {
+      const relativeTo = nodes.find((other) => other.id === node.pin?.relativeTo);
+      return { nodeId: node.id, message: getPinDescription(node, relativeTo?.name) };
+    });
+
+  // Pins and durations are never relaxed, so say when one is what the
+  // relationships run into. Without relationships only pins reach other
+  // nodes, so a contradiction without pins is a single node's duration.
+  let description: string;
+  if (relationshipIds.length === 0 && pinnedIds.length > 0) {
+    description = 'These pins cannot all hold; move or unpin one of them to resolve this contradiction';
+  } else if (relationshipIds.length === 0) {
+    description =
+      nodeConstraints.length === 1
+        ? "This event's duration bounds leave it no possible length; change its duration to resolve this contradiction"
+        : "These events' duration bounds leave them no possible length; change their durations to resolve this contradiction";
+  } else if (relationshipIds.every((id) => hardIds.has(id))) {
+    description =
+      relationshipIds.length === 1
+        ? 'This hard constraint cannot hold, and the solver never relaxes it; change or disable it to resolve this contradiction'
+        : `These ${String(relationshipIds.length)} hard constraints cannot all hold, and the solver never relaxes them; change or disable one to resolve this contradiction`;
+  } else if (pins.length > 0) {
+    description =
+      relationshipIds.length === 1
+        ? 'This constraint contradicts the pinned events, whose pins are never relaxed; disable it to resolve this contradiction'
+        : `These ${String(relationshipIds.length)} constraints contradict the pinned events, whose pins are never relaxed; disabling any one resolves this contradiction`;
+  } else {
+    description =
+      relationshipIds.length === 1
+        ? 'This constraint cannot hold on its own'
+        : `These ${String(relationshipIds.length)} constraints cannot all hold; disabling any one resolves this contradiction`;
+  }
+
+  return {
+    relationshipIds,
+    nodeConstraints,
+    pins,
+    description,
   };
 }
 
 /**
  * Validate that a set of constraints is satisfiable without relaxation.
  * Useful for checking before adding a new constraint.
+ *
+ * Undecided when the search over disjuncts runs out of checks: the
+ * constraints are then neither shown to hold nor to contradict each other.
  */
 export function validateConstraints(
   nodes: TimelineNode[],
   relationships: TemporalRelationship[]
-): { valid: boolean; conflicts: ConflictSet[] } {
-  if (nodes.length === 0 || relationships.length === 0) {
-    return { valid: true, conflicts: [] };
+): { valid: boolean; undecided: boolean; conflicts: ConflictSet[] } {
+  if (relationships.length === 0 && !hasNodeConstraints(nodes)) {
+    return { valid: true, undecided: false, conflicts: [] };
   }
 
-  const network = buildNetwork(nodes, relationships);
-  addVirtualSource(network);
-
-  const allConflicts = findAllConflicts(network);
-
-  if (allConflicts.length === 0) {
-    return { valid: true, conflicts: [] };
+  const search = checkRelationships(nodes, relationships);
+  if (search.feasible || search.undecided) {
+    return { valid: search.feasible, undecided: search.undecided, conflicts: [] };
   }
 
-  const conflicts: ConflictSet[] = allConflicts.map((c) => ({
-    relationshipIds: Array.from(c.relationshipIds),
-    description: 'These constraints form a contradictory cycle',
-  }));
-
-  return { valid: false, conflicts };
+  const { conflicts } = enumerateConflicts(nodes, relationships);
+  return {
+    valid: false,
+    undecided: false,
+    conflicts: conflicts.map((c) => describeConflict(c, nodes)),
+  };
 }
 
 /**
@@ -1,18 +1,129 @@
-import { solve, type SolverInput } from './solver';
-import type { SolverResult } from '../types';
+import {
+  measureImpactsInSteps,
+  resetEngine,
+  solveInSteps,
+  validateConstraints,
+  wouldCauseConflict,
+  type SolverInput,
+} from './solver';
+import { runMonteCarloInSteps, type MonteCarloInput } from './montecarlo';
+import { explainOrder } from './explain';
+import { suggestNextRelationships } from './ambiguity';
+import { IncrementalSTN } from './incremental';
+import { isSteps, type Steps } from './steps';
+import type {
+  AnalysisProgress,
+  ConflictSet,
+  MonteCarloResult,
+  NodeId,
+  OrderExplanation,
+  RelationshipImpact,
+  RelationshipSuggestion,
+  SolveProgress,
+  SolverResult,
+  TemporalRelationship,
+  TimelineNode,
+} from '../types';
+
+/**
+ * What each kind of request to the worker takes, answers, and reports while
+ * it runs
+ */
+export interface SolverRequests {
+  solve: {
+    params: SolverInput;
+    result: SolverResult;
+    progress: SolveProgress;
+  };
+  /** Whether the relationships hold together without relaxing any */
+  validate: {
+    params: { nodes: TimelineNode[]; relationships: TemporalRelationship[] };
+    result: ReturnType<typeof validateConstraints>;
+    progress: never;
+  };
+  /** The contradiction a new relationship would make with the others */
+  wouldCauseConflict: {
+    params: {
+      nodes: TimelineNode[];
+      relationships: TemporalRelationship[];
+      relationship: TemporalRelationship;
+    };
+    result: ConflictSet | null;
+    progress: never;
+  };
+  /** The chain of constraints putting one node before another */
+  explain: {
+    params: {
+      nodes: TimelineNode[];
+      relationships: TemporalRelationship[];
+      firstId: NodeId;
+      secondId: NodeId;
+    };
+    result: OrderExplanation | null;
+    progress: never;
+  };
+  analyze: {
+    params: MonteCarloInput;
+    result: MonteCarloResult;
+    progress: AnalysisProgress;
+  };
+  /** Relationships that would settle the most undetermined pairs, best first */
+  suggest: {
+    params: { nodes: TimelineNode[]; relationships: TemporalRelationship[] };
+    result: RelationshipSuggestion[];
+    progress: AnalysisProgress;
+  };
+  /** What removing each relationship would change, a solve per relationship */
+  impacts: {
+    params: SolverInput;
+    result: RelationshipImpact[];
+    progress: AnalysisProgress;
+  };
+}
+
+export type SolverRequestKind = keyof SolverRequests;
 
 /**
  * Message types for worker communication
  */
-export interface SolverWorkerRequest {
-  type: 'solve';
-  input: SolverInput;
+export interface SolverWorkerRequest<K extends SolverRequestKind = SolverRequestKind> {
+  type: 'request';
+  kind: K;
+  params: SolverRequests[K]['params'];
+  requestId: number;
+  /** Milliseconds after which the request gives up */
+  timeoutMs?: number;
+}
+
+/**
+ * Stop a request, whether it is running or still waiting behind another
+ */
+export interface CancelWorkerRequest {
+  type: 'cancel';
+  requestId: number;
+}
+
+export interface SolverWorkerProgress<K extends SolverRequestKind = SolverRequestKind> {
+  type: 'progress';
+  kind: K;
+  progress: SolverRequests[K]['progress'];
   requestId: number;
 }
 
-export interface SolverWorkerResponse {
+export interface SolverWorkerResponse<K extends SolverRequestKind = SolverRequestKind> {
   type: 'result';
-  result: SolverResult;
+  kind: K;
+  result: SolverRequests[K]['result'];
+  requestId: number;
+}
+
+/**
+ * A request stopped before it finished, at the client's request or because
+ * it ran out of time
+ */
+export interface SolverWorkerCancelled {
+  type: 'cancelled';
+  reason: 'cancelled' | 'timeout';
   requestId: number;
 }
 
@@ -22,41 +133,161 @@ export interface SolverWorkerError {
   requestId: number;
 }
 
-export type SolverWorkerMessage = SolverWorkerResponse | SolverWorkerError;
+type EachKind<T extends Record<SolverRequestKind, unknown>> = T[SolverRequestKind];
+
+export type AnySolverWorkerRequest = EachKind<{
+  [K in SolverRequestKind]: SolverWorkerRequest<K>;
+}>;
+
+export type SolverWorkerMessage =
+  | EachKind<{ [K in SolverRequestKind]: SolverWorkerProgress<K> }>
+  | EachKind<{ [K in SolverRequestKind]: SolverWorkerResponse<K> }>
+  | SolverWorkerCancelled
+  | SolverWorkerError;
 
 /**
- * Web Worker entry point.
- * Receives solve requests and returns results asynchronously.
+ * Longest a request runs without pausing, in milliseconds. Messages such as
+ * cancellations are only read during the pauses.
  */
-self.onmessage = (event: MessageEvent<SolverWorkerRequest>) => {
-  const { type, input, requestId } = event.data;
-
-  if (type !== 'solve') {
-    const errorResponse: SolverWorkerError = {
-      type: 'error',
-      error: `Unknown message type: ${type}`,
-      requestId,
-    };
-    self.postMessage(errorResponse);
-    return;
-  }
+const PAUSE_INTERVAL_MS = 50;
+
+/**
+ * Network kept between solve requests, so that an edit only re-propagates
+ * the relationships it touched
+ */
+const engine = new IncrementalSTN();
+
+/**
+ * Requests still to finish or start that have been cancelled
+ */
+const cancelled = new Set<number>();
+
+/**
+ * The last solve queued. Solves share the network, so each waits for the one
+ * before it to finish or stop; other requests run in a solve's pauses.
+ */
+let solving: Promise<void> = Promise.resolve();
+
+/**
+ * How each kind of request is answered, at once or a step at a time
+ */
+const handlers: {
+  [K in SolverRequestKind]: (
+    params: SolverRequests[K]['params']
+  ) =>
+    | SolverRequests[K]['result']
+    | Steps<SolverRequests[K]['result'], SolverRequests[K]['progress']>;
+} = {
+  solve: (input) => solveInSteps(input, engine),
+  validate: ({ nodes, relationships }) => validateConstraints(nodes, relationships),
+  wouldCauseConflict: ({ nodes, relationships, relationship }) =>
+    wouldCauseConflict(nodes, relationships, relationship),
+  explain: ({ nodes, relationships, firstId, secondId }) =>
+    explainOrder(nodes, relationships, firstId, secondId),
+  analyze: (input) => runMonteCarloInSteps(input),
+  suggest: ({ nodes, relationships }) => suggestNextRelationships(nodes, relationships),
+  impacts: (input) => measureImpactsInSteps(input),
+};
+
+const pause = () =>
+  new Promise<void>((resolve) => {
+    setTimeout(resolve, 0);
+  });
+
+function post(message: SolverWorkerMessage): void {
+  self.postMessage(message);
+}
+
+function postError(requestId: number, error: unknown): void {
+  post({
+    type: 'error',
+    error: error instanceof Error ? error.message : String(error),
+    requestId,
+  });
+}
+
+/**
+ * Run a request a step at a time, pausing now and then to take messages and
+ * reporting progress at each pause. A request answered at once is sent back
+ * as it is. A cancelled or overdue request is
+ * abandoned between steps, which leaves the network ready for the next solve.
+ */
+async function runRequest<K extends SolverRequestKind>(
+  request: SolverWorkerRequest<K>
+): Promise<void> {
+  const { kind, params, requestId, timeoutMs } = request;
+  const deadline = performance.now() + (timeoutMs ?? Infinity);
+  const postProgress = (progress: SolverRequests[K]['progress']) => {
+    const message: SolverWorkerProgress<K> = { type: 'progress', kind, progress, requestId };
+    self.postMessage(message);
+  };
+  const postResult = (result: SolverRequests[K]['result']) => {
+    const message: SolverWorkerResponse<K> = { type: 'result', kind, result, requestId };
+    self.postMessage(message);
+  };
+  let progress: SolverRequests[K]['progress'] | undefined;
+  let lastPause = performance.now();
 
   try {
-    const result = solve(input);
+    const work = handlers[kind](params);
+    if (!isSteps(work)) {
+      postResult(work);
+      return;
+    }
+    for (;;) {
+      const reason = cancelled.has(requestId)
+        ? 'cancelled'
+        : performance.now() > deadline
+          ? 'timeout'
+          : null;
+      if (reason) {
+        post({ type: 'cancelled', reason, requestId });
+        return;
+      }
 
-    const response: SolverWorkerResponse = {
-      type: 'result',
-      result,
-      requestId,
-    };
-    self.postMessage(response);
+      const next = work.next();
+      if (next.done) {
+        postResult(next.value);
+        return;
+      }
+      progress = next.value ?? progress;
+
+      if (performance.now() - lastPause >= PAUSE_INTERVAL_MS) {
+        if (progress !== undefined) postProgress(progress);
+        await pause();
+        lastPause = performance.now();
+      }
+    }
   } catch (error) {
-    const errorResponse: SolverWorkerError = {
-      type: 'error',
-      error: error instanceof Error ? error.message : String(error),
-      requestId,
-    };
-    self.postMessage(errorResponse);
+    // A solve that threw may have left the network half updated
+    if (kind === 'solve') resetEngine(engine);
+    postError(requestId, error);
+  } finally {
+    cancelled.delete(requestId);
+  }
+}
+
+/**
+ * Web Worker entry point.
+ * Receives requests and returns results asynchronously.
+ */
+self.onmessage = (event: MessageEvent<AnySolverWorkerRequest | CancelWorkerRequest>) => {
+  const request = event.data;
+  const { requestId } = request;
+
+  switch (request.type) {
+    case 'request':
+      if (request.kind === 'solve') {
+        solving = solving.then(() => runRequest(request));
+      } else {
+        void runRequest(request);
+      }
+      break;
+    case 'cancel':
+      cancelled.add(requestId);
+      break;
+    default:
+      postError(requestId, `Unknown message type: ${(request as { type: string }).type}`);
   }
 };
 
@@ -0,0 +1,42 @@
+import type { SolveProgress } from '../types';
+
+/**
+ * Work done a step at a time. Between steps it can be paused, to let other
+ * work run, or abandoned; a step may report how far the work has got.
+ */
+export type Steps<T, P = SolveProgress> = Generator<P | undefined, T, undefined>;
+
+/**
+ * Run steps through to the end without pausing
+ */
+export function runSteps<T, P>(steps: Steps<T, P>): T {
+  for (;;) {
+    const next = steps.next();
+    if (next.done) return next.value;
+  }
+}
+
+/**
+ * Whether work was left as steps to run, rather than done at once
+ */
+export function isSteps<T, P>(work: T | Steps<T, P>): work is Steps<T, P> {
+  return (
+    typeof work === 'object' &&
+    work !== null &&
+    Symbol.iterator in work &&
+    'next' in work &&
+    typeof work.next === 'function'
+  );
+}
+
+/**
+ * Run steps as part of larger work, keeping their pauses but not their
+ * progress, which the larger work reports in its own terms
+ */
+export function* withoutProgress<T, P>(steps: Steps<T, unknown>): Steps<T, P> {
+  for (;;) {
+    const next = steps.next();
+    if (next.done) return next.value;
+    yield undefined;
+  }
+}
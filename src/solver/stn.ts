@@ -1,13 +1,46 @@
-import type { DifferenceConstraint } from './constraints';
+import type { RelationshipId, TemporalRelationship } from '../types';
+import { getNodeVariables, type DifferenceConstraint } from './constraints';
+import { toWeight, minWeight, weightsEqual, type Weight } from './weights';
 
 /**
- * Edge in the STN graph with metadata for tracking origin
+ * What a constraint came from: a relationship, a node's own duration
+ * (start before end, duration bounds, or start = end for instants), or a
+ * node's pin
+ */
+export interface EdgeOrigin {
+  kind: 'relationship' | 'duration' | 'pin';
+  /** Relationship id, or node id for duration constraints and pins */
+  id: string;
+}
+
+/**
+ * One contribution to an edge, with the bound it imposes on its own
+ */
+export interface EdgeSource extends EdgeOrigin {
+  weight: Weight;
+}
+
+/**
+ * Edge in the STN graph with metadata for tracking origin.
+ *
+ * Parallel constraints are merged into one edge carrying the tightest weight;
+ * every contributor is kept in `sources`. Edges with no sources are structural
+ * (e.g. from the virtual source). The network replaces an edge rather than
+ * editing it, so an edge once read never changes.
  */
 export interface STNEdge {
   from: string;
   to: string;
-  weight: number;
-  relationshipId?: string; // Which relationship this edge came from
+  weight: Weight;
+  sources: EdgeSource[];
+}
+
+/**
+ * Sources that set the edge's weight. If several tie, all of them are binding:
+ * removing just one would not loosen the edge.
+ */
+export function getBindingSources(edge: STNEdge): EdgeSource[] {
+  return edge.sources.filter((source) => weightsEqual(source.weight, edge.weight));
 }
 
 /**
@@ -15,14 +48,25 @@ export interface STNEdge {
  *
  * An STN represents temporal constraints as a weighted directed graph where:
  * - Vertices are time variables (e.g., event start/end times)
- * - Edges represent difference constraints: edge (u, v, w) means v - u <= w
+ * - Edges represent difference constraints: edge (u, v, w) means v - u <= w,
+ *   with w an exact weight so strict bounds stay strict (see weights.ts)
  *
  * The network is consistent (satisfiable) if and only if it contains no
  * negative-weight cycles, which can be detected using Bellman-Ford.
  */
 export class SimpleTemporalNetwork {
   private vertices = new Set<string>();
-  private adjacencyList = new Map<string, STNEdge[]>();
+  /** Edges out of each vertex, by head */
+  private outgoing = new Map<string, Map<string, STNEdge>>();
+  /** Edges into each vertex, by tail */
+  private incoming = new Map<string, Map<string, STNEdge>>();
+  /** Tail and head of every edge each relationship contributes to */
+  private relationshipEdges = new Map<string, Map<string, [string, string]>>();
+  /**
+   * Inner maps this network may change in place. Copies share the rest until
+   * they first change them.
+   */
+  private owned = new WeakSet<object>();
   private edgeCount = 0;
 
   /**
@@ -31,47 +75,93 @@ export class SimpleTemporalNetwork {
   addVertex(v: string): void {
     if (!this.vertices.has(v)) {
       this.vertices.add(v);
-      this.adjacencyList.set(v, []);
+      this.outgoing.set(v, this.own(new Map<string, STNEdge>()));
+      this.incoming.set(v, this.own(new Map<string, STNEdge>()));
     }
   }
 
   /**
    * Add a difference constraint as an edge.
-   * Constraint: to - from <= weight
+   * Constraint: to - from <= weight (or < for strict constraints)
    *
    * If an edge already exists between the same vertices, we keep
-   * the tighter constraint (smaller weight).
+   * the tighter constraint (smaller weight) and record the origin
+   * alongside the existing ones.
    */
   addConstraint(
     constraint: DifferenceConstraint,
-    relationshipId?: string
+    origin?: EdgeOrigin
   ): void {
-    const { from, to, maxDiff } = constraint;
+    const { from, to, maxDiff, strict } = constraint;
+    this.addEdge(from, to, toWeight(maxDiff, strict), origin);
+  }
 
+  /**
+   * Add an edge with an exact weight: to - from <= weight.
+   * Merges with any existing edge the same way as addConstraint.
+   */
+  addEdge(from: string, to: string, weight: Weight, origin?: EdgeOrigin): void {
     // Ensure both vertices exist
     this.addVertex(from);
     this.addVertex(to);
 
-    // Check if edge already exists
-    const edges = this.adjacencyList.get(from)!;
-    const existingEdge = edges.find((e) => e.to === to);
+    const existingEdge = this.getEdge(from, to);
+    const sources = origin ? [{ ...origin, weight }] : [];
 
     if (existingEdge) {
-      // Keep the tighter constraint
-      if (maxDiff < existingEdge.weight) {
-        existingEdge.weight = maxDiff;
-        existingEdge.relationshipId = relationshipId;
-      }
+      // Keep the tighter constraint, in a new edge like every change makes,
+      // so that copies of the network can share edges
+      this.setEdge({
+        ...existingEdge,
+        weight: minWeight(existingEdge.weight, weight),
+        sources: [...existingEdge.sources, ...sources],
+      });
     } else {
       // Add new edge
-      edges.push({
+      this.setEdge({
         from,
         to,
-        weight: maxDiff,
-        relationshipId,
+        weight,
+        sources,
       });
       this.edgeCount++;
     }
+
+    if (origin?.kind === 'relationship') {
+      let endpoints = this.writable(this.relationshipEdges, origin.id);
+      if (!endpoints) {
+        endpoints = this.own(new Map<string, [string, string]>());
+        this.relationshipEdges.set(origin.id, endpoints);
+      }
+      endpoints.set(`${from}\n${to}`, [from, to]);
+    }
+  }
+
+  /**
+   * Mark a new inner map as this network's own
+   */
+  private own<T extends object>(map: T): T {
+    this.owned.add(map);
+    return map;
+  }
+
+  /**
+   * Inner map under a key, copied first if a copy of the network shares it
+   */
+  private writable<K, V>(maps: Map<string, Map<K, V>>, key: string): Map<K, V> | undefined {
+    const map = maps.get(key);
+    if (!map || this.owned.has(map)) return map;
+    const copy = this.own(new Map(map));
+    maps.set(key, copy);
+    return copy;
+  }
+
+  /**
+   * Store an edge under both of its endpoints, replacing any edge between them
+   */
+  private setEdge(edge: STNEdge): void {
+    this.writable(this.outgoing, edge.from)?.set(edge.to, edge);
+    this.writable(this.incoming, edge.to)?.set(edge.from, edge);
   }
 
   /**
@@ -79,10 +169,10 @@ export class SimpleTemporalNetwork {
    */
   addConstraints(
     constraints: DifferenceConstraint[],
-    relationshipId?: string
+    origin?: EdgeOrigin
   ): void {
     for (const constraint of constraints) {
-      this.addConstraint(constraint, relationshipId);
+      this.addConstraint(constraint, origin);
     }
   }
 
@@ -98,17 +188,31 @@ export class SimpleTemporalNetwork {
    */
   getEdges(): STNEdge[] {
     const edges: STNEdge[] = [];
-    for (const edgeList of this.adjacencyList.values()) {
-      edges.push(...edgeList);
+    for (const edgesFrom of this.outgoing.values()) {
+      edges.push(...edgesFrom.values());
     }
     return edges;
   }
 
+  /**
+   * Get the edge from one vertex to another, if there is one
+   */
+  getEdge(from: string, to: string): STNEdge | undefined {
+    return this.outgoing.get(from)?.get(to);
+  }
+
   /**
    * Get outgoing edges from a vertex
    */
-  getOutgoingEdges(vertex: string): STNEdge[] {
-    return this.adjacencyList.get(vertex) ?? [];
+  getOutgoingEdges(vertex: string): Iterable<STNEdge> {
+    return this.outgoing.get(vertex)?.values() ?? [];
+  }
+
+  /**
+   * Get incoming edges to a vertex
+   */
+  getIncomingEdges(vertex: string): Iterable<STNEdge> {
+    return this.incoming.get(vertex)?.values() ?? [];
   }
 
   /**
@@ -133,62 +237,68 @@ export class SimpleTemporalNetwork {
   }
 
   /**
-   * Create a copy of this network
+   * Create a copy of this network. Edges are never changed in place, so the
+   * copy shares them, and the edges around each vertex are only copied once
+   * either network changes them.
    */
   clone(): SimpleTemporalNetwork {
     const copy = new SimpleTemporalNetwork();
-    for (const v of this.vertices) {
-      copy.addVertex(v);
-    }
-    for (const edges of this.adjacencyList.values()) {
-      for (const edge of edges) {
-        copy.addConstraint(
-          { from: edge.from, to: edge.to, maxDiff: edge.weight },
-          edge.relationshipId
-        );
-      }
-    }
+    copy.vertices = new Set(this.vertices);
+    copy.outgoing = new Map(this.outgoing);
+    copy.incoming = new Map(this.incoming);
+    copy.relationshipEdges = new Map(this.relationshipEdges);
+    copy.edgeCount = this.edgeCount;
+    this.owned = new WeakSet();
     return copy;
   }
 
   /**
-   * Remove all edges associated with a specific relationship
+   * Remove a relationship's contribution to every edge. Edges left with no
+   * sources are dropped; others fall back to their next tightest source.
+   * Returns the edges it touched, as they were before.
    */
-  removeRelationshipEdges(relationshipId: string): void {
-    for (const [vertex, edges] of this.adjacencyList) {
-      const filtered = edges.filter((e) => e.relationshipId !== relationshipId);
-      const removed = edges.length - filtered.length;
-      this.edgeCount -= removed;
-      this.adjacencyList.set(vertex, filtered);
+  removeRelationshipEdges(relationshipId: string): STNEdge[] {
+    const isRemoved = (source: EdgeSource) =>
+      source.kind === 'relationship' && source.id === relationshipId;
+    const touched: STNEdge[] = [];
+
+    for (const [from, to] of this.relationshipEdges.get(relationshipId)?.values() ?? []) {
+      const edge = this.getEdge(from, to);
+      if (!edge) continue;
+      touched.push(edge);
+
+      const sources = edge.sources.filter((source) => !isRemoved(source));
+      if (sources.length > 0) {
+        this.setEdge({
+          ...edge,
+          weight: sources.map((source) => source.weight).reduce(minWeight),
+          sources,
+        });
+      } else {
+        this.writable(this.outgoing, from)?.delete(to);
+        this.writable(this.incoming, to)?.delete(from);
+        this.edgeCount--;
+      }
     }
+    this.relationshipEdges.delete(relationshipId);
+    return touched;
   }
 
   /**
    * Get all relationship IDs that have edges in this network
    */
   getRelationshipIds(): Set<string> {
-    const ids = new Set<string>();
-    for (const edges of this.adjacencyList.values()) {
-      for (const edge of edges) {
-        if (edge.relationshipId) {
-          ids.add(edge.relationshipId);
-        }
-      }
-    }
-    return ids;
+    return new Set(this.relationshipEdges.keys());
   }
 
   /**
-   * Get all edges associated with a specific relationship
+   * Get all edges a specific relationship contributes to
    */
   getEdgesForRelationship(relationshipId: string): STNEdge[] {
     const result: STNEdge[] = [];
-    for (const edges of this.adjacencyList.values()) {
-      for (const edge of edges) {
-        if (edge.relationshipId === relationshipId) {
-          result.push(edge);
-        }
-      }
+    for (const [from, to] of this.relationshipEdges.get(relationshipId)?.values() ?? []) {
+      const edge = this.getEdge(from, to);
+      if (edge) result.push(edge);
     }
     return result;
   }
@@ -199,6 +309,15 @@ export class SimpleTemporalNetwork {
  */
 export const VIRTUAL_SOURCE = '__source__';
 
+/**
+ * Year zero of the timeline's calendar, which pins are measured from.
+ *
+ * Pins can't be measured from the virtual source itself, since every other
+ * point lies at or before it; year zero is an ordinary vertex, free to sit
+ * anywhere, that pinned points keep a fixed distance from.
+ */
+export const TIMELINE_ORIGIN = '__origin__';
+
 /**
  * Add a virtual source vertex connected to all other vertices with weight 0.
  * This allows running single-source shortest path to detect negative cycles
@@ -216,3 +335,47 @@ export function addVirtualSource(network: SimpleTemporalNetwork): void {
     }
   }
 }
+
+/**
+ * Position of each vertex in a depth-first reverse postorder from the virtual
+ * source, which orders the vertices topologically wherever there is no cycle
+ */
+export function rankVertices(network: SimpleTemporalNetwork): Map<string, number> {
+  const finished: string[] = [];
+  const visited = new Set([VIRTUAL_SOURCE]);
+  const stack: [string, Iterator<STNEdge>][] = [
+    [VIRTUAL_SOURCE, network.getOutgoingEdges(VIRTUAL_SOURCE)[Symbol.iterator]()],
+  ];
+  for (let top = stack.at(-1); top; top = stack.at(-1)) {
+    const next = top[1].next();
+    if (next.done) {
+      finished.push(top[0]);
+      stack.pop();
+    } else if (!visited.has(next.value.to)) {
+      visited.add(next.value.to);
+      stack.push([next.value.to, network.getOutgoingEdges(next.value.to)[Symbol.iterator]()]);
+    }
+  }
+
+  const ranks = new Map<string, number>();
+  finished.forEach((vertex, index) => ranks.set(vertex, finished.length - index));
+  return ranks;
+}
+
+/**
+ * Position of each relationship by the earliest-ranked point of its two
+ * nodes, so that following it mostly works downstream through the network
+ */
+export function rankRelationships(
+  network: SimpleTemporalNetwork,
+  relationships: TemporalRelationship[]
+): Map<RelationshipId, number> {
+  const ranks = rankVertices(network);
+  const rankOfNode = (nodeId: string): number => {
+    const { start, end } = getNodeVariables(nodeId);
+    return Math.min(ranks.get(start) ?? Infinity, ranks.get(end) ?? Infinity);
+  };
+  return new Map(
+    relationships.map((rel) => [rel.id, Math.min(rankOfNode(rel.sourceId), rankOfNode(rel.targetId))])
+  );
+}
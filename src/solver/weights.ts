@@ -0,0 +1,91 @@
+/**
+ * Exact STN edge weights.
+ *
+ * A weight is value + infinitesimal·ε for an infinitely small ε > 0, compared
+ * lexicographically. A strict bound "to - from < c" is the weight (c, -1), a
+ * non-strict one (c, 0). Sums stay exact however long a chain of strict
+ * bounds gets, so "before" never collapses into "meets".
+ */
+export interface Weight {
+  value: number;
+  infinitesimal: number;
+}
+
+export const ZERO_WEIGHT: Weight = { value: 0, infinitesimal: 0 };
+
+export const INFINITE_WEIGHT: Weight = { value: Infinity, infinitesimal: 0 };
+
+/**
+ * Weight for a bound of c, strict or not
+ */
+export function toWeight(value: number, strict = false): Weight {
+  return { value, infinitesimal: strict ? -1 : 0 };
+}
+
+export function addWeights(a: Weight, b: Weight): Weight {
+  return { value: a.value + b.value, infinitesimal: a.infinitesimal + b.infinitesimal };
+}
+
+export function subtractWeights(a: Weight, b: Weight): Weight {
+  return { value: a.value - b.value, infinitesimal: a.infinitesimal - b.infinitesimal };
+}
+
+export function negateWeight(w: Weight): Weight {
+  return { value: -w.value, infinitesimal: -w.infinitesimal };
+}
+
+/**
+ * Lexicographic comparison: negative if a < b, positive if a > b, else 0
+ */
+export function compareWeights(a: Weight, b: Weight): number {
+  if (a.value !== b.value) return a.value < b.value ? -1 : 1;
+  // Infinite values swallow the infinitesimal part
+  if (!isFinite(a.value)) return 0;
+  return a.infinitesimal - b.infinitesimal;
+}
+
+export function isLessThan(a: Weight, b: Weight): boolean {
+  return compareWeights(a, b) < 0;
+}
+
+export function weightsEqual(a: Weight, b: Weight): boolean {
+  return compareWeights(a, b) === 0;
+}
+
+export function minWeight(a: Weight, b: Weight): Weight {
+  return isLessThan(b, a) ? b : a;
+}
+
+export function isFiniteWeight(w: Weight): boolean {
+  return isFinite(w.value);
+}
+
+/**
+ * Pick a concrete ε for turning weights into numbers while keeping their
+ * order: small enough that the spread of infinitesimal parts never bridges
+ * the smallest gap between distinct values. Capped at 1, which is what purely
+ * qualitative timelines (all values equal) use.
+ */
+export function chooseEpsilon(weights: Weight[]): number {
+  const finite = weights.filter(isFiniteWeight);
+  if (finite.length === 0) return 1;
+
+  const infinitesimals = finite.map((w) => w.infinitesimal);
+  const spread = Math.max(...infinitesimals) - Math.min(...infinitesimals);
+  if (spread === 0) return 1;
+
+  const values = [...new Set(finite.map((w) => w.value))].sort((a, b) => a - b);
+  let smallestGap = Infinity;
+  for (let i = 1; i < values.length; i++) {
+    smallestGap = Math.min(smallestGap, (values[i] ?? 0) - (values[i - 1] ?? 0));
+  }
+
+  return Math.min(1, smallestGap / (2 * spread));
+}
+
+/**
+ * Evaluate a weight for a concrete ε
+ */
+export function realizeWeight(w: Weight, epsilon: number): number {
+  return w.value + w.infinitesimal * epsilon;
+}
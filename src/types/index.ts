@@ -92,6 +92,11 @@ export function getInverseRelation(relation: AllenRelation): AllenRelation {
   return inverses[relation];
 }
 
+// Describe a set of allowed relations, e.g. "Before or Meets"
+export function formatRelations(relations: AllenRelation[]): string {
+  return relations.map((r) => ALLEN_RELATION_LABELS[r]).join(' or ');
+}
+
 // =====================================
 // Confidence Levels
 // =====================================
@@ -122,17 +127,99 @@ export const CONFIDENCE_WEIGHTS: Record<ConfidenceLevel, number> = {
   speculation: 10,
 };
 
+/**
+ * Chance that a relationship of each confidence level is true, used when
+ * sampling possible timelines. Explicit relationships are always kept.
+ */
+export const CONFIDENCE_PROBABILITIES: Record<ConfidenceLevel, number> = {
+  explicit: 1,
+  inferred: 0.75,
+  speculation: 0.4,
+};
+
+// =====================================
+// Quantitative Bounds
+// =====================================
+
+export type TimeUnit = 'years' | 'centuries' | 'millennia';
+
+export const TIME_UNITS: TimeUnit[] = ['years', 'centuries', 'millennia'];
+
+export const TIME_UNIT_LABELS: Record<TimeUnit, string> = {
+  years: 'Years',
+  centuries: 'Centuries',
+  millennia: 'Millennia',
+};
+
+// How many base units (years) one of each unit is worth
+export const TIME_UNIT_FACTORS: Record<TimeUnit, number> = {
+  years: 1,
+  centuries: 100,
+  millennia: 1000,
+};
+
+/**
+ * Optional numeric limits expressed in a unit. Either side may be left open.
+ */
+export interface NumericBounds {
+  min?: number;
+  max?: number;
+  unit: TimeUnit;
+}
+
+// Describe bounds, e.g. "500–1000 years" or "≥ 2 centuries"
+export function formatBounds(bounds: NumericBounds): string {
+  const unit = TIME_UNIT_LABELS[bounds.unit].toLowerCase();
+  const { min, max } = bounds;
+  if (min !== undefined && max !== undefined) {
+    return min === max ? `${String(min)} ${unit}` : `${String(min)}–${String(max)} ${unit}`;
+  }
+  if (min !== undefined) return `≥ ${String(min)} ${unit}`;
+  if (max !== undefined) return `≤ ${String(max)} ${unit}`;
+  return '';
+}
+
 // =====================================
 // Timeline Node (Event)
 // =====================================
 
 export type DurationType = 'instant' | 'interval';
 
+/**
+ * A fixed place for a node's start: a date on the timeline's own calendar,
+ * or an offset from another node's start. Pins always hold; the solver
+ * never relaxes them.
+ */
+export interface NodePin {
+  /** Time after the calendar's year zero, or after the other node's start; negative for before */
+  position: number;
+  unit: TimeUnit;
+  /** Node the offset is measured from, if not year zero */
+  relativeTo?: NodeId;
+}
+
+// Describe where a pin holds a node, e.g. "at year zero" or
+// "2 centuries after "The Shattering" starts"
+export function formatPin(pin: NodePin, relativeToName?: string): string {
+  const reference = pin.relativeTo === undefined
+    ? 'year zero'
+    : `"${relativeToName ?? 'Unknown'}" starts`;
+  if (pin.position === 0) {
+    return pin.relativeTo === undefined ? 'at year zero' : `when ${reference}`;
+  }
+  const amount = `${String(Math.abs(pin.position))} ${TIME_UNIT_LABELS[pin.unit].toLowerCase()}`;
+  return `${amount} ${pin.position > 0 ? 'after' : 'before'} ${reference}`;
+}
+
 export interface TimelineNode {
   id: NodeId;
   name: string;
   description: string;
   durationType: DurationType;
+  /** Known length of an interval, if the lore gives one */
+  duration?: NumericBounds;
+  /** Fixed place for the start, if the lore dates the event */
+  pin?: NodePin;
   category?: string;
   color?: string;
   enabled: boolean;
@@ -148,8 +235,13 @@ export interface TemporalRelationship {
   id: RelationshipId;
   sourceId: NodeId;
   targetId: NodeId;
-  relation: AllenRelation;
+  /** Allowed relations; more than one means "any of these" */
+  relations: AllenRelation[];
   confidence: ConfidenceLevel;
+  /** Never relax this relationship, whatever its confidence */
+  hard?: boolean;
+  /** Known separation between the two events (applies to before/after) */
+  gap?: NumericBounds;
   reasoning?: string;
   enabled: boolean;
   createdAt: number;
@@ -166,25 +258,382 @@ export interface SolvedPosition {
   end: number;
 }
 
+/**
+ * Range of display positions an endpoint can take without breaking any
+ * satisfied constraint, given a timeline as long as the current layout
+ */
+export interface EndpointWindow {
+  earliest: number;
+  latest: number;
+}
+
+export interface NodeSlack {
+  nodeId: NodeId;
+  start: EndpointWindow;
+  end: EndpointWindow;
+}
+
 export interface ConstraintViolation {
   relationshipId: RelationshipId;
   severity: 'hard' | 'soft';
   message: string;
 }
 
+/**
+ * A node's own constraint (positive duration, duration bounds) that a
+ * conflict relies on
+ */
+export interface NodeConstraint {
+  nodeId: NodeId;
+  message: string;
+}
+
 export interface ConflictSet {
   relationshipIds: RelationshipId[];
+  nodeConstraints: NodeConstraint[];
+  /** Pins the conflict relies on, which hold however the relationships are relaxed */
+  pins: NodeConstraint[];
   description: string;
 }
 
+/**
+ * Relations between two nodes that follow from the other relationships,
+ * even though no relationship connects the pair directly.
+ */
+export interface EntailedRelation {
+  sourceId: NodeId;
+  targetId: NodeId;
+  relations: AllenRelation[];
+}
+
+/**
+ * One constraint in a chain of reasoning: a relationship, a node's own
+ * duration constraints, or its pin
+ */
+export interface ReasoningStep {
+  kind: 'relationship' | 'duration' | 'pin';
+  /** Relationship id, or node id for duration constraints and pins */
+  id: string;
+}
+
+/**
+ * Which endpoints an order explanation compares: the earlier node's end or
+ * start, against the later node's start
+ */
+export type OrderEndpoints = 'end-start' | 'start-start';
+
+/**
+ * Why one node comes before another: a chain of constraints leading from the
+ * earlier node to the later one
+ */
+export interface OrderExplanation {
+  earlierId: NodeId;
+  laterId: NodeId;
+  endpoints: OrderEndpoints;
+  /** Strictly before, or only no later than */
+  strict: boolean;
+  steps: ReasoningStep[];
+}
+
+/**
+ * Why the solver placed a node where it did: for each endpoint, the chain of
+ * constraints that fixed it, in order from the latest point of the timeline
+ */
+export interface PositionExplanation {
+  nodeId: NodeId;
+  start: ReasoningStep[];
+  end: ReasoningStep[];
+}
+
+/**
+ * Coarse order between two nodes: one entirely first, or sharing some time
+ */
+export type OrderClass = 'precedes' | 'follows' | 'concurrent';
+
+export const ORDER_CLASS_LABELS: Record<OrderClass, string> = {
+  precedes: 'before',
+  follows: 'after',
+  concurrent: 'at the same time as',
+};
+
+/**
+ * A pair of nodes whose order the constraints leave open
+ */
+export interface UndeterminedPair {
+  sourceId: NodeId;
+  targetId: NodeId;
+  /** Orders of source relative to target that are still possible */
+  orders: OrderClass[];
+}
+
+/**
+ * A relationship worth researching: stating it would settle the order of
+ * this many undetermined pairs, including its own
+ */
+export interface RelationshipSuggestion {
+  sourceId: NodeId;
+  targetId: NodeId;
+  relations: AllenRelation[];
+  resolves: number;
+}
+
+/**
+ * What removing one relationship would change about the solved timeline.
+ * Measured on request, since it takes a solve per relationship.
+ */
+export interface RelationshipImpact {
+  relationshipId: RelationshipId;
+  /** Pairs of nodes whose order by start would change */
+  orderChanges: number;
+  /** Furthest any node endpoint would move, in display units */
+  maxShift: number;
+  /** Relationships the solver would have to relax that it keeps now */
+  newlyRelaxedIds: RelationshipId[];
+  /** Relationships the solver relaxes now that it could keep */
+  restoredIds: RelationshipId[];
+}
+
+/**
+ * A nearby relation that a relaxed or conflicting relationship could state
+ * instead, restoring consistency
+ */
+export interface RelationshipRepair {
+  relationshipId: RelationshipId;
+  relations: AllenRelation[];
+  /** Steps from the stated relations through the conceptual neighbourhood graph */
+  distance: number;
+  /** Relaxed relationships the solver could keep after the change */
+  restoredIds: RelationshipId[];
+}
+
+// =====================================
+// Probabilistic Analysis
+// =====================================
+
+/**
+ * How often the sampled relationships forced one node to start before
+ * another. The remainder of the samples forced both to start together.
+ */
+export interface OrderProbability {
+  sourceId: NodeId;
+  targetId: NodeId;
+  before: number;
+  after: number;
+  /** Share of samples that left either order possible */
+  undetermined: number;
+}
+
+/**
+ * Where a node landed across the sampled timelines
+ */
+export interface NodeDistribution {
+  nodeId: NodeId;
+  /**
+   * Share of samples that forced the node into each ordinal rank by start,
+   * earliest first. Nodes forced to start together share a rank.
+   */
+  ranks: number[];
+  /** Share of samples that left the node's rank open */
+  undeterminedRank: number;
+  /** Display positions of the node's start over the middle 90% of samples */
+  range: EndpointWindow;
+}
+
+export interface MonteCarloResult {
+  /** Samples whose relationships were consistent, which the figures cover */
+  samples: number;
+  /** Samples discarded because their relationships contradicted each other */
+  rejectedSamples: number;
+  orderProbabilities: OrderProbability[];
+  distributions: NodeDistribution[];
+}
+
+/**
+ * How far a running analysis has got
+ */
+export interface AnalysisProgress {
+  completed: number;
+  total: number;
+}
+
 export type SolverStatus = 'satisfiable' | 'relaxed' | 'unsatisfiable';
 
+/**
+ * Nodes that no relationship or pin ties to the rest of the timeline, solved
+ * and laid out on their own. Positions within a component span the whole
+ * display scale, so different components don't share an axis. Nodes related
+ * to nothing at all share one component.
+ */
+export interface SolverComponent {
+  nodeIds: NodeId[];
+  relationshipIds: RelationshipId[];
+  status: SolverStatus;
+  /** Relationships relaxed within the component */
+  relaxedIds: RelationshipId[];
+  /** Whether the relaxed relationships are proven to be the least confident choice */
+  optimalRelaxation: boolean;
+}
+
 export interface SolverResult {
+  /** Worst status of any component */
   status: SolverStatus;
+  /**
+   * Display positions, each on its component's own scale: compare two only
+   * if their nodes share a component, or place each component on a common
+   * axis first (see placeComponents)
+   */
   positions: SolvedPosition[];
+  /**
+   * The parts of the timeline solved apart, in the order of their first
+   * node, with the nodes related to nothing last
+   */
+  components: SolverComponent[];
   violations: ConstraintViolation[];
   conflicts: ConflictSet[];
+  entailedRelations: EntailedRelation[];
+  slack: NodeSlack[];
+  positionExplanations: PositionExplanation[];
+  /** Relationships the others already imply */
+  redundantRelationshipIds: RelationshipId[];
+  /** Redundant relationships that can all be pruned together */
+  prunableRelationshipIds: RelationshipId[];
+  undeterminedPairs: UndeterminedPair[];
+  /** Nearest relations that would resolve contradictions, nearest first */
+  repairs: RelationshipRepair[];
+  /** Whether the relaxed relationships are proven to be the least confident choice */
+  optimalRelaxation: boolean;
+  /** Whether every contradiction was found within the search limits */
+  conflictsComplete: boolean;
+  /**
+   * Relationships with several relations left out of the layout because the
+   * search over their relations ran out of checks before finding a consistent
+   * choice or proving there is none
+   */
+  undecidedRelationshipIds: RelationshipId[];
+  /**
+   * Whether the timeline was too large for the analyses that cover every
+   * pair of nodes (entailed relations, undetermined pairs and redundancy) and
+   * for repairs. Only a few contradictions are looked for then.
+   */
+  analysisSkipped: boolean;
   solveTimeMs: number;
+  /** Milliseconds spent in each phase the solve ran */
+  phaseTimesMs: SolverPhaseTimes;
+}
+
+/**
+ * Stages of a solve, in the order they run
+ */
+export type SolverPhase =
+  | 'relaxation'
+  | 'layout'
+  | 'slack'
+  | 'conflicts'
+  | 'repairs'
+  | 'inference'
+  | 'redundancy';
+
+export const SOLVER_PHASES: SolverPhase[] = [
+  'relaxation',
+  'layout',
+  'slack',
+  'conflicts',
+  'repairs',
+  'inference',
+  'redundancy',
+];
+
+export const SOLVER_PHASE_LABELS: Record<SolverPhase, string> = {
+  relaxation: 'Consistency and relaxation',
+  layout: 'Layout',
+  slack: 'Slack and explanations',
+  conflicts: 'Contradictions',
+  repairs: 'Repairs',
+  inference: 'Entailed relations and open pairs',
+  redundancy: 'Redundancy',
+};
+
+export type SolverPhaseTimes = Partial<Record<SolverPhase, number>>;
+
+/**
+ * How far a running solve has got
+ */
+export interface SolveProgress {
+  /** Phase under way */
+  phase: SolverPhase;
+  /** Components solved so far, out of all of them */
+  completed: number;
+  total: number;
+}
+
+// =====================================
+// Solver Settings
+// =====================================
+
+export type RelaxationStrategy = 'greedy' | 'optimal';
+
+export const RELAXATION_STRATEGIES: RelaxationStrategy[] = ['optimal', 'greedy'];
+
+export const RELAXATION_STRATEGY_LABELS: Record<RelaxationStrategy, string> = {
+  optimal: 'Optimal',
+  greedy: 'Greedy',
+};
+
+export const RELAXATION_STRATEGY_DESCRIPTIONS: Record<RelaxationStrategy, string> = {
+  optimal: 'Relax the set of relationships with the least total confidence',
+  greedy: 'Relax the least confident relationship in each conflict (faster)',
+};
+
+export type LayoutObjective = 'earliest' | 'even' | 'compact' | 'proportional';
+
+export const LAYOUT_OBJECTIVES: LayoutObjective[] = ['even', 'proportional', 'compact', 'earliest'];
+
+export const LAYOUT_OBJECTIVE_LABELS: Record<LayoutObjective, string> = {
+  even: 'Even spacing',
+  proportional: 'Proportional',
+  compact: 'Compact',
+  earliest: 'Shortest paths',
+};
+
+export const LAYOUT_OBJECTIVE_DESCRIPTIONS: Record<LayoutObjective, string> = {
+  even: 'Space consecutive events as evenly as the constraints allow',
+  proportional: 'Space events evenly and draw intervals at widths proportional to their known durations',
+  compact: 'Draw events as close together as the constraints allow',
+  earliest: 'Place events at their raw shortest-path distances (fastest, but unrelated events pile up together)',
+};
+
+export interface SolverSettings {
+  relaxationStrategy: RelaxationStrategy;
+  layoutObjective: LayoutObjective;
+  /** Most contradictions to list */
+  maxConflicts: number;
+  /** Most consistency checks to spend looking for contradictions */
+  maxConflictChecks: number;
+  /** Timelines to sample in probabilistic analysis */
+  analysisSamples: number;
+  /** Treat every explicit relationship as hard, so only weaker ones are relaxed */
+  explicitIsHard: boolean;
+}
+
+export const DEFAULT_SOLVER_SETTINGS: SolverSettings = {
+  relaxationStrategy: 'optimal',
+  layoutObjective: 'even',
+  maxConflicts: 20,
+  maxConflictChecks: 500,
+  analysisSamples: 200,
+  explicitIsHard: false,
+};
+
+/**
+ * Whether the solver must keep a relationship rather than relax it: flagged
+ * hard, or explicit while the settings make every explicit relationship hard
+ */
+export function isHardRelationship(
+  relationship: TemporalRelationship,
+  settings: SolverSettings
+): boolean {
+  return relationship.hard === true ||
+    (settings.explicitIsHard && relationship.confidence === 'explicit');
 }
 
 // =====================================
@@ -204,6 +653,7 @@ export interface TimelineState {
   selectedNodeId: NodeId | null;
   selectedRelationshipId: RelationshipId | null;
   viewport: Viewport;
+  settings: SolverSettings;
 }
 
 // =====================================
@@ -218,10 +668,12 @@ export type TimelineAction =
   | { type: 'ADD_RELATIONSHIP'; payload: TemporalRelationship }
   | { type: 'UPDATE_RELATIONSHIP'; payload: { id: RelationshipId; changes: Partial<TemporalRelationship> } }
   | { type: 'DELETE_RELATIONSHIP'; payload: RelationshipId }
+  | { type: 'DELETE_RELATIONSHIPS'; payload: RelationshipId[] }
   | { type: 'TOGGLE_RELATIONSHIP'; payload: RelationshipId }
   | { type: 'SELECT_NODE'; payload: NodeId | null }
   | { type: 'SELECT_RELATIONSHIP'; payload: RelationshipId | null }
   | { type: 'SET_VIEWPORT'; payload: Viewport }
+  | { type: 'UPDATE_SETTINGS'; payload: Partial<SolverSettings> }
   | { type: 'LOAD_STATE'; payload: TimelineState }
   | { type: 'RESET_STATE' };
 
@@ -233,12 +685,21 @@ export interface HistoryState<T> {
   past: T[];
   present: T;
   future: T[];
+  /** State when the open transaction began, or null outside one */
+  checkpoint: T | null;
 }
 
+/**
+ * Actions executed between BEGIN_TRANSACTION and COMMIT_TRANSACTION share a
+ * single history entry; ROLLBACK_TRANSACTION discards them instead
+ */
 export type HistoryAction<A> =
   | { type: 'UNDO' }
   | { type: 'REDO' }
-  | { type: 'EXECUTE'; action: A };
+  | { type: 'EXECUTE'; action: A }
+  | { type: 'BEGIN_TRANSACTION' }
+  | { type: 'COMMIT_TRANSACTION' }
+  | { type: 'ROLLBACK_TRANSACTION' };
 
 // =====================================
 // Serialization (LocalStorage)
@@ -249,13 +710,14 @@ export interface SerializedTimeline {
   nodes: TimelineNode[];
   relationships: TemporalRelationship[];
   viewport: Viewport;
+  settings?: SolverSettings;
 }
 
 // =====================================
 // UI State
 // =====================================
 
-export type ModalType = 'node-editor' | 'relationship-editor' | 'help' | null;
+export type ModalType = 'node-editor' | 'relationship-editor' | 'help' | 'conflict-wizard' | null;
 
 export interface UIState {
   activeModal: ModalType;